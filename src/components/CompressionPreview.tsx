@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { formatFileSize, renderPagePreview } from '@/lib/compress-helper'
+
+interface CompressionPreviewProps {
+  original: File
+  compressed: Blob
+}
+
+interface Preview {
+  original: string
+  compressed: string
+  pageCount: number
+}
+
+/**
+ * The same page before and after compression side by side. Pages are
+ * rendered larger than shown, so zooming in reveals compression artifacts.
+ */
+export function CompressionPreview({
+  original,
+  compressed,
+}: CompressionPreviewProps) {
+  const [pageNumber, setPageNumber] = useState(1)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [zoomed, setZoomed] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    setPreview(null)
+    Promise.all([
+      renderPagePreview(original, pageNumber),
+      renderPagePreview(compressed, pageNumber),
+    ])
+      .then(([before, after]) => {
+        if (!active) return
+        setPreview({
+          original: before.image,
+          compressed: after.image,
+          pageCount: after.pageCount,
+        })
+      })
+      .catch((err: unknown) => console.error('Preview failed:', err))
+    return () => {
+      active = false
+    }
+  }, [original, compressed, pageNumber])
+
+  const panels = preview
+    ? [
+        { label: 'Original', size: original.size, image: preview.original },
+        {
+          label: 'Compressed',
+          size: compressed.size,
+          image: preview.compressed,
+        },
+      ]
+    : []
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-700">
+        <label htmlFor="preview-page" className="font-medium">
+          Page
+        </label>
+        <input
+          id="preview-page"
+          type="number"
+          min={1}
+          max={preview?.pageCount}
+          value={pageNumber}
+          onChange={(e) =>
+            setPageNumber(Math.max(Number(e.target.value) || 1, 1))
+          }
+          className="w-20 rounded-lg border border-gray-300 px-2 py-1"
+        />
+        {preview && (
+          <span className="text-gray-500">of {preview.pageCount}</span>
+        )}
+        <label className="flex items-center gap-2 ml-auto cursor-pointer">
+          <input
+            type="checkbox"
+            checked={zoomed}
+            onChange={(e) => setZoomed(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Actual size
+        </label>
+      </div>
+
+      {preview ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {panels.map((panel) => (
+            <div key={panel.label}>
+              <p className="text-sm font-medium text-gray-700 mb-1">
+                {panel.label} ({formatFileSize(panel.size)})
+              </p>
+              <div className="max-h-[500px] overflow-auto rounded-lg border border-gray-200 bg-gray-50">
+                <img
+                  src={panel.image}
+                  alt={`${panel.label} page ${pageNumber}`}
+                  className={zoomed ? 'max-w-none' : 'block w-full'}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex h-48 items-center justify-center">
+          <Loader2 className="text-blue-600 animate-spin" size={24} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import type { CompressionProfile } from '@/lib/compression-profiles'
+import type { ColorMode } from '@/lib/color-mode'
+import type { ImageFormat } from '@/lib/pdf-optimize'
+import { getCompressionSettings } from '@/lib/compress-helper'
+
+interface CompressionProfileEditorProps {
+  /** The profile to edit, a new one is created without it */
+  profile?: CompressionProfile
+  onSave: (profile: CompressionProfile) => void
+  onCancel: () => void
+}
+
+const formatOptions: Array<{ value: ImageFormat; label: string }> = [
+  { value: 'jpeg', label: 'JPEG - recompress photos, keep PNG-style images' },
+  { value: 'png', label: 'PNG - lossless only, photos are not re-encoded' },
+  { value: 'to-jpeg', label: 'Convert all to JPEG, including PNG and WebP' },
+]
+
+const colorOptions: Array<{ value: ColorMode; label: string }> = [
+  { value: 'color', label: 'Color' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'bw', label: 'Black and white (scanned text)' },
+]
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm'
+
+/**
+ * Form for a custom compression profile
+ */
+export function CompressionProfileEditor({
+  profile,
+  onSave,
+  onCancel,
+}: CompressionProfileEditorProps) {
+  const initial = profile?.settings ?? getCompressionSettings('normal')
+  const [name, setName] = useState(profile?.name ?? '')
+  const [targetDpi, setTargetDpi] = useState(String(initial.targetDpi))
+  const [format, setFormat] = useState(initial.format)
+  const [colorMode, setColorMode] = useState(initial.colorMode)
+  const [quality, setQuality] = useState(Math.round(initial.imageQuality * 100))
+  const [keepMetadata, setKeepMetadata] = useState(initial.keepMetadata)
+
+  const dpi = Number(targetDpi)
+  const isValid = name.trim() !== '' && dpi >= 10 && dpi <= 1200
+
+  const handleSave = () => {
+    if (!isValid) return
+    onSave({
+      id: profile?.id ?? `${Date.now()}-${Math.random()}`,
+      name: name.trim(),
+      settings: {
+        ...initial,
+        targetDpi: dpi,
+        // Flattened pages are rendered at the target resolution
+        scale: dpi / 72,
+        format,
+        colorMode,
+        imageQuality: quality / 100,
+        keepMetadata,
+      },
+    })
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-xl border-2 border-blue-300 bg-white space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="text-sm font-medium text-gray-700 space-y-1">
+          <span>Profile name</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Tax portal scans"
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700 space-y-1">
+          <span>Target DPI</span>
+          <input
+            type="number"
+            min={10}
+            max={1200}
+            value={targetDpi}
+            onChange={(e) => setTargetDpi(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700 space-y-1">
+          <span>Image format</span>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ImageFormat)}
+            className={inputClassName}
+          >
+            {formatOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700 space-y-1">
+          <span>Color</span>
+          <select
+            value={colorMode}
+            onChange={(e) => setColorMode(e.target.value as ColorMode)}
+            className={inputClassName}
+          >
+            {colorOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700 space-y-1">
+          <span>JPEG quality: {quality}%</span>
+          <input
+            type="range"
+            min={5}
+            max={100}
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            disabled={format === 'png'}
+            className="w-full accent-blue-600"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={keepMetadata}
+            onChange={(e) => setKeepMetadata(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Keep metadata (title, author, XMP)
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Color and format apply to images. Text and vector graphics stay as they
+        are unless pages are flattened.
+      </p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isValid}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Save profile
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import type { CompressionReport } from '@/lib/compress-helper'
+import { formatFileSize } from '@/lib/compress-helper'
+
+interface CompressionReportTableProps {
+  report: CompressionReport
+}
+
+/**
+ * Per-page sizes before and after compression, and the pages that were
+ * kept unchanged with the reason
+ */
+export function CompressionReportTable({
+  report,
+}: CompressionReportTableProps) {
+  const fallbacks = report.pages.filter((page) => page.fallback !== null)
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4">
+      {fallbacks.length > 0 && (
+        <div className="mb-3 p-3 rounded-lg bg-amber-50 text-sm text-amber-800">
+          <p className="font-medium mb-1">
+            {fallbacks.length} page{fallbacks.length > 1 ? 's were' : ' was'}{' '}
+            kept unchanged:
+          </p>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {fallbacks.map((page) => (
+              <li key={page.pageNumber}>
+                Page {page.pageNumber}: {page.fallback}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="max-h-72 overflow-auto rounded-lg border border-gray-200">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600 sticky top-0">
+            <tr>
+              <th className="text-left font-medium px-3 py-2">Page</th>
+              <th className="text-right font-medium px-3 py-2">Before</th>
+              <th className="text-right font-medium px-3 py-2">After</th>
+              <th className="text-left font-medium px-3 py-2">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.pages.map((page) => (
+              <tr
+                key={page.pageNumber}
+                className={`border-t border-gray-100 ${page.fallback ? 'bg-amber-50' : ''}`}
+              >
+                <td className="px-3 py-1.5">{page.pageNumber}</td>
+                <td className="px-3 py-1.5 text-right">
+                  {page.originalSize === null
+                    ? '-'
+                    : formatFileSize(page.originalSize)}
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  {formatFileSize(page.compressedSize)}
+                </td>
+                <td className="px-3 py-1.5 text-gray-600">
+                  {page.fallback ? 'Kept unchanged' : 'Compressed'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Page sizes are estimates. Fonts and images used on several pages are
+        split between them.
+        {report.peakMemory !== undefined &&
+          ` Pages were written out as they were rendered, holding at most ${formatFileSize(report.peakMemory)} at once.`}
+      </p>
+    </div>
+  )
+}
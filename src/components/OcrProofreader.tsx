@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, SkipForward } from 'lucide-react'
+import type { OcrPageResult, OcrWord, OcrWordPath } from '@/lib/ocr-helper'
+import { Spinner } from '@/components/ui/spinner'
+import { getOcrWords, getWordKey, toPagePoint } from '@/lib/ocr-helper'
+import { cn } from '@/lib/utils'
+
+interface OcrProofreaderProps {
+  pages: Array<OcrPageResult>
+  /** Renders a page as it appears in the document, at any scale */
+  getPageImage: (pageNumber: number) => Promise<HTMLCanvasElement>
+  onCorrect: (pageNumber: number, path: OcrWordPath, text: string) => void
+}
+
+/**
+ * Word box as a polygon in page points, following any rotation applied
+ * during preprocessing
+ */
+function getWordPolygon(page: OcrPageResult, word: OcrWord): string {
+  const { x0, y0, x1, y1 } = word.bbox
+  return [
+    { x: x0, y: y0 },
+    { x: x1, y: y0 },
+    { x: x1, y: y1 },
+    { x: x0, y: y1 },
+  ]
+    .map((corner) => toPagePoint(page, corner))
+    .map((point) => `${point.x},${point.y}`)
+    .join(' ')
+}
+
+function isLowConfidence(word: OcrWord, threshold: number): boolean {
+  return !word.corrected && word.confidence < threshold
+}
+
+export function OcrProofreader({
+  pages,
+  getPageImage,
+  onCorrect,
+}: OcrProofreaderProps) {
+  const [pageIndex, setPageIndex] = useState(0)
+  const [threshold, setThreshold] = useState(70)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [image, setImage] = useState<string | null>(null)
+
+  const wordRefs = useRef(new Map<string, HTMLButtonElement>())
+  const boxRefs = useRef(new Map<string, SVGPolygonElement>())
+
+  const page = pages[Math.min(pageIndex, pages.length - 1)] as
+    | OcrPageResult
+    | undefined
+  const words = useMemo(() => (page ? getOcrWords(page) : []), [page])
+  const selected = words.find((entry) => getWordKey(entry.path) === selectedKey)
+  const lowConfidenceCount = words.filter((entry) =>
+    isLowConfidence(entry.word, threshold),
+  ).length
+
+  const pageNumber = page?.pageNumber
+  useEffect(() => {
+    if (pageNumber === undefined) return
+    let active = true
+    setImage(null)
+    getPageImage(pageNumber)
+      .then((canvas) => {
+        if (active) setImage(canvas.toDataURL('image/jpeg', 0.85))
+      })
+      .catch((err: unknown) => console.error('Page preview failed:', err))
+    return () => {
+      active = false
+    }
+  }, [pageNumber, getPageImage])
+
+  const selectWord = (key: string | null, scrollTarget?: 'word' | 'box') => {
+    setSelectedKey(key)
+    const entry = words.find((item) => getWordKey(item.path) === key)
+    setDraft(entry?.word.text ?? '')
+    if (!key || !scrollTarget) return
+
+    const element =
+      scrollTarget === 'word'
+        ? wordRefs.current.get(key)
+        : boxRefs.current.get(key)
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  const goToPage = (index: number) => {
+    setPageIndex(Math.min(Math.max(index, 0), pages.length - 1))
+    setSelectedKey(null)
+  }
+
+  const selectNextLowConfidence = () => {
+    const start = words.findIndex(
+      (entry) => getWordKey(entry.path) === selectedKey,
+    )
+    const next =
+      words.find(
+        (entry, index) =>
+          index > start && isLowConfidence(entry.word, threshold),
+      ) ??
+      words.find(
+        (entry) =>
+          getWordKey(entry.path) !== selectedKey &&
+          isLowConfidence(entry.word, threshold),
+      )
+    if (next) {
+      const key = getWordKey(next.path)
+      selectWord(key, 'box')
+      wordRefs.current.get(key)?.scrollIntoView({ block: 'nearest' })
+    }
+  }
+
+  const applyCorrection = () => {
+    if (!page || !selected) return
+    onCorrect(page.pageNumber, selected.path, draft)
+    // Removing a word shifts the positions of the words after it
+    if (!draft.trim()) {
+      setSelectedKey(null)
+      return
+    }
+    selectNextLowConfidence()
+  }
+
+  if (!page) return null
+
+  return (
+    <div className="p-6 bg-card rounded-lg shadow-sm border border-border">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Proofread</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => goToPage(pageIndex - 1)}
+            disabled={pageIndex === 0}
+            className="p-1.5 rounded-md border border-border disabled:opacity-50"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="size-4" />
+          </button>
+          <span className="text-sm">
+            Page {page.pageNumber} ({pageIndex + 1} of {pages.length})
+          </span>
+          <button
+            onClick={() => goToPage(pageIndex + 1)}
+            disabled={pageIndex >= pages.length - 1}
+            className="p-1.5 rounded-md border border-border disabled:opacity-50"
+            aria-label="Next page"
+          >
+            <ChevronRight className="size-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Highlight below
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+          />
+          <span className="w-10">{threshold}%</span>
+        </label>
+        <span className="text-muted-foreground">
+          {lowConfidenceCount} low-confidence word
+          {lowConfidenceCount !== 1 ? 's' : ''} on this page
+        </span>
+        <button
+          onClick={selectNextLowConfidence}
+          disabled={lowConfidenceCount === 0}
+          className="flex items-center gap-1 font-medium text-primary disabled:opacity-50"
+        >
+          <SkipForward className="size-4" />
+          Next to review
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Page image with word boxes */}
+        <div className="relative max-h-[700px] overflow-auto rounded-lg border border-border bg-muted">
+          {image ? (
+            <div className="relative">
+              <img
+                src={image}
+                alt={`Page ${page.pageNumber}`}
+                className="block w-full"
+              />
+              <svg
+                viewBox={`0 0 ${page.width} ${page.height}`}
+                className="absolute inset-0 size-full"
+              >
+                {words.map(({ word, path }) => {
+                  const key = getWordKey(path)
+                  const isSelected = key === selectedKey
+                  return (
+                    <polygon
+                      key={key}
+                      ref={(element) => {
+                        if (element) boxRefs.current.set(key, element)
+                        else boxRefs.current.delete(key)
+                      }}
+                      points={getWordPolygon(page, word)}
+                      onClick={() => selectWord(key, 'word')}
+                      className={cn(
+                        'cursor-pointer transition-colors',
+                        isSelected
+                          ? 'fill-primary/30 stroke-primary'
+                          : isLowConfidence(word, threshold)
+                            ? 'fill-amber-400/30 stroke-amber-500'
+                            : 'fill-transparent stroke-transparent hover:stroke-primary/60',
+                      )}
+                      strokeWidth={isSelected ? 1.5 : 0.75}
+                    >
+                      <title>
+                        {word.text} ({Math.round(word.confidence)}%)
+                      </title>
+                    </polygon>
+                  )
+                })}
+              </svg>
+            </div>
+          ) : (
+            <div className="flex h-64 items-center justify-center">
+              <Spinner className="size-6" />
+            </div>
+          )}
+        </div>
+
+        {/* Recognized words */}
+        <div className="flex max-h-[700px] flex-col rounded-lg border border-border">
+          {selected && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                applyCorrection()
+              }}
+              className="flex items-center gap-2 border-b border-border p-3"
+            >
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="flex-1 rounded-md border border-border bg-background px-2 py-1"
+                lang="km"
+              />
+              <span className="text-xs text-muted-foreground">
+                {Math.round(selected.word.confidence)}%
+              </span>
+              <button
+                type="submit"
+                className="rounded-md bg-primary px-3 py-1 text-sm font-medium text-primary-foreground"
+              >
+                Save
+              </button>
+            </form>
+          )}
+          <div className="flex-1 overflow-auto p-3 leading-8">
+            {words.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No text was recognized on this page.
+              </p>
+            )}
+            {words.map(({ word, path }, index) => {
+              const key = getWordKey(path)
+              const previous = words[index - 1] as
+                | (typeof words)[number]
+                | undefined
+              const newLine =
+                previous !== undefined &&
+                (previous.path.line !== path.line ||
+                  previous.path.paragraph !== path.paragraph ||
+                  previous.path.block !== path.block)
+              return (
+                <span key={key}>
+                  {newLine && <br />}
+                  <button
+                    ref={(element) => {
+                      if (element) wordRefs.current.set(key, element)
+                      else wordRefs.current.delete(key)
+                    }}
+                    onClick={() => selectWord(key, 'box')}
+                    title={`${Math.round(word.confidence)}% confidence`}
+                    className={cn(
+                      'mr-1 rounded px-1 transition-colors',
+                      key === selectedKey
+                        ? 'bg-primary text-primary-foreground'
+                        : word.corrected
+                          ? 'bg-emerald-500/15'
+                          : isLowConfidence(word, threshold)
+                            ? 'bg-amber-400/30 hover:bg-amber-400/50'
+                            : 'hover:bg-muted',
+                    )}
+                  >
+                    {word.text}
+                  </button>
+                </span>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
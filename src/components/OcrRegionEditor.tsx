@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import type { OcrRegion } from '@/lib/ocr-helper'
+import { Spinner } from '@/components/ui/spinner'
+import { cn } from '@/lib/utils'
+
+interface OcrRegionEditorProps {
+  regions: Array<OcrRegion>
+  onChange: (regions: Array<OcrRegion>) => void
+  pageCount: number
+  /** Renders a page as it appears in the document, at any scale */
+  getPageImage: (pageNumber: number) => Promise<HTMLCanvasElement>
+  disabled?: boolean
+}
+
+interface Drag {
+  startX: number
+  startY: number
+  x: number
+  y: number
+}
+
+/** Smaller drags are treated as clicks */
+const MIN_REGION_SIZE = 0.01
+
+const createId = () => `${Date.now()}-${Math.random()}`
+
+function toRect(drag: Drag) {
+  return {
+    x: Math.min(drag.startX, drag.x),
+    y: Math.min(drag.startY, drag.y),
+    width: Math.abs(drag.x - drag.startX),
+    height: Math.abs(drag.y - drag.startY),
+  }
+}
+
+/**
+ * Draw zones on a page preview. Regions are stored relative to the page
+ * size and apply to every page that gets recognized.
+ */
+export function OcrRegionEditor({
+  regions,
+  onChange,
+  pageCount,
+  getPageImage,
+  disabled,
+}: OcrRegionEditorProps) {
+  const [pageNumber, setPageNumber] = useState(1)
+  const [image, setImage] = useState<string | null>(null)
+  const [drag, setDrag] = useState<Drag | null>(null)
+  const surfaceRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let active = true
+    setImage(null)
+    getPageImage(pageNumber)
+      .then((canvas) => {
+        if (active) setImage(canvas.toDataURL('image/jpeg', 0.8))
+      })
+      .catch((err: unknown) => console.error('Page preview failed:', err))
+    return () => {
+      active = false
+    }
+  }, [pageNumber, getPageImage])
+
+  const getPosition = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const { x, y } = getPosition(e)
+    setDrag({ startX: x, startY: y, x, y })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    setDrag({ ...drag, ...getPosition(e) })
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    const rect = toRect(drag)
+    setDrag(null)
+    if (rect.width < MIN_REGION_SIZE || rect.height < MIN_REGION_SIZE) return
+
+    onChange([
+      ...regions,
+      { id: createId(), label: `Region ${regions.length + 1}`, ...rect },
+    ])
+  }
+
+  const updateLabel = (id: string, label: string) => {
+    onChange(
+      regions.map((region) =>
+        region.id === id ? { ...region, label } : region,
+      ),
+    )
+  }
+
+  const removeRegion = (id: string) => {
+    onChange(regions.filter((region) => region.id !== id))
+  }
+
+  const draft = drag ? toRect(drag) : null
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[2fr_1fr]">
+      <div>
+        <div className="mb-2 flex items-center gap-2 text-sm">
+          <label htmlFor="region-page" className="font-medium">
+            Draw on page
+          </label>
+          <input
+            id="region-page"
+            type="number"
+            min={1}
+            max={pageCount}
+            value={pageNumber}
+            onChange={(e) =>
+              setPageNumber(
+                Math.min(Math.max(Number(e.target.value) || 1, 1), pageCount),
+              )
+            }
+            className="w-20 rounded-lg border border-border bg-background px-2 py-1"
+          />
+          <span className="text-muted-foreground">of {pageCount}</span>
+        </div>
+        <div className="max-h-[600px] overflow-auto rounded-lg border border-border bg-muted">
+          {image ? (
+            <div
+              ref={surfaceRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className={cn(
+                'relative select-none touch-none',
+                disabled ? 'cursor-not-allowed' : 'cursor-crosshair',
+              )}
+            >
+              <img
+                src={image}
+                alt={`Page ${pageNumber}`}
+                draggable={false}
+                className="block w-full"
+              />
+              {regions.map((region) => (
+                <div
+                  key={region.id}
+                  className="absolute border-2 border-primary bg-primary/10"
+                  style={{
+                    left: `${region.x * 100}%`,
+                    top: `${region.y * 100}%`,
+                    width: `${region.width * 100}%`,
+                    height: `${region.height * 100}%`,
+                  }}
+                >
+                  <span className="absolute -top-5 left-0 whitespace-nowrap rounded bg-primary px-1 text-xs text-primary-foreground">
+                    {region.label}
+                  </span>
+                </div>
+              ))}
+              {draft && (
+                <div
+                  className="absolute border-2 border-dashed border-primary"
+                  style={{
+                    left: `${draft.x * 100}%`,
+                    top: `${draft.y * 100}%`,
+                    width: `${draft.width * 100}%`,
+                    height: `${draft.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="flex h-64 items-center justify-center">
+              <Spinner className="size-6" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-sm font-medium">Regions</p>
+        {regions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Drag on the page to add a region. Without regions the whole page is
+            recognized.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {regions.map((region) => (
+              <li key={region.id} className="flex items-center gap-2">
+                <input
+                  value={region.label}
+                  onChange={(e) => updateLabel(region.id, e.target.value)}
+                  disabled={disabled}
+                  className="flex-1 rounded-lg border border-border bg-background px-2 py-1 text-sm"
+                  aria-label="Region label"
+                />
+                <button
+                  onClick={() => removeRegion(region.id)}
+                  disabled={disabled}
+                  className="p-1.5 text-muted-foreground hover:text-destructive"
+                  title="Remove region"
+                >
+                  <Trash2 className="size-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * Pixel helpers for the color modes. Kept apart from the PDF code, so the
+ * page render worker does not pull in pdf-lib.
+ */
+
+/** `bw` turns images into 1-bit black and white, for scanned text */
+export type ColorMode = 'color' | 'grayscale' | 'bw'
+
+/** Luminance of gray, RGB or RGBA samples, alpha is ignored */
+export function toGray(
+  samples: ArrayLike<number>,
+  channels: number,
+): Uint8Array {
+  const gray = new Uint8Array(Math.floor(samples.length / channels))
+  for (let i = 0, j = 0; i < gray.length; i++, j += channels) {
+    gray[i] =
+      channels < 3
+        ? samples[j]
+        : Math.round(
+            0.299 * samples[j] +
+              0.587 * samples[j + 1] +
+              0.114 * samples[j + 2],
+          )
+  }
+  return gray
+}
+
+/** Otsu's method, the gray level that best separates ink from paper */
+export function getThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of gray) histogram[value]++
+
+  const total = gray.length
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0)
+  let backgroundSum = 0
+  let backgroundCount = 0
+  let best = 128
+  let bestVariance = -1
+
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value]
+    if (backgroundCount === 0) continue
+    const foregroundCount = total - backgroundCount
+    if (foregroundCount === 0) break
+    backgroundSum += value * histogram[value]
+    const backgroundMean = backgroundSum / backgroundCount
+    const foregroundMean = (sum - backgroundSum) / foregroundCount
+    const variance =
+      backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      best = value
+    }
+  }
+  return best
+}
+
+/** 1 bit per pixel, rows padded to whole bytes, 1 being white */
+export function toBitonal(gray: Uint8Array, width: number, height: number) {
+  const threshold = getThreshold(gray)
+  const rowLength = Math.ceil(width / 8)
+  const bits = new Uint8Array(rowLength * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) {
+        bits[y * rowLength + (x >> 3)] |= 0x80 >> (x & 7)
+      }
+    }
+  }
+  return bits
+}
+
+/**
+ * Applies a color mode to rendered pixels in place, for flattened pages
+ */
+export function applyColorMode(imageData: ImageData, colorMode: ColorMode) {
+  if (colorMode === 'color') return
+  const gray = toGray(imageData.data, 4)
+  const threshold = colorMode === 'bw' ? getThreshold(gray) : null
+  const { data } = imageData
+  gray.forEach((value, i) => {
+    const level = threshold === null ? value : value > threshold ? 255 : 0
+    data[i * 4] = level
+    data[i * 4 + 1] = level
+    data[i * 4 + 2] = level
+  })
+}
@@ -1,15 +1,58 @@
-import { PDFDocument } from 'pdf-lib'
-import * as pdfjsLib from 'pdfjs-dist'
-
-// Set up PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `/pdf-js/pdf.worker.mjs`
+import { EncryptedPDFError, PDFDocument } from 'pdf-lib'
+import type { EncodeOptions, EncodedPage } from '@/lib/page-renderer'
+import type { ImageOptimizeSettings } from '@/lib/pdf-optimize'
+import { openPageRenderer, toDataUrl } from '@/lib/page-renderer'
+import { createPdfStreamWriter } from '@/lib/pdf-stream-writer'
+import {
+  compressStreams,
+  deduplicateObjects,
+  getPageSizes,
+  optimizeImages,
+  removeMetadata,
+  removeUnusedObjects,
+} from '@/lib/pdf-optimize'
+import { getErrorMessage } from '@/lib/utils'
 
 export type CompressionMode = 'extreme' | 'normal' | 'less'
 
-interface CompressionSettings {
-  imageQuality: number
+export interface CompressionOptions {
+  /**
+   * Render every page to an image instead. Text, links, form fields and
+   * vector graphics are lost, but scans and heavy drawings get smaller.
+   * This is the only mode that streams pages; the others load the whole
+   * file into pdf-lib.
+   */
+  flatten?: boolean
+  /** Stops compression, the promise rejects with the abort reason */
+  signal?: AbortSignal
+}
+
+export interface PageReport {
+  pageNumber: number
+  /** Estimated bytes before compression, null when it cannot be measured */
+  originalSize: number | null
+  /** Estimated bytes after compression */
+  compressedSize: number
+  /** Why the page was kept unchanged, null when it was compressed */
+  fallback: string | null
+}
+
+export interface CompressionReport {
+  pages: Array<PageReport>
+  /** Most page and output bytes held in memory at once when flattening */
+  peakMemory?: number
+}
+
+export interface CompressedPDF {
+  blob: Blob
+  report: CompressionReport
+}
+
+export interface CompressionSettings extends ImageOptimizeSettings {
+  /** Render scale of flattened pages */
   scale: number
-  format: 'jpeg' | 'png'
+  /** Keep the document information and XMP metadata */
+  keepMetadata: boolean
 }
 
 const compressionSettings: Record<CompressionMode, CompressionSettings> = {
@@ -17,132 +60,398 @@ const compressionSettings: Record<CompressionMode, CompressionSettings> = {
     imageQuality: 0.3,
     scale: 0.5, // Reduce to 50% of original size
     format: 'jpeg',
+    targetDpi: 72,
+    colorMode: 'color',
+    keepMetadata: true,
   },
   normal: {
     imageQuality: 0.6,
     scale: 0.7, // Reduce to 70% of original size
     format: 'jpeg',
+    targetDpi: 150,
+    colorMode: 'color',
+    keepMetadata: true,
   },
   less: {
     imageQuality: 0.85,
     scale: 0.9, // Reduce to 90% of original size
     format: 'jpeg',
+    targetDpi: 220,
+    colorMode: 'color',
+    keepMetadata: true,
   },
 }
 
+/** Pages rendered per request, so at most this many wait to be written */
+const FLATTEN_CHUNK_PAGES = 8
+
 /**
- * Renders a PDF page to a canvas and compresses it
+ * Flattened output kept in memory before it moves into a Blob. Together
+ * with the chunk of pages this caps the memory used by flattening.
  */
-async function renderAndCompressPage(
-  page: pdfjsLib.PDFPageProxy,
-  settings: CompressionSettings,
-): Promise<{ blob: Blob; width: number; height: number }> {
-  const viewport = page.getViewport({ scale: settings.scale })
+export const MAX_BUFFERED_OUTPUT = 16 * 1024 * 1024
 
-  const canvas = document.createElement('canvas')
-  const context = canvas.getContext('2d')
+/** Black and white pages compress far better without JPEG artifacts */
+function getPageImageType(settings: CompressionSettings) {
+  return settings.format === 'png' || settings.colorMode === 'bw'
+    ? 'image/png'
+    : 'image/jpeg'
+}
 
-  if (!context) {
-    throw new Error('Failed to get canvas context')
+function buildReport(
+  originalSizes: Array<number | null>,
+  compressedSizes: Array<number>,
+  fallbacks: Map<number, string>,
+): CompressionReport {
+  return {
+    pages: compressedSizes.map((compressedSize, index) => ({
+      pageNumber: index + 1,
+      originalSize: originalSizes[index] ?? null,
+      compressedSize,
+      fallback: fallbacks.get(index + 1) ?? null,
+    })),
   }
+}
 
-  canvas.width = viewport.width
-  canvas.height = viewport.height
-
-  await page.render({
-    canvasContext: context,
-    viewport: viewport,
-    canvas: canvas,
-  }).promise
-
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (!blob) {
-          reject(new Error('Failed to create blob from canvas'))
-          return
-        }
-        resolve({
-          blob,
-          width: viewport.width,
-          height: viewport.height,
-        })
-      },
-      settings.format === 'jpeg' ? 'image/jpeg' : 'image/png',
-      settings.imageQuality,
-    )
-  })
+/** The original with pdf-lib, null when pdf-lib cannot read it */
+async function loadOriginal(file: Blob): Promise<PDFDocument | null> {
+  try {
+    return await PDFDocument.load(await file.arrayBuffer(), {
+      ignoreEncryption: true,
+      updateMetadata: false,
+    })
+  } catch (error) {
+    console.warn('Could not load the original:', error)
+    return null
+  }
 }
 
 /**
- * Main compression function that renders each page as an image and recreates the PDF
+ * Renders each page as an image and recreates the PDF from them. Pages that
+ * fail to render are copied from the original unchanged. Pages are rendered
+ * in chunks and written out as they come, so large files do not have to fit
+ * in memory.
  */
-export async function compressPDF(
-  pdfFile: File,
-  mode: CompressionMode = 'normal',
+async function flattenPDF(
+  file: Blob,
+  settings: CompressionSettings,
   onProgress?: (current: number, total: number) => void,
-): Promise<Uint8Array> {
-  const settings = compressionSettings[mode]
+  signal?: AbortSignal,
+): Promise<CompressedPDF> {
+  // A worker renders and encodes the pages, reading the file in ranges
+  const renderer = await openPageRenderer(file)
+  const writer = createPdfStreamWriter(MAX_BUFFERED_OUTPUT)
+  const imageType = getPageImageType(settings)
+  const fallbacks = new Map<number, string>()
+  const originalSizes: Array<number | null> = []
+  const compressedSizes: Array<number> = []
+  let peakMemory = 0
 
-  // Load the PDF with PDF.js
-  const arrayBuffer = await pdfFile.arrayBuffer()
-  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer })
-  const pdfDocument = await loadingTask.promise
+  // Only loaded, as a whole, to copy pages that fail
+  let original: Promise<PDFDocument | null> | null = null
 
-  // Create a new PDF document
-  const newPdfDoc = await PDFDocument.create()
+  const addImagePage = async ({ bytes, width, height }: EncodedPage) => {
+    const pageDoc = await writer.createPageDocument()
+    const image =
+      imageType === 'image/jpeg'
+        ? await pageDoc.embedJpg(bytes)
+        : await pageDoc.embedPng(bytes)
 
-  const totalPages = pdfDocument.numPages
-
-  // Process each page
-  for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-    try {
-      // Get the page
-      const page = await pdfDocument.getPage(pageNum)
+    // Add a page with the same dimensions as the image and fill it
+    const page = pageDoc.addPage([width, height])
+    page.drawImage(image, { x: 0, y: 0, width, height })
+    return writer.writePage(pageDoc, page)
+  }
 
-      // Render and compress the page
-      const { blob, width, height } = await renderAndCompressPage(
-        page,
-        settings,
+  const copyOriginalPage = async (pageNumber: number, reason: string) => {
+    original ??= loadOriginal(file)
+    const originalDoc = await original
+    // Copies of encrypted pages would be unreadable
+    if (!originalDoc || originalDoc.isEncrypted) {
+      throw new Error(
+        `Page ${pageNumber} could not be compressed (${reason}) and cannot be copied unchanged`,
       )
+    }
+    const pageDoc = await writer.createPageDocument()
+    const [page] = await pageDoc.copyPages(originalDoc, [pageNumber - 1])
+    pageDoc.addPage(page)
+    return writer.writePage(pageDoc, page)
+  }
+
+  const totalPages = renderer.pageCount
+  const encodeOptions: EncodeOptions = {
+    scale: settings.scale,
+    colorMode: settings.colorMode,
+    type: imageType,
+    quality: settings.imageQuality,
+  }
 
-      // Convert blob to array buffer
-      const imageArrayBuffer = await blob.arrayBuffer()
-      const imageBytes = new Uint8Array(imageArrayBuffer)
+  try {
+    for (let first = 1; first <= totalPages; first += FLATTEN_CHUNK_PAGES) {
+      const pageNumbers = Array.from(
+        { length: Math.min(FLATTEN_CHUNK_PAGES, totalPages - first + 1) },
+        (_, i) => first + i,
+      )
 
-      // Embed the image in the new PDF
-      let image
-      if (settings.format === 'jpeg') {
-        image = await newPdfDoc.embedJpg(imageBytes)
-      } else {
-        image = await newPdfDoc.embedPng(imageBytes)
+      for await (const result of renderer.encodePages(
+        pageNumbers,
+        encodeOptions,
+        signal,
+      )) {
+        const { pageNumber } = result
+        try {
+          if (!result.image) throw new Error(result.error)
+          // Pages already written are counted in the buffered output
+          peakMemory = Math.max(
+            peakMemory,
+            writer.bufferedBytes() + result.image.bytes.length,
+          )
+          compressedSizes.push(await addImagePage(result.image))
+          originalSizes.push(result.image.sourceBytes)
+        } catch (error) {
+          console.error(`Error processing page ${pageNumber}:`, error)
+          const reason = getErrorMessage(error)
+          compressedSizes.push(await copyOriginalPage(pageNumber, reason))
+          originalSizes.push(null)
+          fallbacks.set(pageNumber, `Rendering failed: ${reason}`)
+        }
+        onProgress?.(pageNumber, totalPages)
       }
+    }
+  } finally {
+    renderer.destroy()
+  }
+
+  return {
+    blob: writer.finish(),
+    report: {
+      ...buildReport(originalSizes, compressedSizes, fallbacks),
+      peakMemory: Math.max(peakMemory, writer.peakBufferedBytes()),
+    },
+  }
+}
 
-      // Add a new page with the same dimensions as the compressed image
-      const newPage = newPdfDoc.addPage([width, height])
-
-      // Draw the image to fill the entire page
-      newPage.drawImage(image, {
-        x: 0,
-        y: 0,
-        width: width,
-        height: height,
-      })
-
-      onProgress?.(pageNum, totalPages)
-    } catch (error) {
-      console.error(`Error processing page ${pageNum}:`, error)
-      // Continue with other pages even if one fails
+/**
+ * Main compression function. Page content is kept as it is, only embedded
+ * images are downsampled and recompressed, duplicate and unused objects are
+ * dropped and everything is written to compressed object streams, which
+ * needs the whole document in memory. With `flatten`, pages are rasterized
+ * and streamed instead, see flattenPDF.
+ */
+export async function compressPDF(
+  pdfFile: File,
+  mode: CompressionMode | CompressionSettings = 'normal',
+  onProgress?: (current: number, total: number) => void,
+  options: CompressionOptions = {},
+): Promise<CompressedPDF> {
+  return compressWithSettings(
+    pdfFile,
+    typeof mode === 'string' ? compressionSettings[mode] : mode,
+    onProgress,
+    options,
+  )
+}
+
+/**
+ * Settings of a built-in mode, as a starting point for custom profiles
+ */
+export function getCompressionSettings(
+  mode: CompressionMode,
+): CompressionSettings {
+  return { ...compressionSettings[mode] }
+}
+
+async function compressWithSettings(
+  file: Blob,
+  settings: CompressionSettings,
+  onProgress: ((current: number, total: number) => void) | undefined,
+  options: CompressionOptions,
+): Promise<CompressedPDF> {
+  options.signal?.throwIfAborted()
+  if (options.flatten) {
+    return flattenPDF(file, settings, onProgress, options.signal)
+  }
+
+  let pdfDoc: PDFDocument
+  try {
+    pdfDoc = await PDFDocument.load(await file.arrayBuffer(), {
+      updateMetadata: false,
+    })
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new Error(
+        'This PDF is encrypted and can only be compressed by flattening it',
+      )
     }
+    throw error
   }
 
-  // Save the new PDF
-  const compressedBytes = await newPdfDoc.save({
+  const originalSizes = getPageSizes(pdfDoc)
+
+  // Images take nearly all the time, saving counts as the last step. The
+  // signal is checked between images.
+  const skippedPages = await optimizeImages(
+    pdfDoc,
+    settings,
+    (current, total) => {
+      options.signal?.throwIfAborted()
+      onProgress?.(current, total + 1)
+    },
+  )
+  if (!settings.keepMetadata) removeMetadata(pdfDoc)
+  deduplicateObjects(pdfDoc)
+  compressStreams(pdfDoc)
+  removeUnusedObjects(pdfDoc)
+  const compressedSizes = getPageSizes(pdfDoc)
+
+  const compressedBytes = await pdfDoc.save({
     useObjectStreams: true,
     addDefaultPage: false,
+    updateFieldAppearances: false,
   })
+  onProgress?.(1, 1)
+
+  return {
+    // pdf-lib saves into a buffer of its own
+    blob: new Blob([compressedBytes as Uint8Array<ArrayBuffer>], {
+      type: 'application/pdf',
+    }),
+    report: buildReport(
+      originalSizes,
+      compressedSizes,
+      new Map(skippedPages.map((page) => [page.pageNumber, page.reason])),
+    ),
+  }
+}
+
+export interface TargetSizeResult extends CompressedPDF {
+  /** The lightest settings that reached the target, or the strongest tried */
+  settings: CompressionSettings
+  /** False when even the strongest settings stay above the target */
+  fits: boolean
+  attempts: number
+}
+
+/**
+ * Settings tried by target-size compression, from lightest to strongest.
+ * Image resolution and quality drop together, and so does the page scale
+ * when flattening.
+ */
+const stepDefaults = {
+  format: 'jpeg',
+  colorMode: 'color',
+  keepMetadata: true,
+} as const
+
+const targetSizeSteps: Array<CompressionSettings> = [
+  { ...stepDefaults, imageQuality: 0.85, scale: 1, targetDpi: 300 },
+  { ...stepDefaults, imageQuality: 0.85, scale: 0.9, targetDpi: 220 },
+  { ...stepDefaults, imageQuality: 0.7, scale: 0.8, targetDpi: 150 },
+  { ...stepDefaults, imageQuality: 0.6, scale: 0.7, targetDpi: 150 },
+  { ...stepDefaults, imageQuality: 0.5, scale: 0.6, targetDpi: 120 },
+  { ...stepDefaults, imageQuality: 0.4, scale: 0.5, targetDpi: 96 },
+  { ...stepDefaults, imageQuality: 0.3, scale: 0.5, targetDpi: 72 },
+  { ...stepDefaults, imageQuality: 0.2, scale: 0.4, targetDpi: 60 },
+  { ...stepDefaults, imageQuality: 0.15, scale: 0.3, targetDpi: 50 },
+]
+
+/**
+ * Compresses with the lightest settings whose output fits in `targetSize`
+ * bytes. Output size shrinks with every step, so the steps are bisected
+ * instead of tried one by one. When nothing fits, the smallest output is
+ * returned.
+ */
+export async function compressToTargetSize(
+  pdfFile: File,
+  targetSize: number,
+  onProgress?: (current: number, total: number) => void,
+  options: CompressionOptions = {},
+): Promise<TargetSizeResult> {
+  const maxAttempts = Math.ceil(Math.log2(targetSizeSteps.length + 1))
 
-  return compressedBytes
+  let fitting: TargetSizeResult | null = null
+  let smallest: TargetSizeResult | null = null
+  let attempts = 0
+  let low = 0
+  let high = targetSizeSteps.length - 1
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2)
+    const settings = targetSizeSteps[middle]
+    const attempt = attempts++
+    const { blob, report } = await compressWithSettings(
+      pdfFile,
+      settings,
+      (current, total) => onProgress?.(attempt + current / total, maxAttempts),
+      options,
+    )
+    const result = {
+      blob,
+      report,
+      settings,
+      fits: blob.size <= targetSize,
+      attempts,
+    }
+
+    if (!smallest || blob.size < smallest.blob.size) smallest = result
+    if (result.fits) {
+      fitting = result
+      high = middle - 1
+    } else {
+      low = middle + 1
+    }
+  }
+
+  onProgress?.(maxAttempts, maxAttempts)
+  const best = fitting ?? smallest!
+  return { ...best, attempts }
+}
+
+/**
+ * Describes compression settings for people
+ */
+export function describeCompressionSettings(
+  settings: CompressionSettings,
+  options: CompressionOptions = {},
+): string {
+  const parts = [
+    options.flatten
+      ? `Pages flattened at ${Math.round(settings.scale * 100)}% scale`
+      : `Images up to ${settings.targetDpi} DPI`,
+    settings.format === 'png'
+      ? 'lossless'
+      : `${Math.round(settings.imageQuality * 100)}% JPEG quality`,
+  ]
+  if (settings.format === 'to-jpeg') parts.push('all images as JPEG')
+  if (settings.colorMode === 'grayscale') parts.push('grayscale')
+  if (settings.colorMode === 'bw') parts.push('black and white')
+  if (!settings.keepMetadata) parts.push('metadata removed')
+  return parts.join(', ')
+}
+
+/**
+ * Renders one page of a PDF as an image, for comparing quality before and
+ * after compression
+ */
+export async function renderPagePreview(
+  data: Blob,
+  pageNumber: number,
+  scale = 1.5,
+): Promise<{ image: string; pageCount: number }> {
+  const renderer = await openPageRenderer(data)
+
+  try {
+    const { bytes } = await renderer.encodePage(
+      Math.min(Math.max(pageNumber, 1), renderer.pageCount),
+      { scale, type: 'image/png' },
+    )
+    return {
+      image: await toDataUrl(bytes, 'image/png'),
+      pageCount: renderer.pageCount,
+    }
+  } finally {
+    renderer.destroy()
+  }
 }
 
 /**
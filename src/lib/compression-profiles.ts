@@ -0,0 +1,52 @@
+import type { CompressionSettings } from '@/lib/compress-helper'
+import { getCompressionSettings } from '@/lib/compress-helper'
+
+const STORAGE_KEY = 'khmer-pdf:compression-profiles'
+
+/**
+ * Compression settings saved under a name, kept in local storage
+ */
+export interface CompressionProfile {
+  id: string
+  name: string
+  settings: CompressionSettings
+}
+
+function isProfile(value: unknown): value is CompressionProfile {
+  if (typeof value !== 'object' || value === null) return false
+  const profile = value as Partial<CompressionProfile>
+  return (
+    typeof profile.id === 'string' &&
+    typeof profile.name === 'string' &&
+    typeof profile.settings === 'object'
+  )
+}
+
+export function loadCompressionProfiles(): Array<CompressionProfile> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const parsed: unknown = JSON.parse(stored)
+    if (!Array.isArray(parsed)) return []
+
+    // Settings added later fall back to the normal mode's
+    return parsed.filter(isProfile).map((profile) => ({
+      ...profile,
+      settings: { ...getCompressionSettings('normal'), ...profile.settings },
+    }))
+  } catch (error) {
+    console.warn('Could not read compression profiles:', error)
+    return []
+  }
+}
+
+export function saveCompressionProfiles(
+  profiles: Array<CompressionProfile>,
+): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  } catch (error) {
+    // Storage can be full or disabled, profiles then last for the session
+    console.warn('Could not save compression profiles:', error)
+  }
+}
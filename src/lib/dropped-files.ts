@@ -0,0 +1,45 @@
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function readDirectoryEntry(
+  entry: FileSystemDirectoryEntry,
+): Promise<Array<FileSystemEntry>> {
+  const reader = entry.createReader()
+  const entries: Array<FileSystemEntry> = []
+  // Entries arrive in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<Array<FileSystemEntry>>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    )
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<Array<File>> {
+  if (entry.isFile) return [await readFileEntry(entry as FileSystemFileEntry)]
+  if (!entry.isDirectory) return []
+
+  const children = await readDirectoryEntry(entry as FileSystemDirectoryEntry)
+  const files = await Promise.all(children.map(readEntry))
+  return files.flat()
+}
+
+/**
+ * Files of a drop event, including the contents of dropped folders. Must be
+ * called before the first `await` of the drop handler, the data transfer is
+ * emptied afterwards.
+ */
+export function getDroppedFiles(
+  dataTransfer: DataTransfer,
+): Promise<Array<File>> {
+  const entries = Array.from(dataTransfer.items, (item) =>
+    item.webkitGetAsEntry(),
+  ).filter((entry) => entry !== null)
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files))
+  }
+
+  return Promise.all(entries.map(readEntry)).then((files) => files.flat())
+}
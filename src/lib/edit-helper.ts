@@ -0,0 +1,298 @@
+import { LineCapStyle, PDFDocument, degrees, rgb } from 'pdf-lib'
+import type { PDFPage } from 'pdf-lib'
+import type { KhmerFontName, KhmerTextRenderer } from '@/lib/khmer-text'
+import type { Point } from '@/lib/pdf-page-geometry'
+import { createKhmerTextRenderer } from '@/lib/khmer-text'
+import { getPageRotation, toPdfPoint } from '@/lib/pdf-page-geometry'
+
+export type EditTool =
+  | 'select'
+  | 'text'
+  | 'image'
+  | 'rectangle'
+  | 'ellipse'
+  | 'line'
+  | 'freehand'
+
+export type { Point }
+
+/**
+ * All annotation coordinates are in page viewport units at scale 1, measured
+ * from the top-left corner of the page as it is displayed (page rotation
+ * already applied). They are converted to PDF user space when saving.
+ */
+interface AnnotationBase {
+  id: string
+  pageIndex: number
+  color: string
+  opacity: number
+}
+
+export interface TextAnnotation extends AnnotationBase {
+  type: 'text'
+  x: number
+  y: number
+  text: string
+  font: KhmerFontName
+  fontSize: number
+}
+
+export interface ImageAnnotation extends AnnotationBase {
+  type: 'image'
+  x: number
+  y: number
+  width: number
+  height: number
+  bytes: Uint8Array
+  mimeType: 'image/png' | 'image/jpeg'
+  dataUrl: string
+}
+
+export interface ShapeAnnotation extends AnnotationBase {
+  type: 'rectangle' | 'ellipse'
+  x: number
+  y: number
+  width: number
+  height: number
+  strokeWidth: number
+  filled: boolean
+}
+
+export interface LineAnnotation extends AnnotationBase {
+  type: 'line'
+  start: Point
+  end: Point
+  strokeWidth: number
+}
+
+export interface FreehandAnnotation extends AnnotationBase {
+  type: 'freehand'
+  points: Array<Point>
+  strokeWidth: number
+}
+
+export type Annotation =
+  | TextAnnotation
+  | ImageAnnotation
+  | ShapeAnnotation
+  | LineAnnotation
+  | FreehandAnnotation
+
+export const TEXT_LINE_HEIGHT = 1.2
+
+/**
+ * Baseline offset of the given text line, relative to the annotation's top
+ */
+export function getTextBaseline(fontSize: number, lineIndex: number): number {
+  return fontSize * (1 + lineIndex * TEXT_LINE_HEIGHT)
+}
+
+/**
+ * Returns a copy of the annotation translated by (dx, dy)
+ */
+export function moveAnnotation(
+  annotation: Annotation,
+  dx: number,
+  dy: number,
+): Annotation {
+  switch (annotation.type) {
+    case 'line':
+      return {
+        ...annotation,
+        start: { x: annotation.start.x + dx, y: annotation.start.y + dy },
+        end: { x: annotation.end.x + dx, y: annotation.end.y + dy },
+      }
+    case 'freehand':
+      return {
+        ...annotation,
+        points: annotation.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+      }
+    default:
+      return { ...annotation, x: annotation.x + dx, y: annotation.y + dy }
+  }
+}
+
+/**
+ * Normalizes a drag from `start` to `end` into a rectangle with positive size
+ */
+export function rectFromPoints(start: Point, end: Point) {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+/**
+ * Convert a "#rrggbb" color string to a pdf-lib color
+ */
+export function hexToRgb(hex: string) {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return rgb(
+    ((value >> 16) & 0xff) / 255,
+    ((value >> 8) & 0xff) / 255,
+    (value & 0xff) / 255,
+  )
+}
+
+function drawTextAnnotation(
+  page: PDFPage,
+  annotation: TextAnnotation,
+  textRenderer: KhmerTextRenderer,
+) {
+  const lines = annotation.text.split('\n')
+  lines.forEach((line, index) => {
+    if (!line) return
+    const origin = toPdfPoint(page, {
+      x: annotation.x,
+      y: annotation.y + getTextBaseline(annotation.fontSize, index),
+    })
+    textRenderer.drawText(page, line, {
+      x: origin.x,
+      y: origin.y,
+      font: annotation.font,
+      size: annotation.fontSize,
+      color: hexToRgb(annotation.color),
+      opacity: annotation.opacity,
+      rotate: getPageRotation(page),
+    })
+  })
+}
+
+async function drawImageAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  annotation: ImageAnnotation,
+) {
+  const image =
+    annotation.mimeType === 'image/png'
+      ? await pdfDoc.embedPng(annotation.bytes)
+      : await pdfDoc.embedJpg(annotation.bytes)
+
+  const origin = toPdfPoint(page, {
+    x: annotation.x,
+    y: annotation.y + annotation.height,
+  })
+  page.drawImage(image, {
+    x: origin.x,
+    y: origin.y,
+    width: annotation.width,
+    height: annotation.height,
+    opacity: annotation.opacity,
+    rotate: degrees(getPageRotation(page)),
+  })
+}
+
+function drawShapeAnnotation(page: PDFPage, annotation: ShapeAnnotation) {
+  const color = hexToRgb(annotation.color)
+  const rotation = getPageRotation(page)
+
+  if (annotation.type === 'rectangle') {
+    const origin = toPdfPoint(page, {
+      x: annotation.x,
+      y: annotation.y + annotation.height,
+    })
+    page.drawRectangle({
+      x: origin.x,
+      y: origin.y,
+      width: annotation.width,
+      height: annotation.height,
+      rotate: degrees(rotation),
+      borderColor: color,
+      borderWidth: annotation.strokeWidth,
+      borderOpacity: annotation.opacity,
+      color: annotation.filled ? color : undefined,
+      opacity: annotation.opacity,
+    })
+    return
+  }
+
+  const center = toPdfPoint(page, {
+    x: annotation.x + annotation.width / 2,
+    y: annotation.y + annotation.height / 2,
+  })
+  const isSideways = rotation === 90 || rotation === 270
+  page.drawEllipse({
+    x: center.x,
+    y: center.y,
+    xScale: (isSideways ? annotation.height : annotation.width) / 2,
+    yScale: (isSideways ? annotation.width : annotation.height) / 2,
+    borderColor: color,
+    borderWidth: annotation.strokeWidth,
+    borderOpacity: annotation.opacity,
+    color: annotation.filled ? color : undefined,
+    opacity: annotation.opacity,
+  })
+}
+
+function drawPathAnnotation(
+  page: PDFPage,
+  annotation: LineAnnotation | FreehandAnnotation,
+) {
+  const points =
+    annotation.type === 'line'
+      ? [annotation.start, annotation.end]
+      : annotation.points
+  if (points.length < 2) return
+
+  const pdfPoints = points.map((p) => toPdfPoint(page, p))
+  // drawSvgPath flips the y axis, so the path is expressed with negated y
+  // values relative to an origin at (0, 0)
+  const path = pdfPoints
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${-p.y}`)
+    .join(' ')
+
+  page.drawSvgPath(path, {
+    x: 0,
+    y: 0,
+    borderColor: hexToRgb(annotation.color),
+    borderWidth: annotation.strokeWidth,
+    borderOpacity: annotation.opacity,
+    borderLineCap: LineCapStyle.Round,
+  })
+}
+
+/**
+ * Writes the annotations into the document and returns the saved bytes
+ */
+export async function applyAnnotations(
+  pdfBytes: ArrayBuffer,
+  annotations: Array<Annotation>,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes)
+  const pages = pdfDoc.getPages()
+  const textFonts = annotations.flatMap((annotation) =>
+    annotation.type === 'text' ? [annotation.font] : [],
+  )
+  const textRenderer =
+    textFonts.length > 0
+      ? await createKhmerTextRenderer(pdfDoc, textFonts)
+      : null
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.pageIndex] as PDFPage | undefined
+    if (!page) continue
+
+    switch (annotation.type) {
+      case 'text':
+        if (textRenderer) {
+          drawTextAnnotation(page, annotation, textRenderer)
+        }
+        break
+      case 'image':
+        await drawImageAnnotation(pdfDoc, page, annotation)
+        break
+      case 'rectangle':
+      case 'ellipse':
+        drawShapeAnnotation(page, annotation)
+        break
+      case 'line':
+      case 'freehand':
+        drawPathAnnotation(page, annotation)
+        break
+    }
+  }
+
+  return await pdfDoc.save()
+}
@@ -0,0 +1,118 @@
+const DB_NAME = 'khmer-pdf'
+const DB_VERSION = 3
+
+/** Object stores of the app database, keyed by string */
+export type StoreName = 'ocr-checkpoints'
+
+const stores: Array<StoreName> = ['ocr-checkpoints']
+
+/** Stores of earlier versions, deleted on upgrade */
+const removedStores = ['traineddata']
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        // Traineddata is cached by Tesseract itself now
+        for (const store of removedStores) {
+          if (request.result.objectStoreNames.contains(store)) {
+            request.result.deleteObjectStore(store)
+          }
+        }
+        for (const store of stores) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry after a failed open, e.g. in private browsing
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+/** All keys starting with `prefix` */
+function prefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  const store = db.transaction(storeName, mode).objectStore(storeName)
+  return requestToPromise(run(store))
+}
+
+export async function idbGet<T>(
+  storeName: StoreName,
+  key: string,
+): Promise<T | undefined> {
+  return withStore(
+    storeName,
+    'readonly',
+    (store) => store.get(key) as IDBRequest<T | undefined>,
+  )
+}
+
+export async function idbSet(
+  storeName: StoreName,
+  key: string,
+  value: unknown,
+): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value, key))
+}
+
+export async function idbDelete(
+  storeName: StoreName,
+  key: string,
+): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key))
+}
+
+export async function idbKeys(
+  storeName: StoreName,
+  prefix?: string,
+): Promise<Array<string>> {
+  const keys = await withStore(storeName, 'readonly', (store) =>
+    store.getAllKeys(prefix === undefined ? undefined : prefixRange(prefix)),
+  )
+  return keys.map(String)
+}
+
+export async function idbGetAll<T>(
+  storeName: StoreName,
+  prefix: string,
+): Promise<Array<T>> {
+  return withStore(
+    storeName,
+    'readonly',
+    (store) => store.getAll(prefixRange(prefix)) as IDBRequest<Array<T>>,
+  )
+}
+
+export async function idbDeleteAll(
+  storeName: StoreName,
+  prefix: string,
+): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) =>
+    store.delete(prefixRange(prefix)),
+  )
+}
@@ -0,0 +1,205 @@
+import {
+  PDFDocument,
+  clip,
+  concatTransformationMatrix,
+  drawObject,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+} from 'pdf-lib'
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+
+/**
+ * `fit` shows the whole image inside the margins, `fill` covers the area
+ * inside them and crops what sticks out
+ */
+export type ImageFit = 'fit' | 'fill'
+
+export interface ImagePageOptions {
+  fit: ImageFit
+  /** Space around the image, in points */
+  margin: number
+}
+
+/** Types embedded as they are, others are converted to PNG first */
+const EMBEDDED_TYPES = new Set(['image/jpeg', 'image/png'])
+
+/** Types browsers decode, which can be converted */
+export const IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/bmp',
+]
+
+type Matrix = [number, number, number, number, number, number]
+
+/**
+ * The EXIF orientation of a JPEG, 1 when there is none. Browsers show photos
+ * turned the way it says, PDF viewers ignore it.
+ */
+function getJpegOrientation(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    // APP1 holding `Exif\0\0`, followed by a TIFF header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      if (tiff + 8 > view.byteLength) return 1
+      const littleEndian = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+      if (ifd + 2 > view.byteLength) return 1
+      const count = view.getUint16(ifd, littleEndian)
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 12 > view.byteLength) return 1
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian)
+          return orientation >= 1 && orientation <= 8 ? orientation : 1
+        }
+      }
+      return 1
+    }
+    // Image data starts, no metadata follows
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1
+    offset += 2 + length
+  }
+  return 1
+}
+
+/**
+ * Maps the image's unit square onto a box of the page, turning it the way
+ * the EXIF orientation says. The first image row is at the top of the square.
+ */
+function getImageMatrix(
+  orientation: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): Matrix {
+  switch (orientation) {
+    case 2:
+      return [-width, 0, 0, height, x + width, y]
+    case 3:
+      return [-width, 0, 0, -height, x + width, y + height]
+    case 4:
+      return [width, 0, 0, -height, x, y + height]
+    case 5:
+      return [0, -height, -width, 0, x + width, y + height]
+    case 6:
+      return [0, -height, width, 0, x, y + height]
+    case 7:
+      return [0, height, width, 0, x, y]
+    case 8:
+      return [0, height, -width, 0, x + width, y]
+    default:
+      return [width, 0, 0, height, x, y]
+  }
+}
+
+async function toPng(file: Blob): Promise<Uint8Array> {
+  const bitmap = await createImageBitmap(file)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const png = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/png'),
+  )
+  if (!png) throw new Error('The image could not be converted')
+  return new Uint8Array(await png.arrayBuffer())
+}
+
+/**
+ * A one page A4 document showing the image, in portrait or landscape as the
+ * image is. JPEGs and PNGs are embedded without re-encoding.
+ */
+export async function createImagePdf(
+  file: Blob,
+  options: ImagePageOptions,
+): Promise<PDFDocument> {
+  const pdfDoc = await PDFDocument.create()
+  const bytes = EMBEDDED_TYPES.has(file.type)
+    ? new Uint8Array(await file.arrayBuffer())
+    : await toPng(file)
+  const image =
+    file.type === 'image/jpeg'
+      ? await pdfDoc.embedJpg(bytes)
+      : await pdfDoc.embedPng(bytes)
+
+  // Orientations 5 to 8 swap width and height
+  const orientation = file.type === 'image/jpeg' ? getJpegOrientation(bytes) : 1
+  const isTurned = orientation >= 5
+  const imageWidth = isTurned ? image.height : image.width
+  const imageHeight = isTurned ? image.width : image.height
+
+  const isLandscape = imageWidth > imageHeight
+  const pageWidth = isLandscape ? PAGE_HEIGHT : PAGE_WIDTH
+  const pageHeight = isLandscape ? PAGE_WIDTH : PAGE_HEIGHT
+  const page = pdfDoc.addPage([pageWidth, pageHeight])
+
+  const margin = Math.min(
+    Math.max(options.margin, 0),
+    pageWidth / 2 - 1,
+    pageHeight / 2 - 1,
+  )
+  const boxWidth = pageWidth - margin * 2
+  const boxHeight = pageHeight - margin * 2
+  const scale = (options.fit === 'fill' ? Math.max : Math.min)(
+    boxWidth / imageWidth,
+    boxHeight / imageHeight,
+  )
+  const width = imageWidth * scale
+  const height = imageHeight * scale
+  const x = margin + (boxWidth - width) / 2
+  const y = margin + (boxHeight - height) / 2
+
+  const name = page.node.newXObject('Image', image.ref)
+  page.pushOperators(
+    pushGraphicsState(),
+    // Only a filled image can reach past the margins
+    ...(options.fit === 'fill'
+      ? [rectangle(margin, margin, boxWidth, boxHeight), clip(), endPath()]
+      : []),
+    concatTransformationMatrix(
+      ...getImageMatrix(orientation, x, y, width, height),
+    ),
+    drawObject(name),
+    popGraphicsState(),
+  )
+
+  return pdfDoc
+}
+
+/** A small JPEG of the image as a data URL, turned the way it is shown */
+export async function createImageThumbnail(
+  file: Blob,
+  width: number,
+): Promise<string> {
+  const bitmap = await createImageBitmap(file, {
+    resizeWidth: width,
+    resizeQuality: 'medium',
+  })
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const context = canvas.getContext('2d')
+  if (context) {
+    // Transparent areas are shown on white, as on the page
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(bitmap, 0, 0)
+  }
+  bitmap.close()
+  return canvas.toDataURL('image/jpeg', 0.7)
+}
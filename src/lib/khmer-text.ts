@@ -0,0 +1,477 @@
+import * as fontkit from 'fontkit'
+import {
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFOperator,
+  PDFOperatorNames,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setFillingColor,
+  setFontAndSize,
+  setGraphicsState,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+} from 'pdf-lib'
+import type { Color, PDFDocument, PDFFont, PDFPage } from 'pdf-lib'
+
+export type KhmerFontName = 'Khmer' | 'Moul' | 'Taprom'
+
+export const khmerFonts: Array<{ name: KhmerFontName; label: string }> = [
+  { name: 'Khmer', label: 'Khmer (body text)' },
+  { name: 'Moul', label: 'Moul (headings)' },
+  { name: 'Taprom', label: 'Taprom (decorative)' },
+]
+
+const fontUrls: Record<KhmerFontName, string> = {
+  Khmer: '/fonts/Khmer-Regular.ttf',
+  Moul: '/fonts/Moul-Regular.ttf',
+  Taprom: '/fonts/Taprom-Regular.ttf',
+}
+
+export interface TextStyle {
+  font: KhmerFontName
+  size: number
+}
+
+export interface DrawTextOptions extends TextStyle {
+  /** Position of the start of the baseline, in PDF user space */
+  x: number
+  y: number
+  color?: Color
+  opacity?: number
+  /** Counterclockwise rotation around (x, y), in degrees */
+  rotate?: number
+  /** Use TextRenderingMode.Invisible for OCR text layers */
+  renderMode?: TextRenderingMode
+  /** Stretch or squeeze the text to exactly this width, e.g. an OCR word box */
+  width?: number
+}
+
+export interface KhmerTextRenderer {
+  /** Width of the shaped text in PDF units */
+  measureText: (text: string, style: TextStyle) => number
+  /** Height of one line of text (ascent + descent) in PDF units */
+  getLineHeight: (style: TextStyle) => number
+  /** Distance from the top of a line to its baseline in PDF units */
+  getAscent: (style: TextStyle) => number
+  /** Break text into lines no wider than `maxWidth` */
+  wrapText: (text: string, style: TextStyle, maxWidth: number) => Array<string>
+  drawText: (page: PDFPage, text: string, options: DrawTextOptions) => void
+}
+
+interface LoadedFont {
+  pdfFont: PDFFont
+  shaper: fontkit.Font
+}
+
+interface TextRun {
+  text: string
+  /** Runs the Khmer font has no glyphs for are drawn with the fallback font */
+  isFallback: boolean
+}
+
+interface PositionedGlyph {
+  code: string
+  x: number
+  y: number
+}
+
+const fontBytesCache = new Map<KhmerFontName, Promise<Uint8Array>>()
+const fontKeyCache = new WeakMap<PDFPage, Map<PDFFont, PDFName>>()
+
+/**
+ * Fetch the bytes of a bundled font, sharing the request between documents
+ */
+export function loadFontBytes(name: KhmerFontName): Promise<Uint8Array> {
+  let bytes = fontBytesCache.get(name)
+  if (!bytes) {
+    bytes = fetch(fontUrls[name]).then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load font ${name}: ${response.status}`)
+      }
+      return new Uint8Array(await response.arrayBuffer())
+    })
+    // Allow retrying after a failed request
+    bytes.catch(() => fontBytesCache.delete(name))
+    fontBytesCache.set(name, bytes)
+  }
+  return bytes
+}
+
+const isKhmerCodePoint = (cp: number) =>
+  (cp >= 0x1780 && cp <= 0x17ff) || (cp >= 0x19e0 && cp <= 0x19ff)
+
+/** Dependent vowels, signs and the coeng, which never start a cluster */
+const isKhmerMark = (cp: number) =>
+  (cp >= 0x17b4 && cp <= 0x17d3) || cp === 0x17dd
+
+const KHMER_COENG = 0x17d2
+const ZWJ = 0x200d
+const ZWNJ = 0x200c
+
+/**
+ * Returns true if the string contains any Khmer characters
+ */
+export function containsKhmer(text: string): boolean {
+  return /[\u1780-\u17ff\u19e0-\u19ff]/.test(text)
+}
+
+/**
+ * Split text into Khmer orthographic clusters: a base character followed by
+ * its subscript consonants (coeng + consonant), dependent vowels and signs.
+ * Non-Khmer characters each form their own cluster.
+ */
+export function splitKhmerClusters(text: string): Array<string> {
+  const clusters: Array<string> = []
+  const chars = Array.from(text)
+
+  let current = ''
+  let joinNext = false
+  for (const char of chars) {
+    const cp = char.codePointAt(0) ?? 0
+    const attaches =
+      current !== '' &&
+      (joinNext || isKhmerMark(cp) || cp === ZWJ || cp === ZWNJ)
+
+    if (attaches) {
+      current += char
+    } else {
+      if (current) clusters.push(current)
+      current = char
+    }
+    joinNext = cp === KHMER_COENG || cp === ZWJ
+  }
+  if (current) clusters.push(current)
+
+  return clusters
+}
+
+/**
+ * Split text into word-like units that a line may break between. Spaces and
+ * zero-width spaces are break opportunities; since Khmer is written without
+ * spaces between words, every Khmer cluster is one as well.
+ */
+function splitBreakUnits(text: string): Array<string> {
+  const units: Array<string> = []
+  let word = ''
+
+  for (const cluster of splitKhmerClusters(text)) {
+    const cp = cluster.codePointAt(0) ?? 0
+    if (cluster === ' ' || cluster === '\u200b') {
+      units.push(word + cluster)
+      word = ''
+    } else if (isKhmerCodePoint(cp)) {
+      if (word) units.push(word)
+      units.push(cluster)
+      word = ''
+    } else {
+      word += cluster
+    }
+  }
+  if (word) units.push(word)
+
+  return units
+}
+
+/**
+ * Add the font to the page's resources once and return its resource name
+ */
+function getFontKey(page: PDFPage, font: PDFFont): PDFName {
+  let keys = fontKeyCache.get(page)
+  if (!keys) {
+    keys = new Map()
+    fontKeyCache.set(page, keys)
+  }
+  let key = keys.get(font)
+  if (!key) {
+    key = page.node.newFontDictionary(font.name, font.ref)
+    keys.set(font, key)
+  }
+  return key
+}
+
+/**
+ * The shaped glyph order differs from the logical character order, so each
+ * drawn string is wrapped in a marked-content span whose ActualText carries
+ * the original text for copy and search. Returns the property list's name.
+ */
+function getActualTextProperty(page: PDFPage, text: string): PDFName {
+  const { Resources } = page.node.normalizedEntries()
+  let properties = Resources.lookupMaybe(PDFName.of('Properties'), PDFDict)
+  if (!properties) {
+    properties = page.doc.context.obj({})
+    Resources.set(PDFName.of('Properties'), properties)
+  }
+
+  const key = PDFName.of(`ActualText${properties.keys().length}`)
+  const property = page.doc.context.obj({
+    ActualText: PDFHexString.fromText(text),
+  })
+  properties.set(key, page.doc.context.register(property))
+  return key
+}
+
+/**
+ * Build an ExtGState for the given opacity and return its resource name
+ */
+function getOpacityState(page: PDFPage, opacity: number) {
+  const state = page.doc.context.obj({
+    Type: 'ExtGState',
+    ca: opacity,
+    CA: opacity,
+  })
+  return page.node.newExtGState('GS', state)
+}
+
+/**
+ * Embed the bundled Khmer fonts into a document and return a renderer that
+ * shapes text with the font's GSUB/GPOS tables (cluster reordering, subscript
+ * consonants, stacked marks) and draws the positioned glyph runs.
+ *
+ * pdf-lib's own drawText only advances glyphs horizontally and does no
+ * reordering, which breaks Khmer. Characters the Khmer fonts lack (most Latin
+ * letters) fall back to Helvetica.
+ */
+export async function createKhmerTextRenderer(
+  pdfDoc: PDFDocument,
+  fontNames: Array<KhmerFontName> = ['Khmer'],
+): Promise<KhmerTextRenderer> {
+  pdfDoc.registerFontkit(
+    fontkit as unknown as Parameters<PDFDocument['registerFontkit']>[0],
+  )
+
+  const fonts = new Map<KhmerFontName, LoadedFont>()
+  for (const name of new Set(fontNames)) {
+    const bytes = await loadFontBytes(name)
+    // Subsetting re-numbers glyphs, so embed the full font to keep glyph
+    // ids from the shaper valid as character codes
+    const pdfFont = await pdfDoc.embedFont(bytes, { subset: false })
+    const shaper = fontkit.create(bytes as Buffer) as fontkit.Font
+    fonts.set(name, { pdfFont, shaper })
+  }
+  const fallbackFont = await pdfDoc.embedFont(StandardFonts.Helvetica)
+
+  const getFont = (name: KhmerFontName): LoadedFont => {
+    const font = fonts.get(name)
+    if (!font) {
+      throw new Error(`Font ${name} was not loaded for this document`)
+    }
+    return font
+  }
+
+  const canEncodeFallback = (char: string) => {
+    try {
+      fallbackFont.encodeText(char)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  const splitRuns = (text: string, font: LoadedFont): Array<TextRun> => {
+    const runs: Array<TextRun> = []
+    for (const cluster of splitKhmerClusters(text)) {
+      const cp = cluster.codePointAt(0) ?? 0
+      const isSpace = cluster.trim() === ''
+      const isFallback =
+        !isSpace &&
+        !isKhmerCodePoint(cp) &&
+        !font.shaper.hasGlyphForCodePoint(cp) &&
+        canEncodeFallback(cluster)
+
+      const last = runs.at(-1)
+      if (last && (last.isFallback === isFallback || isSpace)) {
+        last.text += cluster
+      } else {
+        runs.push({ text: cluster, isFallback })
+      }
+    }
+    return runs
+  }
+
+  /**
+   * Invisible text is only there to be extracted, so it is written with the
+   * nominal glyph of every character. Shaped ligatures and subscript forms
+   * have no ToUnicode entry and would not copy or search correctly.
+   */
+  const layoutNominal = (run: TextRun, font: LoadedFont, size: number) => {
+    const scale = size / font.shaper.unitsPerEm
+    const positioned: Array<PositionedGlyph> = []
+    let penX = 0
+    for (const char of run.text) {
+      const glyph = font.shaper.glyphForCodePoint(char.codePointAt(0) ?? 0)
+      positioned.push({
+        code: glyph.id.toString(16).padStart(4, '0'),
+        x: penX * scale,
+        y: 0,
+      })
+      penX += glyph.advanceWidth
+    }
+    return { glyphs: positioned, width: penX * scale }
+  }
+
+  const shapeRun = (
+    run: TextRun,
+    font: LoadedFont,
+    size: number,
+    shape = true,
+  ) => {
+    if (run.isFallback) {
+      return {
+        glyphs: [
+          {
+            code: fallbackFont.encodeText(run.text).toString().slice(1, -1),
+            x: 0,
+            y: 0,
+          },
+        ],
+        width: fallbackFont.widthOfTextAtSize(run.text, size),
+      }
+    }
+
+    if (!shape) {
+      return layoutNominal(run, font, size)
+    }
+
+    // Register the glyphs with the embedder so the widths array and the
+    // ToUnicode map (used for copy and search) include them
+    font.pdfFont.encodeText(run.text)
+
+    const scale = size / font.shaper.unitsPerEm
+    const { glyphs, positions } = font.shaper.layout(run.text)
+    const positioned: Array<PositionedGlyph> = []
+    let penX = 0
+    let penY = 0
+    glyphs.forEach((glyph, i) => {
+      const position = positions[i]
+      positioned.push({
+        code: glyph.id.toString(16).padStart(4, '0'),
+        x: (penX + position.xOffset) * scale,
+        y: (penY + position.yOffset) * scale,
+      })
+      penX += position.xAdvance
+      penY += position.yAdvance
+    })
+
+    return { glyphs: positioned, width: penX * scale }
+  }
+
+  const measureText = (text: string, style: TextStyle) => {
+    const font = getFont(style.font)
+    return splitRuns(text, font).reduce(
+      (width, run) => width + shapeRun(run, font, style.size).width,
+      0,
+    )
+  }
+
+  const getAscent = (style: TextStyle) => {
+    const { shaper } = getFont(style.font)
+    return (shaper.ascent / shaper.unitsPerEm) * style.size
+  }
+
+  const getLineHeight = (style: TextStyle) => {
+    const { shaper } = getFont(style.font)
+    return ((shaper.ascent - shaper.descent) / shaper.unitsPerEm) * style.size
+  }
+
+  const wrapText = (text: string, style: TextStyle, maxWidth: number) => {
+    const lines: Array<string> = []
+
+    for (const paragraph of text.split('\n')) {
+      let line = ''
+      let lineWidth = 0
+
+      for (const unit of splitBreakUnits(paragraph)) {
+        const unitWidth = measureText(unit, style)
+        const trimmedWidth = measureText(unit.trimEnd(), style)
+
+        if (line && lineWidth + trimmedWidth > maxWidth) {
+          lines.push(line.trimEnd())
+          line = ''
+          lineWidth = 0
+        }
+        line += unit
+        lineWidth += unitWidth
+      }
+      lines.push(line.trimEnd())
+    }
+
+    return lines
+  }
+
+  const drawText = (page: PDFPage, text: string, options: DrawTextOptions) => {
+    const font = getFont(options.font)
+    const radians = ((options.rotate ?? 0) * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const renderMode = options.renderMode ?? TextRenderingMode.Fill
+    const shape = renderMode !== TextRenderingMode.Invisible
+    const runs = splitRuns(text, font).map((run) => ({
+      run,
+      shaped: shapeRun(run, font, options.size, shape),
+    }))
+    const naturalWidth = runs.reduce((sum, { shaped }) => sum + shaped.width, 0)
+    const stretch =
+      options.width !== undefined && naturalWidth > 0
+        ? options.width / naturalWidth
+        : 1
+
+    const operators: Array<PDFOperator> = [
+      pushGraphicsState(),
+      PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [
+        PDFName.of('Span'),
+        getActualTextProperty(page, text),
+      ]),
+    ]
+    if (options.opacity !== undefined && options.opacity < 1) {
+      operators.push(setGraphicsState(getOpacityState(page, options.opacity)))
+    }
+    operators.push(
+      beginText(),
+      setFillingColor(options.color ?? rgb(0, 0, 0)),
+      setTextRenderingMode(renderMode),
+    )
+
+    const mainKey = getFontKey(page, font.pdfFont)
+    const fallbackKey = getFontKey(page, fallbackFont)
+
+    let offset = 0
+    for (const { run, shaped } of runs) {
+      operators.push(
+        setFontAndSize(run.isFallback ? fallbackKey : mainKey, options.size),
+      )
+      for (const glyph of shaped.glyphs) {
+        const gx = (offset + glyph.x) * stretch
+        const gy = glyph.y
+        operators.push(
+          setTextMatrix(
+            cos * stretch,
+            sin * stretch,
+            -sin,
+            cos,
+            options.x + gx * cos - gy * sin,
+            options.y + gx * sin + gy * cos,
+          ),
+          showText(PDFHexString.of(glyph.code)),
+        )
+      }
+      offset += shaped.width
+    }
+
+    operators.push(
+      endText(),
+      PDFOperator.of(PDFOperatorNames.EndMarkedContent),
+      popGraphicsState(),
+    )
+    page.pushOperators(...operators)
+  }
+
+  return { measureText, getLineHeight, getAscent, wrapText, drawText }
+}
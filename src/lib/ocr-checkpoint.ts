@@ -0,0 +1,91 @@
+import type { OcrPageResult, OcrRegion } from '@/lib/ocr-helper'
+import { idbDeleteAll, idbGetAll, idbKeys, idbSet } from '@/lib/idb'
+import { hashBytes } from '@/lib/utils'
+
+const STORE = 'ocr-checkpoints'
+
+/** Files are hashed in slices of this size, so they never load at once */
+const HASH_SLICE_SIZE = 64 * 1024 * 1024
+
+/**
+ * SHA-256 of the file contents, so a renamed or re-downloaded copy of the
+ * same PDF still finds its checkpoint. Files over one slice get the digest
+ * of their slice digests.
+ */
+export async function hashFile(file: File): Promise<string> {
+  const digests: Array<ArrayBuffer> = []
+  let start = 0
+  do {
+    const slice = file.slice(start, start + HASH_SLICE_SIZE)
+    digests.push(
+      await crypto.subtle.digest('SHA-256', await slice.arrayBuffer()),
+    )
+    start += HASH_SLICE_SIZE
+  } while (start < file.size)
+
+  const digest =
+    digests.length === 1
+      ? digests[0]
+      : await crypto.subtle.digest(
+          'SHA-256',
+          await new Blob(digests).arrayBuffer(),
+        )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+}
+
+/**
+ * Identifies an OCR job. The language order does not change the key; a run
+ * restricted to regions is kept apart from a full page run.
+ */
+export function getCheckpointKey(
+  fileHash: string,
+  languages: Array<string>,
+  regions: Array<OcrRegion> = [],
+): string {
+  const key = `${fileHash}:${[...languages].sort().join('+')}`
+  if (regions.length === 0) return `${key}/`
+
+  const signature = JSON.stringify(
+    regions.map(({ label, x, y, width, height }) => [
+      label,
+      x,
+      y,
+      width,
+      height,
+    ]),
+  )
+  // Short hash, keeps arbitrary region labels out of the key
+  const signatureHash = hashBytes(new TextEncoder().encode(signature))
+  return `${key}:${signatureHash.toString(16)}/`
+}
+
+function getPageKey(jobKey: string, pageNumber: number): string {
+  return `${jobKey}${String(pageNumber).padStart(5, '0')}`
+}
+
+export async function savePageCheckpoint(
+  jobKey: string,
+  result: OcrPageResult,
+): Promise<void> {
+  await idbSet(STORE, getPageKey(jobKey, result.pageNumber), result)
+}
+
+/**
+ * Page numbers already recognized for a job
+ */
+export async function getCheckpointPages(jobKey: string): Promise<Set<number>> {
+  const keys = await idbKeys(STORE, jobKey)
+  return new Set(keys.map((key) => Number(key.slice(jobKey.length))))
+}
+
+export async function loadCheckpoint(
+  jobKey: string,
+): Promise<Array<OcrPageResult>> {
+  return idbGetAll<OcrPageResult>(STORE, jobKey)
+}
+
+export async function clearCheckpoint(jobKey: string): Promise<void> {
+  await idbDeleteAll(STORE, jobKey)
+}
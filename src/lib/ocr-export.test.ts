@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { OcrBox, OcrPageResult } from '@/lib/ocr-helper'
+import { toAltoXml, toHocr, toTsv } from '@/lib/ocr-export'
+import { toImagePoint } from '@/lib/ocr-helper'
+
+// pdf.js cannot load here and only the PDF output needs it
+vi.mock('@/lib/ocr-source', () => ({ getOcrBasePdf: () => {} }))
+
+/** Letter page with one word, in points from the top left */
+const PAGE = { width: 612, height: 792 }
+const WORD: OcrBox = { x0: 72, y0: 100, x1: 172, y1: 124 }
+
+function createPage(
+  geometry: Pick<
+    OcrPageResult,
+    'imageWidth' | 'imageHeight' | 'rotation' | 'textLayer'
+  >,
+  bbox: OcrBox,
+): OcrPageResult {
+  return {
+    pageNumber: 1,
+    ...PAGE,
+    ...geometry,
+    confidence: 90,
+    blocks: [
+      {
+        bbox,
+        confidence: 90,
+        paragraphs: [
+          {
+            bbox,
+            confidence: 90,
+            lines: [
+              {
+                bbox,
+                baseline: null,
+                confidence: 90,
+                words: [{ text: 'Invoice', confidence: 90, bbox }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  }
+}
+
+/** The text layer holds the word in points */
+const textLayerPage = createPage(
+  { imageWidth: 612, imageHeight: 792, rotation: 0, textLayer: true },
+  WORD,
+)
+
+/** The same page rendered at 144 DPI and turned a quarter clockwise */
+const renderedGeometry = {
+  imageWidth: 1584,
+  imageHeight: 1224,
+  rotation: 90,
+}
+const corners = [
+  toImagePoint({ ...PAGE, ...renderedGeometry }, { x: WORD.x0, y: WORD.y0 }),
+  toImagePoint({ ...PAGE, ...renderedGeometry }, { x: WORD.x1, y: WORD.y1 }),
+]
+const renderedPage = createPage(renderedGeometry, {
+  x0: Math.min(corners[0].x, corners[1].x),
+  y0: Math.min(corners[0].y, corners[1].y),
+  x1: Math.max(corners[0].x, corners[1].x),
+  y1: Math.max(corners[0].y, corners[1].y),
+})
+
+function getWordRow(tsv: string): Array<string> {
+  return tsv
+    .split('\n')
+    .find((row) => row.startsWith('5\t'))!
+    .split('\t')
+}
+
+describe('OCR exports', () => {
+  it('place a word at the same spot whether recognized or from the text layer', () => {
+    // 300 DPI: left 72pt is 300px, top 100pt is 416.67px
+    const expected = ['300', '417', '417', '100']
+    expect(getWordRow(toTsv([textLayerPage])).slice(6, 10)).toEqual(expected)
+    expect(getWordRow(toTsv([renderedPage])).slice(6, 10)).toEqual(expected)
+
+    const wordBox = /ocrx_word[^>]*title='(bbox [\d ]+);/
+    expect(wordBox.exec(toHocr([textLayerPage], 'a.pdf', ['eng']))?.[1]).toBe(
+      'bbox 300 417 717 517',
+    )
+    expect(wordBox.exec(toHocr([renderedPage], 'a.pdf', ['eng']))?.[1]).toBe(
+      'bbox 300 417 717 517',
+    )
+  })
+
+  it('gives every page the same resolution', () => {
+    for (const page of [textLayerPage, renderedPage]) {
+      expect(toHocr([page], 'a.pdf', ['eng'])).toContain(
+        "title='bbox 0 0 2550 3300; ppageno 0; scan_res 300 300'",
+      )
+      const alto = toAltoXml([page], 'a.pdf')
+      expect(alto).toContain('<MeasurementUnit>inch1200</MeasurementUnit>')
+      expect(alto).toContain('<Page WIDTH="10200" HEIGHT="13200"')
+      expect(alto).toContain(
+        '<String ID="string_cblock_1_1_1_1_1" HPOS="1200" VPOS="1667" WIDTH="1667" HEIGHT="400"',
+      )
+    }
+  })
+})
@@ -0,0 +1,467 @@
+import JSZip from 'jszip'
+import type { OcrBox, OcrLine, OcrPageResult, OcrWord } from '@/lib/ocr-helper'
+import {
+  getOcrDocumentText,
+  getOcrPageText,
+  toPagePoint,
+} from '@/lib/ocr-helper'
+import { getOcrBasePdf } from '@/lib/ocr-source'
+import { createSearchablePdf } from '@/lib/searchable-pdf'
+
+export type OcrOutputFormat = 'txt' | 'pdf' | 'hocr' | 'alto' | 'tsv' | 'fields'
+
+/** A recognized file, ready to be exported */
+export interface OcrFileResult {
+  file: File
+  pages: Array<OcrPageResult>
+  languages: Array<string>
+}
+
+export interface OcrOutput {
+  blob: Blob
+  filename: string
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function formatBox(box: OcrBox): string {
+  return `bbox ${Math.round(box.x0)} ${Math.round(box.y0)} ${Math.round(box.x1)} ${Math.round(box.y1)}`
+}
+
+/**
+ * Resolution hOCR and TSV boxes are given in. Pages are recognized at
+ * different scales, rotated, or taken from the text layer in points, so
+ * every box is mapped back onto the upright page first.
+ */
+const EXPORT_DPI = 300
+
+/** ALTO's finest physical unit, 1/1200 inch */
+const ALTO_UNITS_PER_INCH = 1200
+
+/**
+ * Copy of the page with its size and every box in pixels of the upright
+ * page at `dpi`. Rotated boxes are widened to their bounding box.
+ */
+function toPageFrame(page: OcrPageResult, dpi: number): OcrPageResult {
+  const scale = dpi / 72
+  const toPixels = (x: number, y: number) => {
+    const point = toPagePoint(page, { x, y })
+    return { x: point.x * scale, y: point.y * scale }
+  }
+  const mapBox = (box: OcrBox): OcrBox => {
+    const corners = [
+      toPixels(box.x0, box.y0),
+      toPixels(box.x1, box.y0),
+      toPixels(box.x1, box.y1),
+      toPixels(box.x0, box.y1),
+    ]
+    return {
+      x0: Math.min(...corners.map((c) => c.x)),
+      y0: Math.min(...corners.map((c) => c.y)),
+      x1: Math.max(...corners.map((c) => c.x)),
+      y1: Math.max(...corners.map((c) => c.y)),
+    }
+  }
+  const mapLine = (baseline: OcrBox): OcrBox => {
+    const start = toPixels(baseline.x0, baseline.y0)
+    const end = toPixels(baseline.x1, baseline.y1)
+    return { x0: start.x, y0: start.y, x1: end.x, y1: end.y }
+  }
+
+  return {
+    ...page,
+    imageWidth: Math.round(page.width * scale),
+    imageHeight: Math.round(page.height * scale),
+    rotation: 0,
+    blocks: page.blocks.map((block) => ({
+      ...block,
+      bbox: mapBox(block.bbox),
+      paragraphs: block.paragraphs.map((paragraph) => ({
+        ...paragraph,
+        bbox: mapBox(paragraph.bbox),
+        lines: paragraph.lines.map((line) => ({
+          ...line,
+          bbox: mapBox(line.bbox),
+          baseline: line.baseline && mapLine(line.baseline),
+          words: line.words.map((word) => ({
+            ...word,
+            bbox: mapBox(word.bbox),
+          })),
+        })),
+      })),
+    })),
+  }
+}
+
+/**
+ * hOCR baseline: slope, and offset of the baseline from the bottom left
+ * corner of the line box
+ */
+function getHocrBaseline(line: OcrLine): string {
+  const { baseline, bbox } = line
+  if (!baseline || baseline.x1 === baseline.x0) return 'baseline 0 0'
+
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0)
+  const offset = baseline.y0 + slope * (bbox.x0 - baseline.x0) - bbox.y1
+  return `baseline ${slope.toFixed(3)} ${Math.round(offset)}`
+}
+
+/**
+ * hOCR 1.2 document, one ocr_page per recognized page, with boxes in pixels
+ * of the upright page at `EXPORT_DPI`
+ */
+export function toHocr(
+  pages: Array<OcrPageResult>,
+  title: string,
+  languages: Array<string>,
+): string {
+  const lang = languages.join('+')
+  let wordId = 0
+  let lineId = 0
+
+  const body = pages
+    .map((recognized) => {
+      const page = toPageFrame(recognized, EXPORT_DPI)
+      const n = page.pageNumber
+      const blocks = page.blocks
+        .map((block, blockIndex) => {
+          const paragraphs = block.paragraphs
+            .map((paragraph, paragraphIndex) => {
+              const lines = paragraph.lines
+                .map((line) => {
+                  lineId++
+                  const words = line.words
+                    .map((word) => {
+                      wordId++
+                      return `      <span class='ocrx_word' id='word_${n}_${wordId}' title='${formatBox(word.bbox)}; x_wconf ${Math.round(word.confidence)}'>${escapeXml(word.text)}</span>`
+                    })
+                    .join('\n')
+                  const height = Math.round(line.bbox.y1 - line.bbox.y0)
+                  return `     <span class='ocr_line' id='line_${n}_${lineId}' title="${formatBox(line.bbox)}; ${getHocrBaseline(line)}; x_size ${height}">\n${words}\n     </span>`
+                })
+                .join('\n')
+              return `    <p class='ocr_par' id='par_${n}_${blockIndex + 1}_${paragraphIndex + 1}' lang='${lang}' title="${formatBox(paragraph.bbox)}">\n${lines}\n    </p>`
+            })
+            .join('\n')
+          const region = block.region
+            ? ` data-region="${escapeXml(block.region)}"`
+            : ''
+          return `   <div class='ocr_carea' id='block_${n}_${blockIndex + 1}' title="${formatBox(block.bbox)}"${region}>\n${paragraphs}\n   </div>`
+        })
+        .join('\n')
+
+      return `  <div class='ocr_page' id='page_${n}' title='${formatBox({ x0: 0, y0: 0, x1: page.imageWidth, y1: page.imageHeight })}; ppageno ${n - 1}; scan_res ${EXPORT_DPI} ${EXPORT_DPI}'>\n${blocks}\n  </div>`
+    })
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN"
+    "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${lang}" lang="${lang}">
+ <head>
+  <title>${escapeXml(title)}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>
+  <meta name='ocr-system' content='tesseract.js'/>
+  <meta name='ocr-capabilities' content='ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf'/>
+ </head>
+ <body>
+${body}
+ </body>
+</html>
+`
+}
+
+function altoPosition(box: OcrBox): string {
+  return `HPOS="${Math.round(box.x0)}" VPOS="${Math.round(box.y0)}" WIDTH="${Math.round(box.x1 - box.x0)}" HEIGHT="${Math.round(box.y1 - box.y0)}"`
+}
+
+function toAltoString(word: OcrWord, id: string): string {
+  const confidence = (word.confidence / 100).toFixed(2)
+  return `<String ID="${id}" ${altoPosition(word.bbox)} WC="${confidence}" CONTENT="${escapeXml(word.text)}"/>`
+}
+
+/** Distinct region labels in order of first appearance */
+function getRegionLabels(pages: Array<OcrPageResult>): Array<string> {
+  const labels = new Set<string>()
+  for (const page of pages) {
+    for (const block of page.blocks) {
+      if (block.region) labels.add(block.region)
+    }
+  }
+  return [...labels]
+}
+
+/**
+ * ALTO 4 document measured in 1/1200 inch on the upright page. Tesseract's blocks map to ComposedBlock,
+ * paragraphs to TextBlock, lines to TextLine and words to String. Region
+ * labels become structure tags referenced by their blocks.
+ */
+export function toAltoXml(
+  pages: Array<OcrPageResult>,
+  fileName: string,
+): string {
+  const labels = getRegionLabels(pages)
+  const tags =
+    labels.length > 0
+      ? `  <Tags>\n${labels.map((label, i) => `    <StructureTag ID="region_${i + 1}" LABEL="${escapeXml(label)}"/>`).join('\n')}\n  </Tags>\n`
+      : ''
+
+  const layout = pages
+    .map((recognized) => {
+      const page = toPageFrame(recognized, ALTO_UNITS_PER_INCH)
+      const n = page.pageNumber
+      const blocks = page.blocks
+        .map((block, blockIndex) => {
+          const blockId = `cblock_${n}_${blockIndex + 1}`
+          const paragraphs = block.paragraphs
+            .map((paragraph, paragraphIndex) => {
+              const paragraphId = `${blockId}_${paragraphIndex + 1}`
+              const lines = paragraph.lines
+                .map((line, lineIndex) => {
+                  const lineId = `${paragraphId}_${lineIndex + 1}`
+                  const strings = line.words
+                    .map((word, wordIndex) => {
+                      const string = toAltoString(
+                        word,
+                        `string_${lineId}_${wordIndex + 1}`,
+                      )
+                      if (wordIndex === line.words.length - 1) return string
+                      const next = line.words[wordIndex + 1]
+                      return `${string}<SP WIDTH="${Math.max(Math.round(next.bbox.x0 - word.bbox.x1), 0)}" VPOS="${Math.round(word.bbox.y0)}" HPOS="${Math.round(word.bbox.x1)}"/>`
+                    })
+                    .join('\n            ')
+                  return `          <TextLine ID="line_${lineId}" ${altoPosition(line.bbox)}>\n            ${strings}\n          </TextLine>`
+                })
+                .join('\n')
+              return `        <TextBlock ID="block_${paragraphId}" ${altoPosition(paragraph.bbox)}>\n${lines}\n        </TextBlock>`
+            })
+            .join('\n')
+          const tagRef = block.region
+            ? ` TAGREFS="region_${labels.indexOf(block.region) + 1}"`
+            : ''
+          return `      <ComposedBlock ID="${blockId}" ${altoPosition(block.bbox)}${tagRef}>\n${paragraphs}\n      </ComposedBlock>`
+        })
+        .join('\n')
+
+      return `    <Page WIDTH="${page.imageWidth}" HEIGHT="${page.imageHeight}" PHYSICAL_IMG_NR="${n}" ID="page_${n}">
+      <PrintSpace HPOS="0" VPOS="0" WIDTH="${page.imageWidth}" HEIGHT="${page.imageHeight}">
+${blocks}
+      </PrintSpace>
+    </Page>`
+    })
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>inch1200</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(fileName)}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="OCR_0">
+      <ocrProcessingStep>
+        <processingSoftware>
+          <softwareName>tesseract.js</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+${tags}  <Layout>
+${layout}
+  </Layout>
+</alto>
+`
+}
+
+function tsvRow(
+  level: number,
+  ids: [number, number, number, number, number],
+  box: OcrBox,
+  confidence: number,
+  text: string,
+  region?: string,
+): string {
+  const columns = [
+    level,
+    ...ids,
+    Math.round(box.x0),
+    Math.round(box.y0),
+    Math.round(box.x1 - box.x0),
+    Math.round(box.y1 - box.y0),
+    confidence,
+    text.replace(/[\t\n]/g, ' '),
+  ]
+  if (region !== undefined) columns.push(region.replace(/[\t\n]/g, ' '))
+  return columns.join('\t')
+}
+
+/**
+ * Tab separated values in Tesseract's column layout. Levels are 1 page,
+ * 2 block, 3 paragraph, 4 line and 5 word; only words carry a confidence.
+ * When regions were used, a trailing `region` column holds their labels.
+ * Boxes are in pixels of the upright page at `EXPORT_DPI`.
+ */
+export function toTsv(pages: Array<OcrPageResult>): string {
+  const withRegions = getRegionLabels(pages).length > 0
+  const rows = [
+    'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext' +
+      (withRegions ? '\tregion' : ''),
+  ]
+
+  for (const recognized of pages) {
+    const page = toPageFrame(recognized, EXPORT_DPI)
+    const n = page.pageNumber
+    rows.push(
+      tsvRow(
+        1,
+        [n, 0, 0, 0, 0],
+        { x0: 0, y0: 0, x1: page.imageWidth, y1: page.imageHeight },
+        -1,
+        '',
+        withRegions ? '' : undefined,
+      ),
+    )
+    page.blocks.forEach((block, b) => {
+      const region = withRegions ? (block.region ?? '') : undefined
+      rows.push(tsvRow(2, [n, b + 1, 0, 0, 0], block.bbox, -1, '', region))
+      block.paragraphs.forEach((paragraph, p) => {
+        rows.push(
+          tsvRow(3, [n, b + 1, p + 1, 0, 0], paragraph.bbox, -1, '', region),
+        )
+        paragraph.lines.forEach((line, l) => {
+          rows.push(
+            tsvRow(4, [n, b + 1, p + 1, l + 1, 0], line.bbox, -1, '', region),
+          )
+          line.words.forEach((word, w) => {
+            rows.push(
+              tsvRow(
+                5,
+                [n, b + 1, p + 1, l + 1, w + 1],
+                word.bbox,
+                Number(word.confidence.toFixed(6)),
+                word.text,
+                region,
+              ),
+            )
+          })
+        })
+      })
+    })
+  }
+
+  return rows.join('\n') + '\n'
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * One row per page and one column per region label, for pulling fields out
+ * of a batch of identical forms
+ */
+export function toFieldsCsv(pages: Array<OcrPageResult>): string {
+  const labels = getRegionLabels(pages)
+  const rows = [['page', ...labels].map(csvCell).join(',')]
+
+  for (const page of pages) {
+    const values = labels.map((label) =>
+      getOcrPageText({
+        ...page,
+        blocks: page.blocks
+          .filter((block) => block.region === label)
+          .map((block) => ({ ...block, region: undefined })),
+      })
+        .replace(/\s*\n\s*/g, ' ')
+        .trim(),
+    )
+    rows.push([String(page.pageNumber), ...values].map(csvCell).join(','))
+  }
+
+  // Byte order mark so spreadsheet apps read Khmer text as UTF-8
+  return '\uFEFF' + rows.join('\r\n') + '\r\n'
+}
+
+export async function createOcrOutput(
+  result: OcrFileResult,
+  format: OcrOutputFormat,
+): Promise<OcrOutput> {
+  const { file, pages, languages } = result
+  const baseName = file.name.replace(/\.[^.]+$/, '')
+
+  switch (format) {
+    case 'txt':
+      return {
+        blob: new Blob([getOcrDocumentText(pages).trim()], {
+          type: 'text/plain',
+        }),
+        filename: `${baseName}_ocr.txt`,
+      }
+    case 'pdf': {
+      const pdfBytes = await createSearchablePdf(
+        await getOcrBasePdf(file),
+        pages,
+      )
+      return {
+        blob: new Blob([pdfBytes as BlobPart], { type: 'application/pdf' }),
+        filename: `${baseName}_searchable.pdf`,
+      }
+    }
+    case 'hocr':
+      return {
+        blob: new Blob([toHocr(pages, file.name, languages)], {
+          type: 'text/html',
+        }),
+        filename: `${baseName}_ocr.hocr`,
+      }
+    case 'alto':
+      return {
+        blob: new Blob([toAltoXml(pages, file.name)], {
+          type: 'application/xml',
+        }),
+        filename: `${baseName}_alto.xml`,
+      }
+    case 'tsv':
+      return {
+        blob: new Blob([toTsv(pages)], { type: 'text/tab-separated-values' }),
+        filename: `${baseName}_ocr.tsv`,
+      }
+    case 'fields':
+      return {
+        blob: new Blob([toFieldsCsv(pages)], { type: 'text/csv' }),
+        filename: `${baseName}_fields.csv`,
+      }
+  }
+}
+
+/**
+ * One ZIP with the output of every file. Outputs are created one at a time
+ * to keep memory use down; equal names, e.g. from different folders, are
+ * numbered.
+ */
+export async function createOcrZip(
+  results: Array<OcrFileResult>,
+  format: OcrOutputFormat,
+): Promise<Blob> {
+  const zip = new JSZip()
+  const usedNames = new Set<string>()
+
+  for (const result of results) {
+    const { blob, filename } = await createOcrOutput(result, format)
+    let name = filename
+    for (let copy = 2; usedNames.has(name); copy++) {
+      name = filename.replace(/(\.[^.]+)$/, ` (${copy})$1`)
+    }
+    usedNames.add(name)
+    zip.file(name, blob)
+  }
+
+  return zip.generateAsync({ type: 'blob' })
+}
@@ -0,0 +1,296 @@
+import type Tesseract from 'tesseract.js'
+import type { Point } from '@/lib/pdf-page-geometry'
+
+/** Bounding box in pixels of the recognized image, top-left origin */
+export interface OcrBox {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface OcrWord {
+  text: string
+  /** 0 to 100 */
+  confidence: number
+  bbox: OcrBox
+  /** Set once a person has proofread the word */
+  corrected?: boolean
+}
+
+export interface OcrLine {
+  bbox: OcrBox
+  /** Baseline from its start to its end point, when Tesseract found one */
+  baseline: OcrBox | null
+  confidence: number
+  words: Array<OcrWord>
+}
+
+export interface OcrParagraph {
+  bbox: OcrBox
+  confidence: number
+  lines: Array<OcrLine>
+}
+
+export interface OcrBlock {
+  bbox: OcrBox
+  confidence: number
+  paragraphs: Array<OcrParagraph>
+  /** Label of the region the block was recognized in */
+  region?: string
+}
+
+/**
+ * Rectangular zone to recognize, in fractions of the page size with a
+ * top-left origin, so the same zone fits every page of a form
+ */
+export interface OcrRegion {
+  id: string
+  label: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * OCR result of one page. Boxes are in pixels of the image Tesseract saw;
+ * `width` and `height` give the page size in PDF points so the boxes can be
+ * mapped back onto the page.
+ */
+export interface OcrPageResult {
+  pageNumber: number
+  imageWidth: number
+  imageHeight: number
+  width: number
+  height: number
+  /** Clockwise rotation in degrees from the page to the recognized image */
+  rotation: number
+  confidence: number
+  /** Taken from the text the PDF page already had instead of recognized */
+  textLayer?: boolean
+  blocks: Array<OcrBlock>
+}
+
+function toBox(bbox: Tesseract.Bbox): OcrBox {
+  return { x0: bbox.x0, y0: bbox.y0, x1: bbox.x1, y1: bbox.y1 }
+}
+
+/**
+ * Copy the block tree Tesseract returns into plain, serializable objects
+ */
+export function toOcrPageResult(
+  data: Tesseract.Page,
+  pageNumber: number,
+  image: { width: number; height: number },
+  pageSize: { width: number; height: number },
+  rotation = 0,
+): OcrPageResult {
+  return {
+    pageNumber,
+    imageWidth: image.width,
+    imageHeight: image.height,
+    width: pageSize.width,
+    height: pageSize.height,
+    rotation,
+    confidence: data.confidence,
+    blocks: (data.blocks ?? []).map((block) => ({
+      bbox: toBox(block.bbox),
+      confidence: block.confidence,
+      paragraphs: block.paragraphs.map((paragraph) => ({
+        bbox: toBox(paragraph.bbox),
+        confidence: paragraph.confidence,
+        lines: paragraph.lines.map((line) => ({
+          bbox: toBox(line.bbox),
+          baseline: line.baseline.has_baseline ? toBox(line.baseline) : null,
+          confidence: line.confidence,
+          words: line.words.map((word) => ({
+            text: word.text,
+            confidence: word.confidence,
+            bbox: toBox(word.bbox),
+          })),
+        })),
+      })),
+    })),
+  }
+}
+
+/** What is needed to map between the page and the recognized image */
+type OcrPageGeometry = Pick<
+  OcrPageResult,
+  'width' | 'height' | 'imageWidth' | 'imageHeight' | 'rotation'
+>
+
+/**
+ * Maps a point of the recognized image to page coordinates in points
+ * (top-left origin), undoing the rotation applied during preprocessing. The
+ * image is expected to be the rotated page expanded to its bounding box.
+ */
+export function toPagePoint(page: OcrPageGeometry, point: Point): Point {
+  const radians = (page.rotation * Math.PI) / 180
+  const sin = Math.sin(radians)
+  const cos = Math.cos(radians)
+  const scale =
+    page.imageWidth / (page.width * Math.abs(cos) + page.height * Math.abs(sin))
+
+  const dx = (point.x - page.imageWidth / 2) / scale
+  const dy = (point.y - page.imageHeight / 2) / scale
+  return {
+    x: page.width / 2 + dx * cos + dy * sin,
+    y: page.height / 2 - dx * sin + dy * cos,
+  }
+}
+
+/** Position of a word in the block tree of its page */
+export interface OcrWordPath {
+  block: number
+  paragraph: number
+  line: number
+  word: number
+}
+
+export function getWordKey(path: OcrWordPath): string {
+  return `${path.block}-${path.paragraph}-${path.line}-${path.word}`
+}
+
+/**
+ * Every word of a page in reading order, with its line and position
+ */
+export function getOcrWords(
+  page: OcrPageResult,
+): Array<{ word: OcrWord; line: OcrLine; path: OcrWordPath }> {
+  return page.blocks.flatMap((block, b) =>
+    block.paragraphs.flatMap((paragraph, p) =>
+      paragraph.lines.flatMap((line, l) =>
+        line.words.map((word, w) => ({
+          word,
+          line,
+          path: { block: b, paragraph: p, line: l, word: w },
+        })),
+      ),
+    ),
+  )
+}
+
+/**
+ * Copy of the page with one word corrected. The corrected word is trusted
+ * fully from then on; an empty text removes the word.
+ */
+export function correctOcrWord(
+  page: OcrPageResult,
+  path: OcrWordPath,
+  text: string,
+): OcrPageResult {
+  const trimmed = text.trim()
+  return {
+    ...page,
+    blocks: page.blocks.map((block, b) =>
+      b !== path.block
+        ? block
+        : {
+            ...block,
+            paragraphs: block.paragraphs.map((paragraph, p) =>
+              p !== path.paragraph
+                ? paragraph
+                : {
+                    ...paragraph,
+                    lines: paragraph.lines.map((line, l) =>
+                      l !== path.line
+                        ? line
+                        : {
+                            ...line,
+                            words: line.words.flatMap((word, w) => {
+                              if (w !== path.word) return [word]
+                              if (!trimmed) return []
+                              return [
+                                {
+                                  ...word,
+                                  text: trimmed,
+                                  confidence: 100,
+                                  corrected: true,
+                                },
+                              ]
+                            }),
+                          },
+                    ),
+                  },
+            ),
+          },
+    ),
+  }
+}
+
+/**
+ * Inverse of toPagePoint: page coordinates in points to image pixels
+ */
+export function toImagePoint(page: OcrPageGeometry, point: Point): Point {
+  const radians = (page.rotation * Math.PI) / 180
+  const sin = Math.sin(radians)
+  const cos = Math.cos(radians)
+  const scale =
+    page.imageWidth / (page.width * Math.abs(cos) + page.height * Math.abs(sin))
+
+  const dx = point.x - page.width / 2
+  const dy = point.y - page.height / 2
+  return {
+    x: page.imageWidth / 2 + (dx * cos - dy * sin) * scale,
+    y: page.imageHeight / 2 + (dx * sin + dy * cos) * scale,
+  }
+}
+
+/**
+ * Pixel rectangle of a region in the recognized image. Rotated regions are
+ * widened to their bounding box.
+ */
+export function getRegionRectangle(
+  page: OcrPageGeometry,
+  region: OcrRegion,
+): { left: number; top: number; width: number; height: number } {
+  const left = region.x * page.width
+  const top = region.y * page.height
+  const right = left + region.width * page.width
+  const bottom = top + region.height * page.height
+  const corners = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ].map((corner) => toImagePoint(page, corner))
+
+  const x0 = Math.max(0, Math.floor(Math.min(...corners.map((c) => c.x))))
+  const y0 = Math.max(0, Math.floor(Math.min(...corners.map((c) => c.y))))
+  const x1 = Math.min(
+    page.imageWidth,
+    Math.ceil(Math.max(...corners.map((c) => c.x))),
+  )
+  const y1 = Math.min(
+    page.imageHeight,
+    Math.ceil(Math.max(...corners.map((c) => c.y))),
+  )
+  return { left: x0, top: y0, width: x1 - x0, height: y1 - y0 }
+}
+
+export function getLineText(line: OcrLine): string {
+  return line.words.map((word) => word.text).join(' ')
+}
+
+/**
+ * Plain text of a page: one line per OCR line, paragraphs separated by a
+ * blank line. Text from a region starts with its label in brackets.
+ */
+export function getOcrPageText(page: OcrPageResult): string {
+  return page.blocks
+    .map((block) => {
+      const text = block.paragraphs
+        .map((paragraph) => paragraph.lines.map(getLineText).join('\n'))
+        .join('\n\n')
+      return block.region ? `[${block.region}]\n${text}` : text
+    })
+    .join('\n\n')
+}
+
+export function getOcrDocumentText(pages: Array<OcrPageResult>): string {
+  return pages
+    .map((page) => `--- Page ${page.pageNumber} ---\n\n${getOcrPageText(page)}`)
+    .join('\n\n')
+}
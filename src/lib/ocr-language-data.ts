@@ -0,0 +1,99 @@
+import { keys } from 'idb-keyval'
+import type { WorkerOptions } from 'tesseract.js'
+
+/**
+ * Directory the traineddata files are served from, e.g. `public/tessdata`
+ * holding `eng.traineddata.gz`. Set `VITE_TESSDATA_URL` to point at another
+ * self-hosted location.
+ */
+export const TESSDATA_URL = (
+  (import.meta.env.VITE_TESSDATA_URL as string | undefined) ?? '/tessdata'
+).replace(/\/$/, '')
+
+/**
+ * Tesseract caches the traineddata it loads in IndexedDB, through
+ * idb-keyval's default store, under `<cachePath>/<code>.traineddata`
+ */
+const CACHE_PATH = 'tessdata'
+
+/** Self-hosted files, compressed ones are preferred */
+const HOSTED_FORMATS = [
+  { extension: '.traineddata.gz', gzip: true },
+  { extension: '.traineddata', gzip: false },
+]
+
+/**
+ * Where Tesseract workers load the traineddata of some languages from. Pass
+ * `langs` and `options` on to `createWorker`.
+ */
+export interface LanguageSource {
+  langs: Array<string>
+  options: Partial<
+    Pick<WorkerOptions, 'langPath' | 'cachePath' | 'cacheMethod' | 'gzip'>
+  >
+}
+
+async function isHosted(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' })
+    // The dev server answers missing files with the app's index.html
+    return (
+      response.ok &&
+      !response.headers.get('content-type')?.includes('text/html')
+    )
+  } catch {
+    // Offline or blocked
+    return false
+  }
+}
+
+/**
+ * Languages not cached yet are loaded from `TESSDATA_URL` when it holds all
+ * of them, otherwise from Tesseract's CDN. Workers read cached languages
+ * from the cache and cache the ones they download, so later runs work
+ * offline.
+ */
+export async function resolveLanguageSource(
+  codes: Array<string>,
+  onProgress?: (code: string, index: number, total: number) => void,
+): Promise<LanguageSource> {
+  const cached = await getCachedLanguages()
+  const missing = codes.filter((code) => !cached.has(code))
+
+  for (const { extension, gzip } of HOSTED_FORMATS) {
+    let hosted = true
+    for (const [index, code] of missing.entries()) {
+      onProgress?.(code, index, missing.length)
+      if (!(await isHosted(`${TESSDATA_URL}/${code}${extension}`))) {
+        hosted = false
+        break
+      }
+    }
+    if (hosted) {
+      return {
+        langs: codes,
+        options: { langPath: TESSDATA_URL, cachePath: CACHE_PATH, gzip },
+      }
+    }
+  }
+
+  // Without a langPath Tesseract picks the CDN files matching the engine
+  return { langs: codes, options: { cachePath: CACHE_PATH } }
+}
+
+/**
+ * Languages whose traineddata is stored locally and works offline
+ */
+export async function getCachedLanguages(): Promise<Set<string>> {
+  const prefix = `${CACHE_PATH}/`
+  try {
+    return new Set(
+      (await keys())
+        .map(String)
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => key.slice(prefix.length).replace(/\.traineddata$/, '')),
+    )
+  } catch {
+    return new Set()
+  }
+}
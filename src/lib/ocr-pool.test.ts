@@ -0,0 +1,90 @@
+import { createRequire } from 'node:module'
+import { dirname, join } from 'node:path'
+import { createCanvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import type { LanguageSource } from '@/lib/ocr-language-data'
+import { getOcrWords } from '@/lib/ocr-helper'
+import { createOcrPool } from '@/lib/ocr-pool'
+import { createOrientationDetector } from '@/lib/ocr-preprocess'
+
+const require = createRequire(import.meta.url)
+
+/** The traineddata packages Tesseract's CDN serves, installed locally */
+function getLocalSource(code: string, model: string): LanguageSource {
+  const directory = dirname(
+    require.resolve(`@tesseract.js-data/${code}/package.json`),
+  )
+  return {
+    langs: [code],
+    options: {
+      langPath: join(directory, model),
+      cacheMethod: 'none',
+      gzip: true,
+    },
+  }
+}
+
+/**
+ * Black text on white as PNG bytes. Tesseract in Node reads encoded images,
+ * the size is what the pool reads off a canvas.
+ */
+function renderText(lines: Array<string>, rotation = 0): HTMLCanvasElement {
+  const width = 1400
+  const height = lines.length * 90 + 60
+  const turned = rotation % 180 !== 0
+  const canvas = createCanvas(turned ? height : width, turned ? width : height)
+  const context = canvas.getContext('2d')
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate((rotation * Math.PI) / 180)
+  context.translate(-width / 2, -height / 2)
+  context.fillStyle = '#000000'
+  context.font = '56px sans-serif'
+  lines.forEach((line, index) => context.fillText(line, 40, 100 + index * 90))
+
+  return Object.assign(canvas.toBuffer('image/png'), {
+    width: canvas.width,
+    height: canvas.height,
+  }) as unknown as HTMLCanvasElement
+}
+
+const TEXT = [
+  'The quick brown fox jumps over',
+  'the lazy dog near the river bank',
+  'while seven birds watch quietly',
+  'from the old wooden fence.',
+]
+
+describe('createOcrPool', () => {
+  it('recognizes text with traineddata loaded by language code', async () => {
+    const pool = await createOcrPool(getLocalSource('eng', '4.0.0_best_int'), {
+      size: 1,
+    })
+    try {
+      const result = await pool.recognize(renderText(TEXT), 1, {
+        width: 700,
+        height: 200,
+      })
+      const words = getOcrWords(result).map(({ word }) => word.text)
+      expect(words.join(' ')).toContain('quick brown fox')
+      expect(result.confidence).toBeGreaterThan(70)
+    } finally {
+      await pool.terminate()
+    }
+  }, 60_000)
+})
+
+describe('createOrientationDetector', () => {
+  it('detects a page turned on its side', async () => {
+    const detector = await createOrientationDetector(
+      getLocalSource('osd', '4.0.0'),
+    )
+    try {
+      expect(await detector.detect(renderText(TEXT))).toBe(0)
+      expect([90, 270]).toContain(await detector.detect(renderText(TEXT, 90)))
+    } finally {
+      await detector.terminate()
+    }
+  }, 60_000)
+})
@@ -0,0 +1,171 @@
+import { createScheduler, createWorker } from 'tesseract.js'
+import type { Worker } from 'tesseract.js'
+import type { OcrPageResult, OcrRegion } from '@/lib/ocr-helper'
+import type { LanguageSource } from '@/lib/ocr-language-data'
+import { getRegionRectangle, toOcrPageResult } from '@/lib/ocr-helper'
+
+/** Every worker holds its own copy of the language data, cap the memory */
+const MAX_WORKERS = 8
+
+export interface OcrPool {
+  size: number
+  recognize: (
+    canvas: HTMLCanvasElement,
+    pageNumber: number,
+    pageSize: { width: number; height: number },
+    rotation?: number,
+    /** Only recognize these zones, each labelled in the result */
+    regions?: Array<OcrRegion>,
+  ) => Promise<OcrPageResult>
+  terminate: () => Promise<void>
+}
+
+export function getDefaultPoolSize(): number {
+  return Math.max(1, Math.min(navigator.hardwareConcurrency || 1, MAX_WORKERS))
+}
+
+/**
+ * Tesseract workers behind a scheduler, which hands each page to the next
+ * idle worker. `onPageProgress` reports recognition progress (0 to 1) per
+ * page. Aborting `signal` terminates the workers and rejects pages still in
+ * progress with the abort reason.
+ */
+export async function createOcrPool(
+  languages: LanguageSource,
+  options: {
+    size?: number
+    onPageProgress?: (pageNumber: number, progress: number) => void
+    signal?: AbortSignal
+  } = {},
+): Promise<OcrPool> {
+  const { signal } = options
+  signal?.throwIfAborted()
+
+  const size = options.size ?? getDefaultPoolSize()
+  const scheduler = createScheduler()
+  // The scheduler picks the worker, so remember which page each one is on
+  const activePages: Array<number | undefined> = []
+  const pageNumbers = new WeakMap<HTMLCanvasElement, number>()
+
+  const startWorker = (index: number) =>
+    createWorker(languages.langs, 1, {
+      ...languages.options,
+      logger: (m) => {
+        const pageNumber = activePages[index]
+        if (m.status === 'recognizing text' && pageNumber !== undefined) {
+          options.onPageProgress?.(pageNumber, m.progress)
+        }
+      },
+    })
+  // The first worker downloads and caches the traineddata, the others read
+  // it from the cache instead of downloading it again
+  const firstWorker = await startWorker(0)
+  const workers = [
+    firstWorker,
+    ...(await Promise.all(
+      Array.from({ length: size - 1 }, (_, index) => startWorker(index + 1)),
+    )),
+  ]
+
+  const terminate = async () => {
+    await Promise.all(workers.map((worker) => worker.terminate()))
+  }
+
+  // Terminated workers never answer, so pending pages settle on this instead
+  const aborted = new Promise<never>((_, reject) => {
+    signal?.addEventListener(
+      'abort',
+      () => {
+        reject(signal.reason)
+        void terminate()
+      },
+      { once: true },
+    )
+  })
+  aborted.catch(() => {})
+  if (signal?.aborted) {
+    await terminate()
+    signal.throwIfAborted()
+  }
+
+  workers.forEach((worker, index) => {
+    scheduler.addWorker({
+      ...worker,
+      recognize: (image, ...args) => {
+        activePages[index] = pageNumbers.get(image as HTMLCanvasElement)
+        return worker.recognize(image, ...args)
+      },
+    } satisfies Worker)
+  })
+
+  return {
+    size,
+    recognize: async (
+      canvas,
+      pageNumber,
+      pageSize,
+      rotation = 0,
+      regions = [],
+    ) => {
+      pageNumbers.set(canvas, pageNumber)
+      const image = { width: canvas.width, height: canvas.height }
+      const run = async (
+        rectangle?: ReturnType<typeof getRegionRectangle>,
+      ): Promise<OcrPageResult> => {
+        const { data } = await Promise.race([
+          scheduler.addJob(
+            'recognize',
+            canvas,
+            rectangle ? { rectangle } : {},
+            { blocks: true },
+          ),
+          aborted,
+        ])
+        return toOcrPageResult(data, pageNumber, image, pageSize, rotation)
+      }
+
+      if (regions.length === 0) {
+        const result = await run()
+        options.onPageProgress?.(pageNumber, 1)
+        return result
+      }
+
+      // Regions of one page are spread over the workers as well
+      const geometry = {
+        ...pageSize,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        rotation,
+      }
+      const results = await Promise.all(
+        regions.map(async (region) => {
+          const rectangle = getRegionRectangle(geometry, region)
+          if (rectangle.width <= 0 || rectangle.height <= 0) return null
+          const result = await run(rectangle)
+          return result.blocks.map((block) => ({
+            ...block,
+            region: region.label,
+          }))
+        }),
+      )
+      options.onPageProgress?.(pageNumber, 1)
+
+      const blocks = results.flatMap((result) => result ?? [])
+      return {
+        pageNumber,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        width: pageSize.width,
+        height: pageSize.height,
+        rotation,
+        confidence:
+          blocks.length > 0
+            ? blocks.reduce((sum, block) => sum + block.confidence, 0) /
+              blocks.length
+            : 0,
+        blocks,
+      }
+    },
+    terminate,
+  }
+}
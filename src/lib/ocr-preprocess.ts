@@ -0,0 +1,440 @@
+import { OEM, createWorker } from 'tesseract.js'
+import type { Worker } from 'tesseract.js'
+import type { LanguageSource } from '@/lib/ocr-language-data'
+import { resolveLanguageSource } from '@/lib/ocr-language-data'
+import { createCanvas } from '@/lib/utils'
+
+export type BinarizeMethod = 'none' | 'otsu' | 'sauvola'
+
+export interface PreprocessOptions {
+  grayscale: boolean
+  /** Otsu uses one global threshold, Sauvola adapts to uneven lighting */
+  binarize: BinarizeMethod
+  /** 3×3 median filter against sensor noise and JPEG artifacts */
+  denoise: boolean
+  /** Remove isolated specks after binarization */
+  despeckle: boolean
+  deskew: boolean
+  /** Turn sideways and upside down pages upright using Tesseract's OSD */
+  autoRotate: boolean
+}
+
+export const defaultPreprocessOptions: PreprocessOptions = {
+  grayscale: true,
+  binarize: 'sauvola',
+  denoise: true,
+  despeckle: true,
+  deskew: true,
+  autoRotate: false,
+}
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement
+  /** Total clockwise rotation applied to the page image, in degrees */
+  rotation: number
+  /** Detected skew that was corrected, in degrees */
+  skewAngle: number
+  /** Clockwise quarter turn applied from orientation detection */
+  orientation: number
+}
+
+/** Returns the clockwise rotation in degrees that makes the page upright */
+export type OrientationDetector = (canvas: HTMLCanvasElement) => Promise<number>
+
+/** Skew angles beyond this are more likely a misdetection than a real scan */
+const MAX_SKEW = 15
+/** Below this the rotation would only blur the image */
+const MIN_SKEW = 0.1
+/** Sauvola window in pixels and sensitivity */
+const SAUVOLA_WINDOW = 31
+const SAUVOLA_K = 0.34
+/** Connected ink areas up to this many pixels count as specks */
+const SPECK_AREA = 5
+/** OSD results below this confidence are ignored */
+const MIN_ORIENTATION_CONFIDENCE = 2
+
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  return canvas.getContext('2d', { willReadFrequently: true })!
+}
+
+function toGray(image: ImageData): Uint8ClampedArray {
+  const { data } = image
+  const gray = new Uint8ClampedArray(image.width * image.height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114
+  }
+  return gray
+}
+
+function medianFilter(
+  gray: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Uint8ClampedArray {
+  const result = new Uint8ClampedArray(gray.length)
+  const window = new Uint8Array(9)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(Math.max(y + dy, 0), height - 1)
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(Math.max(x + dx, 0), width - 1)
+          window[n++] = gray[yy * width + xx]
+        }
+      }
+      window.sort()
+      result[y * width + x] = window[4]
+    }
+  }
+  return result
+}
+
+function otsuThreshold(gray: Uint8ClampedArray): number {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of gray) histogram[value]++
+
+  let total = 0
+  for (let i = 0; i < 256; i++) total += i * histogram[i]
+
+  let backgroundWeight = 0
+  let backgroundSum = 0
+  let bestThreshold = 127
+  let bestVariance = 0
+
+  for (let t = 0; t < 256; t++) {
+    backgroundWeight += histogram[t]
+    if (backgroundWeight === 0) continue
+    const foregroundWeight = gray.length - backgroundWeight
+    if (foregroundWeight === 0) break
+
+    backgroundSum += t * histogram[t]
+    const backgroundMean = backgroundSum / backgroundWeight
+    const foregroundMean = (total - backgroundSum) / foregroundWeight
+    const variance =
+      backgroundWeight *
+      foregroundWeight *
+      (backgroundMean - foregroundMean) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = t
+    }
+  }
+  return bestThreshold
+}
+
+/** Ink mask, 1 for dark pixels */
+function binarizeOtsu(gray: Uint8ClampedArray): Uint8Array {
+  const threshold = otsuThreshold(gray)
+  return Uint8Array.from(gray, (value) => (value <= threshold ? 1 : 0))
+}
+
+/**
+ * Sauvola's local threshold `mean * (1 + k * (std / 128 - 1))`, with the
+ * window statistics taken from integral images
+ */
+function binarizeSauvola(
+  gray: Uint8ClampedArray,
+  width: number,
+  height: number,
+): Uint8Array {
+  const stride = width + 1
+  const sum = new Float64Array(stride * (height + 1))
+  const squares = new Float64Array(stride * (height + 1))
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    let rowSquares = 0
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x]
+      rowSum += value
+      rowSquares += value * value
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum
+      squares[(y + 1) * stride + x + 1] =
+        squares[y * stride + x + 1] + rowSquares
+    }
+  }
+
+  const half = Math.floor(SAUVOLA_WINDOW / 2)
+  const ink = new Uint8Array(gray.length)
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(y - half, 0)
+    const y1 = Math.min(y + half + 1, height)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(x - half, 0)
+      const x1 = Math.min(x + half + 1, width)
+      const area = (x1 - x0) * (y1 - y0)
+      const windowSum =
+        sum[y1 * stride + x1] -
+        sum[y0 * stride + x1] -
+        sum[y1 * stride + x0] +
+        sum[y0 * stride + x0]
+      const windowSquares =
+        squares[y1 * stride + x1] -
+        squares[y0 * stride + x1] -
+        squares[y1 * stride + x0] +
+        squares[y0 * stride + x0]
+      const mean = windowSum / area
+      const std = Math.sqrt(Math.max(windowSquares / area - mean * mean, 0))
+      const threshold = mean * (1 + SAUVOLA_K * (std / 128 - 1))
+      ink[y * width + x] = gray[y * width + x] <= threshold ? 1 : 0
+    }
+  }
+  return ink
+}
+
+/**
+ * Clears 8-connected ink components no larger than `maxArea` pixels
+ */
+function despeckle(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  maxArea: number,
+) {
+  const visited = new Uint8Array(ink.length)
+  const stack = new Int32Array(ink.length)
+  const component: Array<number> = []
+
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || visited[start]) continue
+
+    let top = 0
+    stack[top++] = start
+    visited[start] = 1
+    component.length = 0
+
+    while (top > 0) {
+      const index = stack[--top]
+      // Only the first pixels are needed to decide on a speck
+      if (component.length <= maxArea) component.push(index)
+      const x = index % width
+      const y = (index - x) / width
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy
+        if (yy < 0 || yy >= height) continue
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx
+          if (xx < 0 || xx >= width) continue
+          const next = yy * width + xx
+          if (ink[next] && !visited[next]) {
+            visited[next] = 1
+            stack[top++] = next
+          }
+        }
+      }
+    }
+
+    if (component.length <= maxArea) {
+      for (const index of component) ink[index] = 0
+    }
+  }
+}
+
+/**
+ * Skew of the text lines in degrees, clockwise positive. Ink pixels are
+ * projected onto rows at candidate angles; the angle whose row profile is the
+ * sharpest lines up with the text lines.
+ */
+function estimateSkew(ink: Uint8Array, width: number, height: number): number {
+  const xs: Array<number> = []
+  const ys: Array<number> = []
+  // Sample at most about 60k ink pixels
+  let count = 0
+  for (const value of ink) count += value
+  const sampling = Math.max(1, Math.floor(count / 60000))
+
+  let seen = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (ink[y * width + x] && seen++ % sampling === 0) {
+        xs.push(x)
+        ys.push(y)
+      }
+    }
+  }
+  if (xs.length < 100) return 0
+
+  const diagonal = Math.ceil(Math.hypot(width, height))
+  const profile = new Float64Array(diagonal * 2 + 1)
+
+  const score = (degrees: number): number => {
+    const radians = (degrees * Math.PI) / 180
+    const sin = Math.sin(radians)
+    const cos = Math.cos(radians)
+    profile.fill(0)
+    for (let i = 0; i < xs.length; i++) {
+      profile[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++
+    }
+    let total = 0
+    for (let i = 1; i < profile.length; i++) {
+      total += (profile[i] - profile[i - 1]) ** 2
+    }
+    return total
+  }
+
+  const search = (from: number, to: number, step: number): number => {
+    let best = 0
+    let bestScore = -1
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const value = score(angle)
+      if (value > bestScore) {
+        bestScore = value
+        best = angle
+      }
+    }
+    return best
+  }
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5)
+  return search(coarse - 0.5, coarse + 0.5, 0.05)
+}
+
+/**
+ * Rotates clockwise around the center onto a canvas large enough for the
+ * whole page, with white filling the uncovered corners
+ */
+function rotateCanvas(
+  source: HTMLCanvasElement,
+  degrees: number,
+): HTMLCanvasElement {
+  const radians = (degrees * Math.PI) / 180
+  const sin = Math.abs(Math.sin(radians))
+  const cos = Math.abs(Math.cos(radians))
+  const canvas = createCanvas(
+    Math.round(source.width * cos + source.height * sin),
+    Math.round(source.width * sin + source.height * cos),
+  )
+  const context = getContext(canvas)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(radians)
+  context.drawImage(source, -source.width / 2, -source.height / 2)
+  return canvas
+}
+
+function drawGray(canvas: HTMLCanvasElement, gray: ArrayLike<number>) {
+  const context = getContext(canvas)
+  const image = context.createImageData(canvas.width, canvas.height)
+  for (let i = 0; i < gray.length; i++) {
+    image.data[i * 4] = gray[i]
+    image.data[i * 4 + 1] = gray[i]
+    image.data[i * 4 + 2] = gray[i]
+    image.data[i * 4 + 3] = 255
+  }
+  context.putImageData(image, 0, 0)
+}
+
+function readGray(canvas: HTMLCanvasElement): Uint8ClampedArray {
+  return toGray(
+    getContext(canvas).getImageData(0, 0, canvas.width, canvas.height),
+  )
+}
+
+/**
+ * Runs the enabled steps on a rendered page: orientation, grayscale and
+ * denoise, deskew, then binarization and despeckling. The source canvas is
+ * left untouched.
+ */
+export async function preprocessPage(
+  source: HTMLCanvasElement,
+  options: PreprocessOptions,
+  detectOrientation?: OrientationDetector,
+): Promise<PreprocessResult> {
+  let canvas = createCanvas(source.width, source.height)
+  getContext(canvas).drawImage(source, 0, 0)
+
+  let orientation = 0
+  if (options.autoRotate && detectOrientation) {
+    orientation = await detectOrientation(canvas)
+    if (orientation) canvas = rotateCanvas(canvas, orientation)
+  }
+
+  const usesGray =
+    options.grayscale || options.denoise || options.binarize !== 'none'
+  if (usesGray) {
+    let gray = readGray(canvas)
+    if (options.denoise) gray = medianFilter(gray, canvas.width, canvas.height)
+    drawGray(canvas, gray)
+  }
+
+  let skewAngle = 0
+  if (options.deskew) {
+    const gray = readGray(canvas)
+    const skew = estimateSkew(binarizeOtsu(gray), canvas.width, canvas.height)
+    if (Math.abs(skew) >= MIN_SKEW) {
+      skewAngle = skew
+      canvas = rotateCanvas(canvas, -skew)
+    }
+  }
+
+  if (options.binarize !== 'none') {
+    const { width, height } = canvas
+    const gray = readGray(canvas)
+    const ink =
+      options.binarize === 'otsu'
+        ? binarizeOtsu(gray)
+        : binarizeSauvola(gray, width, height)
+    if (options.despeckle) despeckle(ink, width, height, SPECK_AREA)
+    drawGray(
+      canvas,
+      ink.map((value) => (value ? 0 : 255)),
+    )
+  }
+
+  return {
+    canvas,
+    rotation: orientation - skewAngle,
+    skewAngle,
+    orientation,
+  }
+}
+
+/**
+ * Orientation detection backed by a legacy Tesseract worker with the `osd`
+ * data, loaded from where `resolveLanguageSource` finds it unless a source
+ * is given. Call `terminate` once done.
+ */
+export async function createOrientationDetector(
+  source?: LanguageSource,
+): Promise<{
+  detect: OrientationDetector
+  terminate: () => Promise<void>
+}> {
+  const languages = source ?? (await resolveLanguageSource(['osd']))
+  const worker: Worker = await createWorker(
+    languages.langs,
+    OEM.TESSERACT_ONLY,
+    {
+      ...languages.options,
+      legacyCore: true,
+      legacyLang: true,
+    },
+  )
+
+  return {
+    detect: async (canvas) => {
+      try {
+        const { data: osd } = await worker.detect(canvas)
+        if (
+          osd.orientation_degrees === null ||
+          (osd.orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE
+        ) {
+          return 0
+        }
+        return osd.orientation_degrees
+      } catch {
+        // Pages with too little text cannot be detected
+        return 0
+      }
+    },
+    terminate: async () => {
+      await worker.terminate()
+    },
+  }
+}
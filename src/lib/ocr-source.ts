@@ -0,0 +1,252 @@
+import { PDFDocument } from 'pdf-lib'
+import * as UTIF from 'utif'
+import type { PageContent } from '@/lib/ocr-text-layer'
+import { getPageContent } from '@/lib/ocr-text-layer'
+import { openPageRenderer } from '@/lib/page-renderer'
+import { createCanvas } from '@/lib/utils'
+
+/** Render scale handed to Tesseract, 144 DPI */
+const RENDER_SCALE = 2
+
+/** Assumed resolution of images that do not state one, common for scans */
+const DEFAULT_IMAGE_DPI = 300
+
+export type OcrFileKind = 'pdf' | 'image' | 'tiff'
+
+export interface RenderedPage {
+  canvas: HTMLCanvasElement
+  /** Page size in points */
+  pageSize: { width: number; height: number }
+}
+
+/**
+ * A document to recognize, opened once and rendered page by page
+ */
+export interface OcrSource {
+  kind: OcrFileKind
+  pageCount: number
+  renderPage: (pageNumber: number) => Promise<RenderedPage>
+  /** Whether the page already has text, images always need recognition */
+  getPageContent: (pageNumber: number) => Promise<PageContent>
+  destroy: () => Promise<void>
+}
+
+/** File types accepted by the OCR file picker */
+export const OCR_FILE_ACCEPT =
+  'application/pdf,image/png,image/jpeg,image/tiff,.pdf,.png,.jpg,.jpeg,.tif,.tiff'
+
+/**
+ * Files dropped from a folder may come without a MIME type, so the extension
+ * is checked as well
+ */
+export function getOcrFileKind(file: File): OcrFileKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf'
+  if (file.type === 'image/tiff' || ['tif', 'tiff'].includes(extension)) {
+    return 'tiff'
+  }
+  if (
+    ['image/png', 'image/jpeg'].includes(file.type) ||
+    ['png', 'jpg', 'jpeg'].includes(extension)
+  ) {
+    return 'image'
+  }
+  return null
+}
+
+const imageContent: PageContent = {
+  kind: 'image',
+  imageCoverage: 1,
+  text: null,
+}
+
+function toPoints(pixels: number, dpi: number): number {
+  return (pixels * 72) / dpi
+}
+
+/**
+ * Pages are rendered and their text layer is read in a worker, which reads
+ * the file in ranges
+ */
+async function openPdfSource(file: File): Promise<OcrSource> {
+  const renderer = await openPageRenderer(file)
+
+  return {
+    kind: 'pdf',
+    pageCount: renderer.pageCount,
+    renderPage: async (pageNumber) => {
+      const { bitmap, width, height } = await renderer.renderPage(pageNumber, {
+        scale: RENDER_SCALE,
+      })
+      const canvas = createCanvas(bitmap.width, bitmap.height)
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+      bitmap.close()
+
+      return {
+        canvas,
+        pageSize: {
+          width: width / RENDER_SCALE,
+          height: height / RENDER_SCALE,
+        },
+      }
+    },
+    getPageContent: async (pageNumber) => {
+      const { text, imageCoverage } = await renderer.analyzePage(pageNumber)
+      return getPageContent(text, imageCoverage)
+    },
+    destroy: () => {
+      renderer.destroy()
+      return Promise.resolve()
+    },
+  }
+}
+
+async function openImageSource(file: File): Promise<OcrSource> {
+  // Applies the EXIF orientation, so photos come out the way they are shown
+  const bitmap = await createImageBitmap(file)
+
+  return {
+    kind: 'image',
+    pageCount: 1,
+    renderPage: () => {
+      const canvas = createCanvas(bitmap.width, bitmap.height)
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+      return Promise.resolve({
+        canvas,
+        pageSize: {
+          width: toPoints(bitmap.width, DEFAULT_IMAGE_DPI),
+          height: toPoints(bitmap.height, DEFAULT_IMAGE_DPI),
+        },
+      })
+    },
+    getPageContent: () => Promise.resolve(imageContent),
+    destroy: () => {
+      bitmap.close()
+      return Promise.resolve()
+    },
+  }
+}
+
+function getTiffTag(ifd: UTIF.IFD, tag: string): number | undefined {
+  return (ifd[tag] as Array<number> | undefined)?.[0]
+}
+
+/** Resolution from the XResolution, YResolution and ResolutionUnit tags */
+function getTiffDpi(ifd: UTIF.IFD): { x: number; y: number } {
+  // 1 is no absolute unit, 2 inch (the default), 3 centimeter
+  const unit = getTiffTag(ifd, 't296') ?? 2
+  const toDpi = (resolution: number | undefined) => {
+    if (!resolution || unit === 1) return DEFAULT_IMAGE_DPI
+    return unit === 3 ? resolution * 2.54 : resolution
+  }
+  return {
+    x: toDpi(getTiffTag(ifd, 't282')),
+    y: toDpi(getTiffTag(ifd, 't283')),
+  }
+}
+
+/**
+ * Multi-page TIFF. Browsers cannot decode TIFF, so each page is decoded on
+ * request and not kept around.
+ */
+async function openTiffSource(file: File): Promise<OcrSource> {
+  const buffer = await file.arrayBuffer()
+  const ifds = UTIF.decode(buffer).filter(
+    (ifd) => getTiffTag(ifd, 't256') && getTiffTag(ifd, 't257'),
+  )
+  if (ifds.length === 0) throw new Error(`${file.name} contains no images`)
+
+  return {
+    kind: 'tiff',
+    pageCount: ifds.length,
+    renderPage: (pageNumber) => {
+      const ifd = { ...ifds[pageNumber - 1] }
+      UTIF.decodeImage(buffer, ifd)
+      const rgba = UTIF.toRGBA8(ifd)
+
+      const canvas = createCanvas(ifd.width, ifd.height)
+      canvas
+        .getContext('2d')!
+        .putImageData(
+          new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height),
+          0,
+          0,
+        )
+
+      const dpi = getTiffDpi(ifd)
+      return Promise.resolve({
+        canvas,
+        pageSize: {
+          width: toPoints(ifd.width, dpi.x),
+          height: toPoints(ifd.height, dpi.y),
+        },
+      })
+    },
+    getPageContent: () => Promise.resolve(imageContent),
+    destroy: () => Promise.resolve(),
+  }
+}
+
+export async function openOcrSource(file: File): Promise<OcrSource> {
+  switch (getOcrFileKind(file)) {
+    case 'pdf':
+      return openPdfSource(file)
+    case 'image':
+      return openImageSource(file)
+    case 'tiff':
+      return openTiffSource(file)
+    case null:
+      throw new Error(`${file.name} is not a PDF, PNG, JPG or TIFF file`)
+  }
+}
+
+function canvasToBytes(
+  canvas: HTMLCanvasElement,
+  type: 'image/png' | 'image/jpeg',
+): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob.arrayBuffer())
+        else reject(new Error('Failed to encode page image'))
+      },
+      type,
+      0.92,
+    )
+  })
+}
+
+/**
+ * The file as a PDF to add a text layer to. PDFs are returned as they are,
+ * images become one page per image at the size used for recognition. The
+ * text layer is added with pdf-lib, so the whole PDF is held in memory.
+ */
+export async function getOcrBasePdf(
+  file: File,
+): Promise<ArrayBuffer | Uint8Array> {
+  if (getOcrFileKind(file) === 'pdf') return file.arrayBuffer()
+
+  const source = await openOcrSource(file)
+  try {
+    const pdfDoc = await PDFDocument.create()
+    for (let pageNumber = 1; pageNumber <= source.pageCount; pageNumber++) {
+      const { canvas, pageSize } = await source.renderPage(pageNumber)
+      // JPEG stays JPEG, scans and screenshots are kept lossless
+      const image =
+        file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name)
+          ? await pdfDoc.embedJpg(await canvasToBytes(canvas, 'image/jpeg'))
+          : await pdfDoc.embedPng(await canvasToBytes(canvas, 'image/png'))
+
+      const page = pdfDoc.addPage([pageSize.width, pageSize.height])
+      page.drawImage(image, {
+        x: 0,
+        y: 0,
+        width: pageSize.width,
+        height: pageSize.height,
+      })
+    }
+    return await pdfDoc.save()
+  } finally {
+    await source.destroy()
+  }
+}
@@ -0,0 +1,324 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import type {
+  OcrBlock,
+  OcrLine,
+  OcrPageResult,
+  OcrParagraph,
+  OcrRegion,
+  OcrWord,
+} from '@/lib/ocr-helper'
+import type { Rect } from '@/lib/pdf-page-geometry'
+import type {
+  PageTextLayout,
+  TextLine,
+  TextParagraph,
+} from '@/lib/pdf-text-layout'
+
+type OperatorList = Awaited<
+  ReturnType<pdfjsLib.PDFPageProxy['getOperatorList']>
+>
+
+/**
+ * What a page is made of. `text` pages are born-digital, `image` pages are
+ * scans without a text layer and `mixed` pages have both text and a large
+ * image, like a scan that was OCRed before.
+ */
+export type PageContentKind = 'text' | 'image' | 'mixed'
+
+export interface PageContent {
+  kind: PageContentKind
+  /** Share of the page covered by images, 0 to 1 */
+  imageCoverage: number
+  /** The page's own text, null when it has none */
+  text: PageTextLayout | null
+}
+
+/** Smaller images, like logos, do not make a page mixed */
+const MIXED_IMAGE_COVERAGE = 0.25
+
+const { OPS, Util } = pdfjsLib
+
+const IMAGE_OPS = new Set<number>([
+  OPS.paintImageXObject,
+  OPS.paintImageXObjectRepeat,
+  OPS.paintInlineImageXObject,
+  OPS.paintInlineImageXObjectGroup,
+  OPS.paintImageMaskXObject,
+  OPS.paintImageMaskXObjectGroup,
+  OPS.paintImageMaskXObjectRepeat,
+  OPS.paintSolidColorImageMask,
+])
+
+/**
+ * Bounding boxes, as `[x0, y0, x1, y1]`, of the images a page paints.
+ * Images are painted into the unit square of the current transformation
+ * matrix, so their area follows from following `cm`, `q` and `Q` through
+ * the operator list, starting from `matrix`.
+ */
+function getImageBoxes(
+  operatorList: OperatorList,
+  initialMatrix: Array<number>,
+): Array<Array<number>> {
+  let matrix = initialMatrix
+  const stack: Array<Array<number>> = []
+  const boxes: Array<Array<number>> = []
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index] as Array<unknown> | null
+    switch (fn) {
+      case OPS.save:
+        stack.push(matrix)
+        break
+      case OPS.restore:
+        matrix = stack.pop() ?? matrix
+        break
+      case OPS.transform:
+        matrix = Util.transform(matrix, args)
+        break
+      case OPS.paintFormXObjectBegin:
+        stack.push(matrix)
+        if (args?.[0]) matrix = Util.transform(matrix, args[0])
+        break
+      case OPS.paintFormXObjectEnd:
+        matrix = stack.pop() ?? matrix
+        break
+      default: {
+        if (!IMAGE_OPS.has(fn)) break
+        const box = [Infinity, Infinity, -Infinity, -Infinity]
+        Util.axialAlignedBoundingBox([0, 0, 1, 1], matrix, box)
+        boxes.push(box)
+      }
+    }
+  })
+
+  return boxes
+}
+
+/** Share of the page covered by images, 0 to 1 */
+export function getImageCoverage(
+  operatorList: OperatorList,
+  view: Array<number>,
+): number {
+  const [left, bottom, right, top] = view
+  const pageArea = (right - left) * (top - bottom)
+  if (pageArea <= 0) return 0
+
+  let covered = 0
+  for (const box of getImageBoxes(operatorList, [1, 0, 0, 1, 0, 0])) {
+    const width = Math.min(box[2], right) - Math.max(box[0], left)
+    const height = Math.min(box[3], top) - Math.max(box[1], bottom)
+    if (width > 0 && height > 0) covered += width * height
+  }
+
+  return Math.min(covered / pageArea, 1)
+}
+
+/**
+ * Areas of the page covered by images, in the coordinates of the viewport.
+ * Overlapping images are joined into one area.
+ */
+export function getImageAreas(
+  operatorList: OperatorList,
+  viewport: pdfjsLib.PageViewport,
+): Array<Rect> {
+  const areas: Array<Array<number>> = []
+  for (const image of getImageBoxes(operatorList, viewport.transform)) {
+    let box = [
+      Math.max(image[0], 0),
+      Math.max(image[1], 0),
+      Math.min(image[2], viewport.width),
+      Math.min(image[3], viewport.height),
+    ]
+    if (box[2] <= box[0] || box[3] <= box[1]) continue
+
+    // Joining two areas can make them overlap a third one
+    for (let i = areas.length - 1; i >= 0; i--) {
+      const area = areas[i]
+      if (
+        area[0] < box[2] &&
+        box[0] < area[2] &&
+        area[1] < box[3] &&
+        box[1] < area[3]
+      ) {
+        box = [
+          Math.min(area[0], box[0]),
+          Math.min(area[1], box[1]),
+          Math.max(area[2], box[2]),
+          Math.max(area[3], box[3]),
+        ]
+        areas.splice(i, 1)
+        i = areas.length
+      }
+    }
+    areas.push(box)
+  }
+
+  return areas.map(([x0, y0, x1, y1]) => ({
+    x: x0,
+    y: y0,
+    width: x1 - x0,
+    height: y1 - y0,
+  }))
+}
+
+/**
+ * Classifies a PDF page by its text content and the images it paints
+ */
+export function getPageContent(
+  text: PageTextLayout,
+  imageCoverage: number,
+): PageContent {
+  if (text.lines.length === 0) {
+    return { kind: 'image', imageCoverage, text: null }
+  }
+  return {
+    kind: imageCoverage >= MIXED_IMAGE_COVERAGE ? 'mixed' : 'text',
+    imageCoverage,
+    text,
+  }
+}
+
+/**
+ * Splits a line into words with boxes. Character widths are spread evenly
+ * over each text item, and a word continues into the next item when there is
+ * no gap between them.
+ */
+function getLineWords(line: TextLine): Array<OcrWord> {
+  const words: Array<OcrWord> = []
+  let previousEnd: number | null = null
+
+  for (const item of line.items) {
+    const charWidth = item.width / Math.max(item.text.length, 1)
+    const top = item.y - item.fontSize
+    const bottom = item.y + item.fontSize * 0.2
+    const joinsPrevious =
+      previousEnd !== null &&
+      item.x - previousEnd < item.fontSize * 0.2 &&
+      !/^\s/.test(item.text)
+
+    for (const match of item.text.matchAll(/\S+/g)) {
+      const x0 = item.x + match.index * charWidth
+      const x1 = x0 + match[0].length * charWidth
+      const last = words.at(-1)
+      if (match.index === 0 && joinsPrevious && last) {
+        last.text += match[0]
+        last.bbox.x1 = x1
+        last.bbox.y0 = Math.min(last.bbox.y0, top)
+        last.bbox.y1 = Math.max(last.bbox.y1, bottom)
+        continue
+      }
+      words.push({
+        text: match[0],
+        confidence: 100,
+        bbox: { x0, y0: top, x1, y1: bottom },
+      })
+    }
+    previousEnd = /\s$/.test(item.text) ? null : item.x + item.width
+  }
+
+  return words
+}
+
+function toOcrLine(line: TextLine): OcrLine {
+  return {
+    bbox: {
+      x0: line.x,
+      y0: line.y,
+      x1: line.x + line.width,
+      y1: line.y + line.height,
+    },
+    baseline: {
+      x0: line.x,
+      y0: line.baseline,
+      x1: line.x + line.width,
+      y1: line.baseline,
+    },
+    confidence: 100,
+    words: getLineWords(line),
+  }
+}
+
+function toOcrParagraph(
+  paragraph: TextParagraph,
+  lines: Array<TextLine>,
+): OcrParagraph {
+  return {
+    bbox: {
+      x0: paragraph.x,
+      y0: paragraph.y,
+      x1: paragraph.x + paragraph.width,
+      y1: paragraph.y + paragraph.height,
+    },
+    confidence: 100,
+    lines: lines.map(toOcrLine),
+  }
+}
+
+function isInRegion(
+  line: TextLine,
+  region: OcrRegion,
+  layout: PageTextLayout,
+): boolean {
+  const x = (line.x + line.width / 2) / layout.width
+  const y = (line.y + line.height / 2) / layout.height
+  return (
+    x >= region.x &&
+    x <= region.x + region.width &&
+    y >= region.y &&
+    y <= region.y + region.height
+  )
+}
+
+/**
+ * The page's own text in the shape of an OCR result, so proofreading and
+ * every export treat it like recognized text. Boxes are in points, the
+ * "image" being the page at scale 1. With regions, only lines centered in a
+ * region are kept, one block per region.
+ */
+export function toTextLayerResult(
+  layout: PageTextLayout,
+  pageNumber: number,
+  regions: Array<OcrRegion> = [],
+): OcrPageResult {
+  const blocks: Array<OcrBlock> =
+    regions.length === 0
+      ? layout.paragraphs.map((paragraph) => {
+          const ocrParagraph = toOcrParagraph(paragraph, paragraph.lines)
+          return {
+            bbox: ocrParagraph.bbox,
+            confidence: 100,
+            paragraphs: [ocrParagraph],
+          }
+        })
+      : regions.map((region) => ({
+          bbox: {
+            x0: region.x * layout.width,
+            y0: region.y * layout.height,
+            x1: (region.x + region.width) * layout.width,
+            y1: (region.y + region.height) * layout.height,
+          },
+          confidence: 100,
+          region: region.label,
+          paragraphs: layout.paragraphs
+            .map((paragraph) => ({
+              paragraph,
+              lines: paragraph.lines.filter((line) =>
+                isInRegion(line, region, layout),
+              ),
+            }))
+            .filter(({ lines }) => lines.length > 0)
+            .map(({ paragraph, lines }) => toOcrParagraph(paragraph, lines)),
+        }))
+
+  return {
+    pageNumber,
+    imageWidth: layout.width,
+    imageHeight: layout.height,
+    width: layout.width,
+    height: layout.height,
+    rotation: 0,
+    confidence: 100,
+    textLayer: true,
+    blocks,
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Parses a page selection like `3-7, 12` into sorted, unique page numbers.
+ * Open ranges (`5-`, `-3`) run to the last or from the first page. An empty
+ * input selects every page.
+ */
+export function parsePageRange(
+  input: string,
+  pageCount: number,
+): Array<number> {
+  const trimmed = input.trim()
+  if (!trimmed) return Array.from({ length: pageCount }, (_, i) => i + 1)
+
+  const pages = new Set<number>()
+  for (const part of trimmed.split(',')) {
+    const token = part.trim()
+    if (!token) continue
+
+    const match = /^(\d*)\s*(?:-\s*(\d*))?$/.exec(token)
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`"${token}" is not a page or page range`)
+    }
+
+    const isRange = token.includes('-')
+    const start = match[1] ? Number(match[1]) : 1
+    const end = isRange ? (match[2] ? Number(match[2]) : pageCount) : start
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(
+        `Pages "${token}" are outside the document (1-${pageCount})`,
+      )
+    }
+    for (let page = start; page <= end; page++) pages.add(page)
+  }
+
+  if (pages.size === 0) throw new Error('No pages selected')
+  return [...pages].sort((a, b) => a - b)
+}
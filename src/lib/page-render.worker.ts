@@ -0,0 +1,374 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import type {
+  PDFDocumentLoadingTask,
+  PDFDocumentProxy,
+  RenderTask,
+} from 'pdfjs-dist'
+import type { ColorMode } from '@/lib/color-mode'
+import type { Rect } from '@/lib/pdf-page-geometry'
+import type { PageTextLayout } from '@/lib/pdf-text-layout'
+import type { RulingLine } from '@/lib/table-detection'
+import { applyColorMode } from '@/lib/color-mode'
+import { getImageAreas, getImageCoverage } from '@/lib/ocr-text-layer'
+import { extractPageText } from '@/lib/pdf-text-layout'
+import { extractRulingLines } from '@/lib/table-detection'
+import { getErrorMessage } from '@/lib/utils'
+
+// pdf.js cannot start a worker of its own here, it loads this script into
+// the render worker and parses the PDF next to the rendering
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf-js/pdf.worker.mjs'
+
+/**
+ * Bytes read from a file at a time, pdf.js only asks for the parts it needs.
+ * Small chunks keep the bytes counted for each page close to its own size.
+ */
+const RANGE_CHUNK_SIZE = 64 * 1024
+
+export interface RenderOptions {
+  /** 1 renders at 72 DPI */
+  scale: number
+  colorMode?: ColorMode
+  /** Part of the page to render, the whole page by default */
+  area?: Rect
+}
+
+export interface EncodeOptions extends RenderOptions {
+  type: 'image/png' | 'image/jpeg'
+  /** JPEG quality between 0 and 1 */
+  quality?: number
+}
+
+/** What a page holds, read without rendering it. Sizes are in points. */
+export interface PageAnalysis {
+  text: PageTextLayout
+  /** Share of the page covered by images, 0 to 1 */
+  imageCoverage: number
+  /** Areas covered by images, overlapping ones joined */
+  images: Array<Rect>
+  /** Lines drawn on the page, which may outline table cells */
+  rules: Array<RulingLine>
+}
+
+export type RenderCommand =
+  /** Files are read in ranges, buffers are taken over */
+  | { type: 'open'; data: ArrayBuffer | Blob }
+  | { type: 'render'; pageNumber: number; options: RenderOptions }
+  | { type: 'encode'; pageNumbers: Array<number>; options: EncodeOptions }
+  | { type: 'analyze'; pageNumber: number }
+  /** Stops the request with the same id, its pending replies are dropped */
+  | { type: 'cancel' }
+
+export type RenderRequest = RenderCommand & { id: number }
+
+/** Sizes are in pixels of the rendered page */
+export type RenderResponse = { id: number } & (
+  | { type: 'opened'; pageCount: number }
+  | { type: 'rendered'; bitmap: ImageBitmap; width: number; height: number }
+  | {
+      type: 'page'
+      pageNumber: number
+      bytes: ArrayBuffer
+      width: number
+      height: number
+      /**
+       * File bytes first read to render the page, null when the file was
+       * passed as a buffer. Parts shared with earlier pages are not counted.
+       */
+      sourceBytes: number | null
+    }
+  | { type: 'page-error'; pageNumber: number; message: string }
+  | { type: 'analyzed'; analysis: PageAnalysis }
+  | { type: 'done' }
+  | { type: 'error'; message: string }
+)
+
+/** pdf.js creates scratch canvases for patterns and soft masks */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height)
+    return {
+      canvas,
+      context: canvas.getContext('2d', { willReadFrequently: true }),
+    }
+  }
+
+  reset(
+    canvasAndContext: { canvas: OffscreenCanvas },
+    width: number,
+    height: number,
+  ) {
+    canvasAndContext.canvas.width = width
+    canvasAndContext.canvas.height = height
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas }) {
+    canvasAndContext.canvas.width = 0
+    canvasAndContext.canvas.height = 0
+  }
+}
+
+/**
+ * The default factory builds SVG filters in the document. Without them
+ * transfer functions and luminosity masks are skipped, which only shifts
+ * colors on the few pages that use them.
+ */
+class NoFilterFactory {
+  addFilter() {
+    return 'none'
+  }
+
+  addHCMFilter() {
+    return 'none'
+  }
+
+  addAlphaFilter() {
+    return 'none'
+  }
+
+  addLuminosityFilter() {
+    return 'none'
+  }
+
+  addHighlightHCMFilter() {
+    return 'none'
+  }
+
+  destroy() {}
+}
+
+/**
+ * Hands pdf.js the byte ranges it asks for straight from the file, so large
+ * files are never read into memory as a whole. pdf.js cannot be told that a
+ * range failed, it would wait for it forever.
+ */
+class BlobRangeTransport extends pdfjsLib.PDFDataRangeTransport {
+  readonly blob: Blob
+  readonly onReadError: (error: unknown) => void
+  bytesRead = 0
+
+  constructor(blob: Blob, onReadError: (error: unknown) => void) {
+    super(blob.size, null)
+    this.blob = blob
+    this.onReadError = onReadError
+  }
+
+  requestDataRange(begin: number, end: number) {
+    this.blob
+      .slice(begin, end)
+      .arrayBuffer()
+      .then((chunk) => {
+        this.bytesRead += chunk.byteLength
+        this.onDataRange(begin, new Uint8Array(chunk))
+      })
+      .catch(this.onReadError)
+  }
+}
+
+let loadingTask: PDFDocumentLoadingTask | null = null
+let transport: BlobRangeTransport | null = null
+let pdf: PDFDocumentProxy | null = null
+/** Set once the file could not be read, the document is closed then */
+let readError: string | null = null
+/** Requests that have not finished, apart from cancels */
+const activeRequests = new Set<number>()
+const renderTasks = new Map<number, RenderTask>()
+const cancelled = new Set<number>()
+
+function post(response: RenderResponse, transfer: Array<Transferable> = []) {
+  self.postMessage(response, { transfer })
+}
+
+/**
+ * Fails every request waiting on the file and closes the document, as the
+ * ranges pdf.js waits for will never arrive
+ */
+function failReading(error: unknown) {
+  if (readError) return
+  readError = `Could not read the file: ${getErrorMessage(error)}`
+  for (const id of activeRequests) {
+    cancelled.add(id)
+    renderTasks.get(id)?.cancel()
+    post({ type: 'error', id, message: readError })
+  }
+  pdf = null
+  void loadingTask?.destroy()
+}
+
+async function openDocument(data: ArrayBuffer | Blob): Promise<number> {
+  const source =
+    data instanceof Blob
+      ? {
+          range: new BlobRangeTransport(data, failReading),
+          rangeChunkSize: RANGE_CHUNK_SIZE,
+          disableAutoFetch: true,
+        }
+      : { data }
+  transport = source.range ?? null
+  loadingTask = pdfjsLib.getDocument({
+    ...source,
+    // Glyphs are drawn as paths, font faces need a document
+    disableFontFace: true,
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoFilterFactory,
+  })
+  pdf = await loadingTask.promise
+  return pdf.numPages
+}
+
+function getPage(pageNumber: number) {
+  if (readError) throw new Error(readError)
+  if (!pdf) throw new Error('No document is open')
+  return pdf.getPage(pageNumber)
+}
+
+async function renderPage(
+  id: number,
+  pageNumber: number,
+  options: RenderOptions,
+): Promise<{ canvas: OffscreenCanvas; width: number; height: number }> {
+  const page = await getPage(pageNumber)
+  try {
+    const { scale, area } = options
+    const viewport = page.getViewport({
+      scale,
+      offsetX: area ? -area.x * scale : 0,
+      offsetY: area ? -area.y * scale : 0,
+    })
+    const width = area ? Math.ceil(area.width * scale) : viewport.width
+    const height = area ? Math.ceil(area.height * scale) : viewport.height
+    const canvas = new OffscreenCanvas(width, height)
+
+    // pdf.js only calls getContext on the canvas, which both canvases have
+    const renderTask = page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      viewport,
+    })
+    renderTasks.set(id, renderTask)
+    try {
+      await renderTask.promise
+    } finally {
+      renderTasks.delete(id)
+    }
+
+    if (options.colorMode && options.colorMode !== 'color') {
+      const context = canvas.getContext('2d')!
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
+      applyColorMode(imageData, options.colorMode)
+      context.putImageData(imageData, 0, 0)
+    }
+
+    return { canvas, width, height }
+  } finally {
+    page.cleanup()
+  }
+}
+
+async function analyzePage(pageNumber: number): Promise<PageAnalysis> {
+  const page = await getPage(pageNumber)
+  try {
+    const operatorList = await page.getOperatorList()
+    const viewport = page.getViewport({ scale: 1 })
+    return {
+      text: await extractPageText(page),
+      imageCoverage: getImageCoverage(operatorList, page.view),
+      images: getImageAreas(operatorList, viewport),
+      rules: extractRulingLines(operatorList, viewport),
+    }
+  } finally {
+    page.cleanup()
+  }
+}
+
+/**
+ * Renders and encodes the pages in order, one message per page. A page that
+ * fails is reported and the next one is rendered.
+ */
+async function encodePages(
+  id: number,
+  pageNumbers: Array<number>,
+  options: EncodeOptions,
+) {
+  for (const pageNumber of pageNumbers) {
+    if (cancelled.has(id)) return
+    try {
+      // Counted while other requests render too, which only shifts bytes
+      // between pages
+      const readBefore = transport?.bytesRead ?? 0
+      const { canvas, width, height } = await renderPage(
+        id,
+        pageNumber,
+        options,
+      )
+      const blob = await canvas.convertToBlob({
+        type: options.type,
+        quality: options.quality,
+      })
+      const bytes = await blob.arrayBuffer()
+      const sourceBytes = transport ? transport.bytesRead - readBefore : null
+      post(
+        { type: 'page', id, pageNumber, bytes, width, height, sourceBytes },
+        [bytes],
+      )
+    } catch (error) {
+      if (cancelled.has(id)) return
+      post({
+        type: 'page-error',
+        id,
+        pageNumber,
+        message: getErrorMessage(error),
+      })
+    }
+  }
+  // Fonts and images decoded for these pages are dropped, unless another
+  // request is still rendering
+  if (renderTasks.size === 0) await pdf?.cleanup()
+  post({ type: 'done', id })
+}
+
+async function handleRequest(request: RenderRequest) {
+  switch (request.type) {
+    case 'open': {
+      const pageCount = await openDocument(request.data)
+      post({ type: 'opened', id: request.id, pageCount })
+      return
+    }
+    case 'render': {
+      const { canvas, width, height } = await renderPage(
+        request.id,
+        request.pageNumber,
+        request.options,
+      )
+      const bitmap = canvas.transferToImageBitmap()
+      post({ type: 'rendered', id: request.id, bitmap, width, height }, [
+        bitmap,
+      ])
+      return
+    }
+    case 'encode':
+      await encodePages(request.id, request.pageNumbers, request.options)
+      return
+    case 'analyze': {
+      const analysis = await analyzePage(request.pageNumber)
+      post({ type: 'analyzed', id: request.id, analysis })
+      return
+    }
+    case 'cancel':
+      cancelled.add(request.id)
+      renderTasks.get(request.id)?.cancel()
+  }
+}
+
+self.onmessage = (event: MessageEvent<RenderRequest>) => {
+  const request = event.data
+  if (request.type !== 'cancel') activeRequests.add(request.id)
+  handleRequest(request)
+    .catch((error: unknown) => {
+      if (cancelled.has(request.id)) return
+      post({ type: 'error', id: request.id, message: getErrorMessage(error) })
+    })
+    .finally(() => {
+      if (request.type === 'cancel') return
+      activeRequests.delete(request.id)
+      cancelled.delete(request.id)
+    })
+}
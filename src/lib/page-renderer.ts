@@ -0,0 +1,274 @@
+import type {
+  EncodeOptions,
+  PageAnalysis,
+  RenderCommand,
+  RenderOptions,
+  RenderResponse,
+} from '@/lib/page-render.worker'
+
+export type {
+  EncodeOptions,
+  PageAnalysis,
+  RenderOptions,
+} from '@/lib/page-render.worker'
+
+export interface EncodedPage {
+  bytes: Uint8Array<ArrayBuffer>
+  /** Size in pixels */
+  width: number
+  height: number
+  /** File bytes first read to render the page, null for buffers */
+  sourceBytes: number | null
+}
+
+export type EncodedPageResult =
+  | { pageNumber: number; image: EncodedPage; error?: undefined }
+  | { pageNumber: number; image?: undefined; error: string }
+
+/**
+ * A PDF opened in a dedicated worker, which renders and encodes its pages
+ * on an OffscreenCanvas so the page stays responsive. Aborting the signal
+ * of a request cancels it in the worker.
+ */
+export interface PageRenderer {
+  pageCount: number
+  renderPage: (
+    pageNumber: number,
+    options: RenderOptions,
+    signal?: AbortSignal,
+  ) => Promise<{ bitmap: ImageBitmap; width: number; height: number }>
+  /** Pages arrive one by one, in order, while the next ones are rendered */
+  encodePages: (
+    pageNumbers: Array<number>,
+    options: EncodeOptions,
+    signal?: AbortSignal,
+  ) => AsyncGenerator<EncodedPageResult>
+  encodePage: (
+    pageNumber: number,
+    options: EncodeOptions,
+    signal?: AbortSignal,
+  ) => Promise<EncodedPage>
+  /** Text, image coverage and drawn lines of a page, read in the worker */
+  analyzePage: (
+    pageNumber: number,
+    signal?: AbortSignal,
+  ) => Promise<PageAnalysis>
+  destroy: () => void
+}
+
+/**
+ * Replies to one request in the order they arrive, until it fails
+ */
+interface Channel {
+  push: (response: RenderResponse) => void
+  fail: (reason: unknown) => void
+  next: () => Promise<RenderResponse>
+}
+
+function createChannel(): Channel {
+  const queue: Array<RenderResponse> = []
+  let waiting: {
+    resolve: (response: RenderResponse) => void
+    reject: (reason: unknown) => void
+  } | null = null
+  let failure: { reason: unknown } | null = null
+
+  return {
+    push: (response) => {
+      if (waiting) waiting.resolve(response)
+      else queue.push(response)
+      waiting = null
+    },
+    fail: (reason) => {
+      failure ??= { reason }
+      waiting?.reject(reason)
+      waiting = null
+    },
+    next: () => {
+      const response = queue.shift()
+      if (response) return Promise.resolve(response)
+      if (failure) return Promise.reject(failure.reason)
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject }
+      })
+    },
+  }
+}
+
+/**
+ * Files are read by the worker in ranges as pages need them, buffers are
+ * copied to it
+ */
+export async function openPageRenderer(
+  data: Blob | ArrayBuffer | Uint8Array,
+): Promise<PageRenderer> {
+  const worker = new Worker(
+    new URL('./page-render.worker.ts', import.meta.url),
+    { type: 'module' },
+  )
+  const channels = new Map<number, Channel>()
+  let nextId = 0
+  let failure: Error | null = null
+
+  const failAll = (error: Error) => {
+    failure = error
+    channels.forEach((channel) => channel.fail(error))
+  }
+
+  worker.onmessage = (event: MessageEvent<RenderResponse>) => {
+    channels.get(event.data.id)?.push(event.data)
+  }
+  worker.onerror = (event) => {
+    event.preventDefault()
+    failAll(new Error(event.message || 'The page renderer stopped'))
+  }
+
+  const send = (
+    command: RenderCommand,
+    signal?: AbortSignal,
+    transfer: Array<Transferable> = [],
+  ) => {
+    signal?.throwIfAborted()
+    const id = nextId++
+    const channel = createChannel()
+    channels.set(id, channel)
+    if (failure) channel.fail(failure)
+
+    const onAbort = () => {
+      worker.postMessage({ type: 'cancel', id })
+      channel.fail(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    worker.postMessage({ ...command, id }, transfer)
+
+    return {
+      id,
+      /** The next reply, worker errors are thrown */
+      receive: async () => {
+        const response = await channel.next()
+        if (response.type === 'error') throw new Error(response.message)
+        return response
+      },
+      close: () => {
+        channels.delete(id)
+        signal?.removeEventListener('abort', onAbort)
+      },
+    }
+  }
+
+  const unexpected = (response: RenderResponse) =>
+    new Error(`Unexpected ${response.type} reply from the page renderer`)
+
+  // The worker takes over buffers, a file is only passed by reference
+  const source =
+    data instanceof Blob ? data : new Uint8Array(data).slice().buffer
+  const open = send(
+    { type: 'open', data: source },
+    undefined,
+    source instanceof Blob ? [] : [source],
+  )
+  let pageCount: number
+  try {
+    const response = await open.receive()
+    if (response.type !== 'opened') throw unexpected(response)
+    pageCount = response.pageCount
+  } catch (error) {
+    worker.terminate()
+    throw error
+  } finally {
+    open.close()
+  }
+
+  async function* encodePages(
+    pageNumbers: Array<number>,
+    options: EncodeOptions,
+    signal?: AbortSignal,
+  ): AsyncGenerator<EncodedPageResult> {
+    const request = send({ type: 'encode', pageNumbers, options }, signal)
+    let done = false
+    try {
+      while (!done) {
+        const response = await request.receive()
+        switch (response.type) {
+          case 'page':
+            yield {
+              pageNumber: response.pageNumber,
+              image: {
+                bytes: new Uint8Array(response.bytes),
+                width: response.width,
+                height: response.height,
+                sourceBytes: response.sourceBytes,
+              },
+            }
+            break
+          case 'page-error':
+            yield { pageNumber: response.pageNumber, error: response.message }
+            break
+          case 'done':
+            done = true
+            break
+          default:
+            throw unexpected(response)
+        }
+      }
+    } finally {
+      // Stopped early by the caller, the worker need not go on
+      if (!done) worker.postMessage({ type: 'cancel', id: request.id })
+      request.close()
+    }
+  }
+
+  return {
+    pageCount,
+    renderPage: async (pageNumber, options, signal) => {
+      const request = send({ type: 'render', pageNumber, options }, signal)
+      try {
+        const response = await request.receive()
+        if (response.type !== 'rendered') throw unexpected(response)
+        return {
+          bitmap: response.bitmap,
+          width: response.width,
+          height: response.height,
+        }
+      } finally {
+        request.close()
+      }
+    },
+    encodePages,
+    encodePage: async (pageNumber, options, signal) => {
+      for await (const result of encodePages([pageNumber], options, signal)) {
+        if (result.image) return result.image
+        throw new Error(result.error)
+      }
+      throw new Error(`Page ${pageNumber} was not rendered`)
+    },
+    analyzePage: async (pageNumber, signal) => {
+      const request = send({ type: 'analyze', pageNumber }, signal)
+      try {
+        const response = await request.receive()
+        if (response.type !== 'analyzed') throw unexpected(response)
+        return response.analysis
+      } finally {
+        request.close()
+      }
+    },
+    destroy: () => {
+      worker.terminate()
+      failAll(new Error('The page renderer was closed'))
+    },
+  }
+}
+
+/** Data URL of encoded image bytes, for showing them in an image element */
+export function toDataUrl(
+  bytes: Uint8Array<ArrayBuffer>,
+  type: string,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () =>
+      reject(reader.error ?? new Error('Failed to read the image'))
+    reader.readAsDataURL(new Blob([bytes], { type }))
+  })
+}
@@ -0,0 +1,526 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib'
+import type { PDFContext, PDFObject } from 'pdf-lib'
+
+export interface MergeSource {
+  /** Title of the bookmark leading to the source's pages */
+  name: string
+  /** Only called when pages are taken from the source */
+  load: () => Promise<PDFDocument>
+}
+
+/** A page of the merged document, by the source it is taken from */
+export interface SourcePage {
+  /** Index into the sources */
+  source: number
+  pageNumber: number
+}
+
+/** A place in a source document */
+interface Destination {
+  pageIndex: number
+  /** How the page is shown, like `/XYZ 0 792 null` */
+  view: Array<PDFObject>
+}
+
+interface OutlineItem {
+  title: string
+  destination: Destination | null
+  open: boolean
+  children: Array<OutlineItem>
+}
+
+/** An outline item as written to the merged document */
+interface OutlineEntry {
+  title: string
+  target: { pageRef: PDFRef; view: Array<PDFObject> } | null
+  open: boolean
+  children: Array<OutlineEntry>
+}
+
+const KEYS = {
+  A: PDFName.of('A'),
+  AcroForm: PDFName.of('AcroForm'),
+  Annots: PDFName.of('Annots'),
+  Count: PDFName.of('Count'),
+  D: PDFName.of('D'),
+  DA: PDFName.of('DA'),
+  DR: PDFName.of('DR'),
+  Dest: PDFName.of('Dest'),
+  Dests: PDFName.of('Dests'),
+  Fields: PDFName.of('Fields'),
+  First: PDFName.of('First'),
+  Font: PDFName.of('Font'),
+  Kids: PDFName.of('Kids'),
+  Last: PDFName.of('Last'),
+  Names: PDFName.of('Names'),
+  NeedAppearances: PDFName.of('NeedAppearances'),
+  Next: PDFName.of('Next'),
+  Outlines: PDFName.of('Outlines'),
+  PageMode: PDFName.of('PageMode'),
+  Parent: PDFName.of('Parent'),
+  Prev: PDFName.of('Prev'),
+  S: PDFName.of('S'),
+  Subtype: PDFName.of('Subtype'),
+  T: PDFName.of('T'),
+  Title: PDFName.of('Title'),
+}
+
+/** Name trees and outlines deeper than this are not followed */
+const MAX_DEPTH = 32
+
+function lookupDict(
+  context: PDFContext,
+  object: PDFObject | undefined,
+): PDFDict | undefined {
+  const value = object && context.lookup(object)
+  return value instanceof PDFDict ? value : undefined
+}
+
+function lookupArray(
+  context: PDFContext,
+  object: PDFObject | undefined,
+): PDFArray | undefined {
+  const value = object && context.lookup(object)
+  return value instanceof PDFArray ? value : undefined
+}
+
+function lookupText(
+  context: PDFContext,
+  object: PDFObject | undefined,
+): string | undefined {
+  const value = object && context.lookup(object)
+  return value instanceof PDFString || value instanceof PDFHexString
+    ? value.decodeText()
+    : undefined
+}
+
+/** Named destinations, from the catalog's `Dests` and the `Dests` name tree */
+function collectNamedDestinations(pdf: PDFDocument): Map<string, PDFObject> {
+  const { context, catalog } = pdf
+  const names = new Map<string, PDFObject>()
+
+  const dests = lookupDict(context, catalog.get(KEYS.Dests))
+  dests?.entries().forEach(([key, value]) => names.set(key.decodeText(), value))
+
+  const visit = (node: PDFDict, depth: number) => {
+    if (depth > MAX_DEPTH) return
+    const pairs = lookupArray(context, node.get(KEYS.Names))
+    for (let i = 0; pairs && i + 1 < pairs.size(); i += 2) {
+      const key = lookupText(context, pairs.get(i))
+      if (key !== undefined) names.set(key, pairs.get(i + 1))
+    }
+    lookupArray(context, node.get(KEYS.Kids))
+      ?.asArray()
+      .forEach((kid) => {
+        const kidNode = lookupDict(context, kid)
+        if (kidNode) visit(kidNode, depth + 1)
+      })
+  }
+  const tree = lookupDict(
+    context,
+    lookupDict(context, catalog.get(KEYS.Names))?.get(KEYS.Dests),
+  )
+  if (tree) visit(tree, 0)
+
+  return names
+}
+
+/** The `Dest` of a link or outline item, or the one of its GoTo action */
+function getGoToTarget(
+  context: PDFContext,
+  dict: PDFDict,
+): PDFObject | undefined {
+  const dest = dict.get(KEYS.Dest)
+  if (dest) return dest
+  const action = lookupDict(context, dict.get(KEYS.A))
+  if (action?.get(KEYS.S) === PDFName.of('GoTo')) return action.get(KEYS.D)
+  return undefined
+}
+
+/**
+ * Reads the outline, links and form fields of a source before its pages are
+ * copied, and changes it so only the selected pages are copied:
+ *
+ * - Named destinations of links become explicit ones, the name tree holding
+ *   them is not copied
+ * - Links to pages left out are removed, the copy would follow them and
+ *   bring those pages along
+ * - Widgets of pages left out are removed from their fields for the same
+ *   reason
+ */
+function prepareSource(
+  pdf: PDFDocument,
+  selected: Set<number>,
+): Array<OutlineItem> {
+  const { context, catalog } = pdf
+  const pages = pdf.getPages()
+  const pageIndices = new Map(pages.map((page, index) => [page.ref, index]))
+  const names = collectNamedDestinations(pdf)
+
+  const resolve = (target: PDFObject): Destination | null => {
+    let dest = context.lookup(target)
+    if (
+      dest instanceof PDFName ||
+      dest instanceof PDFString ||
+      dest instanceof PDFHexString
+    ) {
+      const named = names.get(dest.decodeText())
+      dest = named && context.lookup(named)
+    }
+    if (dest instanceof PDFDict) dest = context.lookup(dest.get(KEYS.D))
+    if (!(dest instanceof PDFArray) || dest.size() === 0) return null
+
+    const page = dest.get(0)
+    const pageIndex = page instanceof PDFRef ? pageIndices.get(page) : undefined
+    if (pageIndex === undefined) return null
+    return {
+      pageIndex,
+      view: dest
+        .asArray()
+        .slice(1)
+        .map((item) => {
+          const value = context.lookup(item)
+          return value instanceof PDFName || value instanceof PDFNumber
+            ? value
+            : PDFNull
+        }),
+    }
+  }
+
+  const unplacedWidgets = new Set<PDFRef>()
+  pages.forEach((page, index) => {
+    const annots = lookupArray(context, page.node.get(KEYS.Annots))
+    if (!annots) return
+
+    const kept: Array<PDFObject> = []
+    for (const item of annots.asArray()) {
+      const annot = lookupDict(context, item)
+      const subtype = annot?.get(KEYS.Subtype)
+      if (!selected.has(index)) {
+        if (subtype === PDFName.of('Widget') && item instanceof PDFRef) {
+          unplacedWidgets.add(item)
+        }
+        continue
+      }
+
+      const target =
+        annot && subtype === PDFName.of('Link')
+          ? getGoToTarget(context, annot)
+          : undefined
+      if (annot && target) {
+        const destination = resolve(target)
+        if (!destination || !selected.has(destination.pageIndex)) continue
+        annot.delete(KEYS.A)
+        annot.set(
+          KEYS.Dest,
+          context.obj([pages[destination.pageIndex].ref, ...destination.view]),
+        )
+      }
+      kept.push(item)
+    }
+    if (selected.has(index)) page.node.set(KEYS.Annots, context.obj(kept))
+  })
+
+  const pruneField = (object: PDFObject, depth: number): boolean => {
+    const field = lookupDict(context, object)
+    if (!field || depth > MAX_DEPTH) return false
+    const kids = lookupArray(context, field.get(KEYS.Kids))
+    if (!kids) return !(object instanceof PDFRef && unplacedWidgets.has(object))
+
+    const kept = kids
+      .asArray()
+      .filter(
+        (kid) =>
+          !(kid instanceof PDFRef && unplacedWidgets.has(kid)) &&
+          pruneField(kid, depth + 1),
+      )
+    field.set(KEYS.Kids, context.obj(kept))
+    return kept.length > 0
+  }
+  const acroForm = lookupDict(context, catalog.get(KEYS.AcroForm))
+  lookupArray(context, acroForm?.get(KEYS.Fields))
+    ?.asArray()
+    .forEach((field) => pruneField(field, 0))
+
+  const readOutline = (
+    first: PDFObject | undefined,
+    visited: Set<PDFDict>,
+    depth: number,
+  ): Array<OutlineItem> => {
+    const items: Array<OutlineItem> = []
+    let next = first
+    while (next && depth <= MAX_DEPTH) {
+      const item = lookupDict(context, next)
+      if (!item || visited.has(item)) break
+      visited.add(item)
+
+      const count = context.lookup(item.get(KEYS.Count))
+      const target = getGoToTarget(context, item)
+      items.push({
+        title: lookupText(context, item.get(KEYS.Title)) ?? '',
+        destination: target ? resolve(target) : null,
+        open: count instanceof PDFNumber && count.asNumber() > 0,
+        children: readOutline(item.get(KEYS.First), visited, depth + 1),
+      })
+      next = item.get(KEYS.Next)
+    }
+    return items
+  }
+  const outlines = lookupDict(context, catalog.get(KEYS.Outlines))
+  return readOutline(outlines?.get(KEYS.First), new Set(), 0)
+}
+
+/** Items pointing at pages left out keep their place without a target */
+function toOutlineEntries(
+  items: Array<OutlineItem>,
+  getPageRef: (pageIndex: number) => PDFRef | undefined,
+): Array<OutlineEntry> {
+  return items.flatMap((item) => {
+    const children = toOutlineEntries(item.children, getPageRef)
+    const pageRef = item.destination && getPageRef(item.destination.pageIndex)
+    if (!pageRef && children.length === 0) return []
+    return [
+      {
+        title: item.title,
+        target:
+          item.destination && pageRef
+            ? { pageRef, view: item.destination.view }
+            : null,
+        open: item.open,
+        children,
+      },
+    ]
+  })
+}
+
+/** Writes the entries under the parent, returns how many of them are shown */
+function writeOutlineEntries(
+  context: PDFContext,
+  parent: PDFDict,
+  parentRef: PDFRef,
+  entries: Array<OutlineEntry>,
+): number {
+  const refs = entries.map(() => context.nextRef())
+  let visible = 0
+
+  entries.forEach((entry, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: parentRef,
+    })
+    if (i > 0) item.set(KEYS.Prev, refs[i - 1])
+    if (i < refs.length - 1) item.set(KEYS.Next, refs[i + 1])
+    if (entry.target) {
+      item.set(
+        KEYS.Dest,
+        context.obj([entry.target.pageRef, ...entry.target.view]),
+      )
+    }
+
+    // A closed item counts the entries it would show when opened, negated
+    const shown = writeOutlineEntries(context, item, refs[i], entry.children)
+    if (entry.children.length > 0) {
+      item.set(KEYS.Count, PDFNumber.of(entry.open ? shown : -shown))
+    }
+    context.assign(refs[i], item)
+    visible += 1 + (entry.open ? shown : 0)
+  })
+
+  if (refs.length > 0) {
+    parent.set(KEYS.First, refs[0])
+    parent.set(KEYS.Last, refs[refs.length - 1])
+  }
+  return visible
+}
+
+function getUniqueName(name: string, usedNames: Set<string>): string {
+  if (!usedNames.has(name)) return name
+  let suffix = 2
+  while (usedNames.has(`${name}_${suffix}`)) suffix++
+  return `${name}_${suffix}`
+}
+
+/** The field a widget belongs to, at the top of the field hierarchy */
+function getRootField(context: PDFContext, widget: PDFRef): PDFRef {
+  let root = widget
+  for (let depth = 0; depth <= MAX_DEPTH; depth++) {
+    const parent = lookupDict(context, root)?.get(KEYS.Parent)
+    if (!(parent instanceof PDFRef)) break
+    root = parent
+  }
+  return root
+}
+
+/**
+ * Copies the pages into one document in the given order, each page taken
+ * once. The merged document gets one bookmark per source with the source's
+ * own outline nested under it, links between copied pages lead to their
+ * copies and the form fields of all sources are combined, fields whose name
+ * is already taken by an earlier source are renamed.
+ *
+ * Sources are loaded one at a time and let go once their pages are copied,
+ * so only one of them is held in memory next to the merged document.
+ */
+export async function mergeDocuments(
+  sources: Array<MergeSource>,
+  pages: Array<SourcePage>,
+): Promise<PDFDocument> {
+  const merged = await PDFDocument.create()
+  const { context } = merged
+  const copiedPages = new Map<string, PDFPage>()
+  const getKey = (source: number, pageIndex: number) => `${source}:${pageIndex}`
+
+  const outlines: Array<Array<OutlineItem>> = []
+  const fields: Array<PDFRef> = []
+  const usedNames = new Set<string>()
+  const fonts = context.obj({})
+  let defaultAppearance: PDFString | PDFHexString | undefined
+  let needAppearances = false
+
+  for (const [sourceIndex, source] of sources.entries()) {
+    const pageIndices = [
+      ...new Set(
+        pages
+          .filter((page) => page.source === sourceIndex)
+          .map((page) => page.pageNumber - 1),
+      ),
+    ]
+    if (pageIndices.length === 0) {
+      outlines.push([])
+      continue
+    }
+
+    const pdf = await source.load()
+    outlines.push(prepareSource(pdf, new Set(pageIndices)))
+
+    // Copied by reference, so links and widgets pointing at a page lead to
+    // its copy instead of copying it again
+    await pdf.flush()
+    const copier = PDFObjectCopier.for(pdf.context, context)
+    const sourcePages = pdf.getPages()
+    const roots = new Set<PDFRef>()
+    for (const pageIndex of pageIndices) {
+      const ref = copier.copy(sourcePages[pageIndex].ref)
+      const node = context.lookup(ref)
+      if (!(node instanceof PDFPageLeaf)) {
+        throw new Error(`Page ${pageIndex + 1} could not be copied`)
+      }
+      copiedPages.set(
+        getKey(sourceIndex, pageIndex),
+        PDFPage.of(node, ref, merged),
+      )
+
+      lookupArray(context, node.get(KEYS.Annots))
+        ?.asArray()
+        .forEach((item) => {
+          const annot = lookupDict(context, item)
+          if (
+            item instanceof PDFRef &&
+            annot?.get(KEYS.Subtype) === PDFName.of('Widget')
+          ) {
+            roots.add(getRootField(context, item))
+          }
+        })
+    }
+    if (roots.size === 0) continue
+
+    const acroForm = lookupDict(pdf.context, pdf.catalog.get(KEYS.AcroForm))
+    const sourceAppearance = pdf.context.lookup(acroForm?.get(KEYS.DA))
+    const appearance =
+      sourceAppearance instanceof PDFString ||
+      sourceAppearance instanceof PDFHexString
+        ? sourceAppearance
+        : undefined
+    defaultAppearance ??= appearance
+
+    // Names are unique within a source, fields only clash with earlier ones
+    const sourceNames: Array<string> = []
+    for (const root of roots) {
+      const field = lookupDict(context, root)
+      // Fields inherit the appearance of their source's form, not the first
+      if (field && appearance && !field.has(KEYS.DA)) {
+        field.set(KEYS.DA, appearance.clone())
+      }
+      const name = lookupText(context, field?.get(KEYS.T))
+      if (field && name !== undefined) {
+        const uniqueName = getUniqueName(name, usedNames)
+        if (uniqueName !== name) {
+          field.set(KEYS.T, PDFHexString.fromText(uniqueName))
+        }
+        sourceNames.push(uniqueName)
+      }
+      fields.push(root)
+    }
+    sourceNames.forEach((name) => usedNames.add(name))
+
+    if (!acroForm) continue
+    if (acroForm.get(KEYS.NeedAppearances) === PDFBool.True) {
+      needAppearances = true
+    }
+    // Fonts the fields are filled in with, the first source's one wins a name
+    const resources = acroForm.get(KEYS.DR)
+    const sourceFonts = resources
+      ? lookupDict(
+          context,
+          lookupDict(context, copier.copy(resources))?.get(KEYS.Font),
+        )
+      : undefined
+    sourceFonts?.entries().forEach(([key, value]) => {
+      if (!fonts.has(key)) fonts.set(key, value)
+    })
+  }
+
+  const firstPages = new Map<number, PDFRef>()
+  for (const page of pages) {
+    const copiedPage = copiedPages.get(getKey(page.source, page.pageNumber - 1))
+    if (!copiedPage) continue
+    merged.addPage(copiedPage)
+    if (!firstPages.has(page.source))
+      firstPages.set(page.source, copiedPage.ref)
+  }
+
+  // One bookmark per source, in the order their pages first appear
+  const entries = [...firstPages].map(
+    ([sourceIndex, pageRef]): OutlineEntry => ({
+      title: sources[sourceIndex].name,
+      target: { pageRef, view: [PDFName.of('Fit')] },
+      open: false,
+      children: toOutlineEntries(
+        outlines[sourceIndex],
+        (pageIndex) => copiedPages.get(getKey(sourceIndex, pageIndex))?.ref,
+      ),
+    }),
+  )
+  if (entries.length > 0) {
+    const outlineRoot = context.obj({ Type: 'Outlines' })
+    const outlineRef = context.nextRef()
+    const count = writeOutlineEntries(context, outlineRoot, outlineRef, entries)
+    outlineRoot.set(KEYS.Count, PDFNumber.of(count))
+    context.assign(outlineRef, outlineRoot)
+    merged.catalog.set(KEYS.Outlines, outlineRef)
+    merged.catalog.set(KEYS.PageMode, PDFName.of('UseOutlines'))
+  }
+
+  if (fields.length > 0) {
+    const acroForm = context.obj({ Fields: fields, DR: { Font: fonts } })
+    if (defaultAppearance) acroForm.set(KEYS.DA, defaultAppearance.clone())
+    if (needAppearances) acroForm.set(KEYS.NeedAppearances, PDFBool.True)
+    merged.catalog.set(KEYS.AcroForm, context.register(acroForm))
+  }
+
+  return merged
+}
@@ -0,0 +1,867 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib'
+import type { PDFContext, PDFDocument, PDFObject } from 'pdf-lib'
+import type { ColorMode } from '@/lib/color-mode'
+import { toBitonal, toGray } from '@/lib/color-mode'
+import { createCanvas, getErrorMessage, hashBytes } from '@/lib/utils'
+
+type Matrix = [number, number, number, number, number, number]
+
+/** Largest size an image is drawn at on any page, in points */
+export interface ImagePlacement {
+  width: number
+  height: number
+}
+
+/**
+ * How images are stored. `jpeg` recompresses JPEGs and keeps lossless images
+ * lossless, `png` never re-encodes lossy and `to-jpeg` turns lossless images
+ * into JPEGs too.
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'to-jpeg'
+
+export interface ImageOptimizeSettings {
+  /** Images drawn at a higher resolution are downsampled to this one */
+  targetDpi: number
+  /** JPEG quality for recompressed photos, 0 to 1 */
+  imageQuality: number
+  format: ImageFormat
+  colorMode: ColorMode
+}
+
+/**
+ * Images are only downsampled when they exceed the target by this factor,
+ * resampling an image that is barely above it costs quality for little gain
+ */
+const DOWNSAMPLE_THRESHOLD = 1.5
+
+/** Deflating tiny streams does not pay for the filter entry */
+const MIN_DEFLATE_SIZE = 64
+
+/** Forms nested deeper than this are not followed */
+const MAX_FORM_DEPTH = 12
+
+/** Dedup passes, each one can make the objects referring to merged ones equal */
+const MAX_DEDUP_PASSES = 5
+
+/** Dictionaries that are safe to share between the objects using them */
+const SHAREABLE_TYPES = new Set([
+  'Font',
+  'FontDescriptor',
+  'ExtGState',
+  'Encoding',
+])
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set(Array.from('()<>[]{}/%', (c) => c.charCodeAt(0)))
+
+const latin1 = new TextDecoder('latin1')
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/
+
+/** Stands in for strings, arrays and dictionaries, which are never needed */
+const SKIPPED_OPERAND = '?'
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ]
+}
+
+function isWhitespace(byte: number | undefined): boolean {
+  return byte === undefined || WHITESPACE.has(byte)
+}
+
+/**
+ * Splits a content stream into operands and operators. Only names, numbers
+ * and operators come out as they are, and inline image data is skipped.
+ */
+function* tokenize(data: Uint8Array): Generator<string> {
+  let i = 0
+  while (i < data.length) {
+    const byte = data[i]
+    if (WHITESPACE.has(byte)) {
+      i++
+    } else if (byte === 0x25) {
+      // % comment until the end of the line
+      while (i < data.length && data[i] !== 0x0a && data[i] !== 0x0d) i++
+    } else if (byte === 0x28) {
+      // ( literal string ), parentheses nest and can be escaped
+      let depth = 0
+      for (; i < data.length; i++) {
+        if (data[i] === 0x5c) i++
+        else if (data[i] === 0x28) depth++
+        else if (data[i] === 0x29 && --depth === 0) break
+      }
+      i++
+      yield SKIPPED_OPERAND
+    } else if (byte === 0x3c && data[i + 1] !== 0x3c) {
+      // < hex string >
+      while (i < data.length && data[i] !== 0x3e) i++
+      i++
+      yield SKIPPED_OPERAND
+    } else if (DELIMITERS.has(byte) && byte !== 0x2f) {
+      // << >> [ ] { } are only found inside operands
+      i += (byte === 0x3c || byte === 0x3e) && data[i + 1] === byte ? 2 : 1
+      yield SKIPPED_OPERAND
+    } else {
+      const start = i
+      i++
+      while (
+        i < data.length &&
+        !WHITESPACE.has(data[i]) &&
+        !DELIMITERS.has(data[i])
+      ) {
+        i++
+      }
+      const token = latin1.decode(data.subarray(start, i))
+      yield token
+
+      if (token === 'ID') {
+        // Inline image data runs until an EI between whitespace
+        i++
+        while (
+          i < data.length &&
+          !(
+            data[i] === 0x45 &&
+            data[i + 1] === 0x49 &&
+            isWhitespace(data[i - 1]) &&
+            isWhitespace(data[i + 2])
+          )
+        ) {
+          i++
+        }
+      }
+    }
+  }
+}
+
+function isOperand(token: string): boolean {
+  return (
+    token === SKIPPED_OPERAND ||
+    token.startsWith('/') ||
+    NUMBER_PATTERN.test(token)
+  )
+}
+
+function getStreamData(stream: PDFStream): Uint8Array {
+  return stream instanceof PDFRawStream
+    ? decodePDFRawStream(stream).decode()
+    : stream.getContents()
+}
+
+function getPageContentData(
+  contents: PDFObject | undefined,
+  context: PDFContext,
+) {
+  const streams =
+    contents instanceof PDFArray
+      ? contents.asArray().map((item) => context.lookup(item))
+      : [contents]
+  const parts = streams
+    .filter((stream) => stream instanceof PDFStream)
+    .map(getStreamData)
+
+  // Streams of a page are one content stream split at token boundaries
+  const data = new Uint8Array(
+    parts.reduce((size, part) => size + part.length + 1, 0),
+  )
+  let offset = 0
+  for (const part of parts) {
+    data.set(part, offset)
+    data[offset + part.length] = 0x0a
+    offset += part.length + 1
+  }
+  return data
+}
+
+function getMatrix(dict: PDFDict): Matrix {
+  const array = dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)
+  if (array?.size() !== 6) return IDENTITY
+  const values = array
+    .asArray()
+    .map((item) => (item instanceof PDFNumber ? item.asNumber() : NaN))
+  return values.every(Number.isFinite) ? (values as Matrix) : IDENTITY
+}
+
+/**
+ * Follows the transformation matrix through a content stream and records
+ * the size of every image drawn, descending into form XObjects
+ */
+function scanContent(
+  context: PDFContext,
+  data: Uint8Array,
+  resources: PDFDict | undefined,
+  ctm: Matrix,
+  placements: Map<PDFRef, ImagePlacement>,
+  forms: Array<PDFRef>,
+) {
+  const stack: Array<Matrix> = []
+  let matrix = ctm
+  let operands: Array<string> = []
+
+  const drawXObject = (name: string) => {
+    const ref = resources
+      ?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+      ?.get(PDFName.of(name))
+    if (!(ref instanceof PDFRef)) return
+    const xObject = context.lookup(ref)
+    if (!(xObject instanceof PDFStream)) return
+
+    const subtype = xObject.dict.lookup(PDFName.of('Subtype'))
+    if (subtype === PDFName.of('Image')) {
+      const width = Math.hypot(matrix[0], matrix[1])
+      const height = Math.hypot(matrix[2], matrix[3])
+      const placement = placements.get(ref)
+      placements.set(ref, {
+        width: Math.max(width, placement?.width ?? 0),
+        height: Math.max(height, placement?.height ?? 0),
+      })
+    } else if (
+      subtype === PDFName.of('Form') &&
+      !forms.includes(ref) &&
+      forms.length < MAX_FORM_DEPTH
+    ) {
+      scanContent(
+        context,
+        getStreamData(xObject),
+        xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources,
+        multiply(getMatrix(xObject.dict), matrix),
+        placements,
+        [...forms, ref],
+      )
+    }
+  }
+
+  for (const token of tokenize(data)) {
+    if (isOperand(token)) {
+      operands.push(token)
+      continue
+    }
+    switch (token) {
+      case 'q':
+        stack.push(matrix)
+        break
+      case 'Q':
+        matrix = stack.pop() ?? matrix
+        break
+      case 'cm': {
+        const values = operands.slice(-6).map(Number)
+        if (values.length === 6 && values.every(Number.isFinite)) {
+          matrix = multiply(values as Matrix, matrix)
+        }
+        break
+      }
+      case 'Do': {
+        const name = operands.at(-1)
+        if (name?.startsWith('/')) drawXObject(name.slice(1))
+        break
+      }
+    }
+    operands = []
+  }
+}
+
+/** A page whose images were left alone, and why */
+export interface SkippedPage {
+  pageNumber: number
+  reason: string
+}
+
+/** Image XObjects of a resource dictionary, including those in its forms */
+function collectImages(
+  context: PDFContext,
+  resources: PDFDict | undefined,
+  images: Set<PDFRef>,
+  forms: Array<PDFRef> = [],
+) {
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+  for (const ref of xObjects?.values() ?? []) {
+    if (!(ref instanceof PDFRef) || forms.includes(ref)) continue
+    const xObject = context.lookup(ref)
+    if (!(xObject instanceof PDFStream)) continue
+    const subtype = xObject.dict.lookup(PDFName.of('Subtype'))
+    if (subtype === PDFName.of('Image')) {
+      images.add(ref)
+    } else if (forms.length < MAX_FORM_DEPTH) {
+      collectImages(
+        context,
+        xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict),
+        images,
+        [...forms, ref],
+      )
+    }
+  }
+}
+
+/**
+ * How large each image XObject is drawn on the pages. Images only used by
+ * annotations or patterns are not included and are left untouched, and so
+ * are all images of pages whose content cannot be read.
+ */
+export function getImagePlacements(pdfDoc: PDFDocument): {
+  placements: Map<PDFRef, ImagePlacement>
+  skippedPages: Array<SkippedPage>
+} {
+  const placements = new Map<PDFRef, ImagePlacement>()
+  const skippedPages: Array<SkippedPage> = []
+  const untouchable = new Set<PDFRef>()
+
+  pdfDoc.getPages().forEach((page, index) => {
+    try {
+      scanContent(
+        pdfDoc.context,
+        getPageContentData(page.node.Contents(), pdfDoc.context),
+        page.node.Resources(),
+        IDENTITY,
+        placements,
+        [],
+      )
+    } catch (error) {
+      console.warn(`Could not read page ${index + 1}:`, error)
+      skippedPages.push({
+        pageNumber: index + 1,
+        reason: `Page content could not be read (${getErrorMessage(error)})`,
+      })
+      collectImages(pdfDoc.context, page.node.Resources(), untouchable)
+    }
+  })
+
+  for (const ref of untouchable) placements.delete(ref)
+  return { placements, skippedPages }
+}
+
+function getNumber(dict: PDFDict, key: string): number | undefined {
+  return dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber()
+}
+
+function getColorComponents(
+  context: PDFContext,
+  colorSpace: PDFObject | undefined,
+): number | null {
+  if (colorSpace instanceof PDFName) {
+    const components: Record<string, number> = {
+      DeviceGray: 1,
+      DeviceRGB: 3,
+      DeviceCMYK: 4,
+    }
+    return components[colorSpace.decodeText()] ?? null
+  }
+  if (!(colorSpace instanceof PDFArray)) return null
+
+  const family = colorSpace.lookupMaybe(0, PDFName)?.decodeText()
+  if (family === 'CalGray') return 1
+  if (family === 'CalRGB') return 3
+  if (family === 'ICCBased') {
+    const profile = context.lookup(colorSpace.get(1))
+    return profile instanceof PDFStream
+      ? (getNumber(profile.dict, 'N') ?? null)
+      : null
+  }
+  return null
+}
+
+/** The only filter of a stream, null for none or a chain of filters */
+function getFilter(dict: PDFDict): string | null {
+  const filter = dict.lookup(PDFName.of('Filter'))
+  if (filter instanceof PDFName) return filter.decodeText()
+  if (filter instanceof PDFArray && filter.size() === 1) {
+    return filter.lookupMaybe(0, PDFName)?.decodeText() ?? null
+  }
+  return null
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft
+  const dLeft = Math.abs(estimate - left)
+  const dUp = Math.abs(estimate - up)
+  const dUpLeft = Math.abs(estimate - upLeft)
+  if (dLeft <= dUp && dLeft <= dUpLeft) return left
+  return dUp <= dUpLeft ? up : upLeft
+}
+
+/** Reverses PNG row filters, which pdf-lib's decoder leaves in place */
+function undoPngPredictor(
+  data: Uint8Array,
+  bytesPerPixel: number,
+  rowLength: number,
+): Uint8Array {
+  const rows = Math.floor(data.length / (rowLength + 1))
+  const output = new Uint8Array(rows * rowLength)
+
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)]
+    const input = row * (rowLength + 1) + 1
+    const start = row * rowLength
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? output[start + i - bytesPerPixel] : 0
+      const up = row > 0 ? output[start + i - rowLength] : 0
+      const upLeft =
+        row > 0 && i >= bytesPerPixel
+          ? output[start + i - rowLength - bytesPerPixel]
+          : 0
+      const predicted = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)]
+      output[start + i] = data[input + i] + (predicted[filter] ?? 0)
+    }
+  }
+  return output
+}
+
+/** Area-averaging downscale of interleaved 8-bit samples */
+function resample(
+  samples: Uint8Array,
+  width: number,
+  height: number,
+  channels: number,
+  newWidth: number,
+  newHeight: number,
+): Uint8Array {
+  const output = new Uint8Array(newWidth * newHeight * channels)
+  const sums = new Float64Array(channels)
+
+  for (let y = 0; y < newHeight; y++) {
+    const y0 = Math.floor((y * height) / newHeight)
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * height) / newHeight))
+    for (let x = 0; x < newWidth; x++) {
+      const x0 = Math.floor((x * width) / newWidth)
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * width) / newWidth))
+      sums.fill(0)
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const offset = (sy * width + sx) * channels
+          for (let c = 0; c < channels; c++) sums[c] += samples[offset + c]
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0)
+      const offset = (y * newWidth + x) * channels
+      for (let c = 0; c < channels; c++) {
+        output[offset + c] = Math.round(sums[c] / count)
+      }
+    }
+  }
+  return output
+}
+
+/** Decodes a JPEG at the given size, as RGBA */
+async function decodeJpeg(
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+): Promise<ImageData> {
+  // PDF viewers ignore EXIF orientation and embedded profiles, so must we
+  const bitmap = await createImageBitmap(
+    new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' }),
+    { imageOrientation: 'none', colorSpaceConversion: 'none' },
+  )
+  const context = createCanvas(width, height).getContext('2d')!
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  return context.getImageData(0, 0, width, height)
+}
+
+async function encodeJpeg(
+  imageData: ImageData,
+  quality: number,
+): Promise<Uint8Array> {
+  const canvas = createCanvas(imageData.width, imageData.height)
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0)
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (result) => {
+        if (result) resolve(result)
+        else reject(new Error('Failed to encode image'))
+      },
+      'image/jpeg',
+      quality,
+    )
+  })
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+function toImageData(
+  samples: Uint8Array,
+  channels: number,
+  width: number,
+  height: number,
+): ImageData {
+  const rgba = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += channels) {
+    rgba[i] = samples[j]
+    rgba[i + 1] = samples[j + (channels >= 3 ? 1 : 0)]
+    rgba[i + 2] = samples[j + (channels >= 3 ? 2 : 0)]
+    rgba[i + 3] = 255
+  }
+  return new ImageData(rgba, width, height)
+}
+
+function replaceImage(
+  context: PDFContext,
+  ref: PDFRef,
+  stream: PDFRawStream,
+  contents: Uint8Array,
+  entries: Record<string, PDFObject>,
+) {
+  const dict = stream.dict.clone(context)
+  dict.delete(PDFName.of('DecodeParms'))
+  for (const [key, value] of Object.entries(entries)) {
+    dict.set(PDFName.of(key), value)
+  }
+  context.assign(ref, PDFRawStream.of(dict, contents))
+}
+
+/** Samples of a Flate image, null for predictors that are not supported */
+function decodeFlateImage(
+  stream: PDFRawStream,
+  width: number,
+  height: number,
+  components: number,
+): Uint8Array | null {
+  const parms = stream.dict.lookupMaybe(PDFName.of('DecodeParms'), PDFDict)
+  const predictor = parms ? (getNumber(parms, 'Predictor') ?? 1) : 1
+  if (predictor > 1 && predictor < 10) return null
+
+  let samples = decodePDFRawStream(stream).decode()
+  if (predictor >= 10) {
+    samples = undoPngPredictor(samples, components, width * components)
+  }
+  return samples.length < width * height * components ? null : samples
+}
+
+/**
+ * Recompresses one image, keeping the original whenever the new version is
+ * not smaller. Lossless images stay lossless unless everything should become
+ * JPEG, JPEGs are only left alone when everything should stay lossless.
+ */
+async function optimizeImage(
+  context: PDFContext,
+  ref: PDFRef,
+  placement: ImagePlacement,
+  settings: ImageOptimizeSettings,
+) {
+  const stream = context.lookup(ref)
+  if (!(stream instanceof PDFRawStream)) return
+  const { dict } = stream
+
+  // Masks, inverted images and anything but 8 bits per sample are kept
+  if (dict.lookup(PDFName.of('ImageMask')) === PDFBool.True) return
+  if (dict.has(PDFName.of('Decode'))) return
+  if (getNumber(dict, 'BitsPerComponent') !== 8) return
+
+  const width = getNumber(dict, 'Width') ?? 0
+  const height = getNumber(dict, 'Height') ?? 0
+  const components = getColorComponents(
+    context,
+    dict.lookup(PDFName.of('ColorSpace')),
+  )
+  if (width <= 0 || height <= 0 || components === null) return
+  if (placement.width <= 0 || placement.height <= 0) return
+
+  const filter = getFilter(dict)
+  if (filter !== 'DCTDecode' && filter !== 'FlateDecode') return
+  const isJpeg = filter === 'DCTDecode'
+  const { colorMode, format } = settings
+  const toJpeg =
+    colorMode !== 'bw' && (isJpeg ? format !== 'png' : format === 'to-jpeg')
+
+  // Browsers decode CMYK JPEGs inconsistently, and CMYK is only resampled
+  if (components === 4 && (isJpeg || toJpeg || colorMode !== 'color')) return
+  if (isJpeg && !toJpeg && colorMode !== 'bw') return
+
+  const dpi = Math.min(
+    (width * 72) / placement.width,
+    (height * 72) / placement.height,
+  )
+  const scale =
+    dpi > settings.targetDpi * DOWNSAMPLE_THRESHOLD
+      ? settings.targetDpi / dpi
+      : 1
+  if (!isJpeg && !toJpeg && colorMode === 'color' && scale === 1) return
+
+  const newWidth = Math.max(1, Math.round(width * scale))
+  const newHeight = Math.max(1, Math.round(height * scale))
+
+  let samples: Uint8Array
+  let channels: number
+  if (isJpeg) {
+    const imageData = await decodeJpeg(stream.contents, newWidth, newHeight)
+    samples = new Uint8Array(imageData.data.buffer)
+    channels = 4
+  } else {
+    const decoded = decodeFlateImage(stream, width, height, components)
+    if (!decoded) return
+    samples =
+      scale === 1
+        ? decoded
+        : resample(decoded, width, height, components, newWidth, newHeight)
+    channels = components
+  }
+  if (colorMode !== 'color') {
+    samples = toGray(samples, channels)
+    channels = 1
+  }
+
+  const entries: Record<string, PDFObject> = {
+    Width: PDFNumber.of(newWidth),
+    Height: PDFNumber.of(newHeight),
+  }
+  let contents: Uint8Array
+  if (colorMode === 'bw') {
+    contents = context.flateStream(
+      toBitonal(samples, newWidth, newHeight),
+    ).contents
+    entries.Filter = PDFName.of('FlateDecode')
+    entries.BitsPerComponent = PDFNumber.of(1)
+    entries.ColorSpace = PDFName.of('DeviceGray')
+  } else if (toJpeg) {
+    contents = await encodeJpeg(
+      toImageData(samples, channels, newWidth, newHeight),
+      settings.imageQuality,
+    )
+    entries.Filter = PDFName.of('DCTDecode')
+    // The canvas always encodes color
+    if (components !== 3 || colorMode !== 'color') {
+      entries.ColorSpace = PDFName.of('DeviceRGB')
+    }
+  } else {
+    contents = context.flateStream(samples).contents
+    entries.Filter = PDFName.of('FlateDecode')
+    if (channels !== components) entries.ColorSpace = PDFName.of('DeviceGray')
+  }
+
+  if (contents.length >= stream.contents.length) return
+  replaceImage(context, ref, stream, contents, entries)
+}
+
+/**
+ * Downsamples images drawn above the target resolution and re-encodes them
+ * in the requested format and color mode
+ */
+export async function optimizeImages(
+  pdfDoc: PDFDocument,
+  settings: ImageOptimizeSettings,
+  onProgress?: (current: number, total: number) => void,
+): Promise<Array<SkippedPage>> {
+  const { placements, skippedPages } = getImagePlacements(pdfDoc)
+  let done = 0
+  for (const [ref, placement] of placements) {
+    try {
+      await optimizeImage(pdfDoc.context, ref, placement, settings)
+    } catch (error) {
+      console.warn(`Could not optimize image ${ref.toString()}:`, error)
+    }
+    onProgress?.(++done, placements.size)
+  }
+  return skippedPages
+}
+
+/** Deflates streams stored without any filter, except XMP metadata */
+export function compressStreams(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue
+    const { dict, contents } = object
+    if (dict.has(PDFName.of('Filter')) || contents.length < MIN_DEFLATE_SIZE) {
+      continue
+    }
+    if (dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata')) continue
+
+    const compressed = context.flateStream(contents).contents
+    if (compressed.length >= contents.length) continue
+    const newDict = dict.clone(context)
+    newDict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'))
+    context.assign(ref, PDFRawStream.of(newDict, compressed))
+  }
+}
+
+function isSameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+function getDedupKey(object: PDFObject): string | null {
+  if (object instanceof PDFRawStream) {
+    return `stream ${object.dict.toString()} ${hashBytes(object.contents)}`
+  }
+  if (object instanceof PDFDict) {
+    const type = object.lookupMaybe(PDFName.of('Type'), PDFName)
+    if (!type || !SHAREABLE_TYPES.has(type.decodeText())) return null
+    return `dict ${object.toString()}`
+  }
+  if (object instanceof PDFArray) {
+    // Only plain number arrays, like font widths
+    const isNumeric = object
+      .asArray()
+      .every((item) => item instanceof PDFNumber)
+    return isNumeric ? `array ${object.toString()}` : null
+  }
+  return null
+}
+
+function replaceRefs(object: PDFObject, replacements: Map<PDFRef, PDFRef>) {
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const replacement = value instanceof PDFRef && replacements.get(value)
+      if (replacement) object.set(key, replacement)
+      else replaceRefs(value, replacements)
+    }
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      const replacement = value instanceof PDFRef && replacements.get(value)
+      if (replacement) object.set(index, replacement)
+      else replaceRefs(value, replacements)
+    })
+  } else if (object instanceof PDFStream) {
+    replaceRefs(object.dict, replacements)
+  }
+}
+
+/**
+ * Merges identical streams, fonts and graphics states into one object each.
+ * Fonts embedded once per page by some producers end up embedded once.
+ */
+export function deduplicateObjects(pdfDoc: PDFDocument): number {
+  const { context } = pdfDoc
+  let merged = 0
+
+  for (let pass = 0; pass < MAX_DEDUP_PASSES; pass++) {
+    const originals = new Map<string, PDFRef>()
+    const replacements = new Map<PDFRef, PDFRef>()
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      const key = getDedupKey(object)
+      if (key === null) continue
+      const original = originals.get(key)
+      if (!original) {
+        originals.set(key, ref)
+        continue
+      }
+      const originalObject = context.lookup(original)
+      if (
+        object instanceof PDFRawStream &&
+        originalObject instanceof PDFRawStream &&
+        !isSameBytes(object.contents, originalObject.contents)
+      ) {
+        continue
+      }
+      replacements.set(ref, original)
+    }
+
+    if (replacements.size === 0) break
+    for (const [, object] of context.enumerateIndirectObjects()) {
+      replaceRefs(object, replacements)
+    }
+    for (const ref of replacements.keys()) context.delete(ref)
+    merged += replacements.size
+  }
+
+  return merged
+}
+
+/**
+ * Drops the document information dictionary and all XMP metadata streams
+ */
+export function removeMetadata(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc
+  context.trailerInfo.Info = undefined
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object
+    if (dict instanceof PDFDict) dict.delete(PDFName.of('Metadata'))
+  }
+}
+
+/**
+ * Estimated size of each page in bytes: its content, resources and
+ * annotations. Objects shared by several pages, like fonts, are split evenly
+ * between them, and object stream compression is not taken into account.
+ */
+export function getPageSizes(pdfDoc: PDFDocument): Array<number> {
+  const { context } = pdfDoc
+  const pages = pdfDoc.getPages()
+  const pageRefs = new Set(pages.map((page) => page.ref))
+  // Back references to the page tree and from annotations to their page
+  const skippedKeys = new Set([PDFName.of('Parent'), PDFName.of('P')])
+  const pageCounts = new Map<PDFRef, number>()
+
+  const pageObjects = pages.map((page) => {
+    const refs = new Set<PDFRef>([page.ref])
+    const pending: Array<PDFObject | undefined> = [page.node]
+    while (pending.length > 0) {
+      const object = pending.pop()
+      if (object instanceof PDFRef) {
+        // Links can point at other pages, which are counted on their own
+        if (refs.has(object) || pageRefs.has(object)) continue
+        refs.add(object)
+        pending.push(context.lookup(object))
+      } else if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) {
+          if (!skippedKeys.has(key)) pending.push(value)
+        }
+      } else if (object instanceof PDFArray) {
+        pending.push(...object.asArray())
+      } else if (object instanceof PDFStream) {
+        pending.push(object.dict)
+      }
+    }
+    for (const ref of refs) pageCounts.set(ref, (pageCounts.get(ref) ?? 0) + 1)
+    return refs
+  })
+
+  return pageObjects.map((refs) => {
+    let size = 0
+    for (const ref of refs) {
+      const object = context.lookup(ref)
+      if (object) size += object.sizeInBytes() / (pageCounts.get(ref) ?? 1)
+    }
+    return Math.round(size)
+  })
+}
+
+/**
+ * Deletes objects that nothing refers to anymore, like replaced images,
+ * old cross-reference streams and leftovers of earlier edits
+ */
+export function removeUnusedObjects(pdfDoc: PDFDocument): number {
+  const { context } = pdfDoc
+  const { Root, Info, Encrypt } = context.trailerInfo
+  const reachable = new Set<PDFRef>()
+  const pending: Array<PDFObject | undefined> = [Root, Info, Encrypt]
+
+  while (pending.length > 0) {
+    const object = pending.pop()
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue
+      reachable.add(object)
+      pending.push(context.lookup(object))
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values())
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray())
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict)
+    }
+  }
+
+  let removed = 0
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (reachable.has(ref)) continue
+    context.delete(ref)
+    removed++
+  }
+  return removed
+}
@@ -0,0 +1,43 @@
+import type { PDFPage } from 'pdf-lib'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Area of a page in points, top-left origin */
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Page rotation normalized to 0, 90, 180 or 270 degrees
+ */
+export function getPageRotation(page: PDFPage): number {
+  return ((page.getRotation().angle % 360) + 360) % 360
+}
+
+/**
+ * Maps viewport coordinates (top-left origin, rotation applied) of a page to
+ * PDF user space coordinates of the same page
+ */
+export function toPdfPoint(page: PDFPage, point: Point): Point {
+  const box = page.getCropBox()
+
+  switch (getPageRotation(page)) {
+    case 90:
+      return { x: box.x + point.y, y: box.y + point.x }
+    case 180:
+      return { x: box.x + box.width - point.x, y: box.y + point.y }
+    case 270:
+      return {
+        x: box.x + box.width - point.y,
+        y: box.y + box.height - point.x,
+      }
+    default:
+      return { x: box.x + point.x, y: box.y + box.height - point.y }
+  }
+}
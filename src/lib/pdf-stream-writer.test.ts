@@ -0,0 +1,216 @@
+import { setFlagsFromString } from 'node:v8'
+import { runInNewContext } from 'node:vm'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { describe, expect, it, vi } from 'vitest'
+import type { EncodedPageResult } from '@/lib/page-renderer'
+import { MAX_BUFFERED_OUTPUT, compressPDF } from '@/lib/compress-helper'
+import { createPdfStreamWriter } from '@/lib/pdf-stream-writer'
+
+/** Pages of the flattened document, 1MB each */
+const PAGE_COUNT = 160
+
+/** Pages the fake renderer fails on, they are copied from the original */
+const FAILING_PAGES = new Set([5])
+
+/**
+ * Bytes moved into Blobs so far. Node keeps Blobs in memory, while browsers
+ * move large ones to disk, so they are left out of the memory measured.
+ */
+let blobBytes = 0
+
+/** Largest growth of memory, other than Blobs, seen while flattening */
+let peakMemoryGrowth = 0
+let baselineMemory = 0
+
+// Measures live memory only, without the garbage of earlier pages
+setFlagsFromString('--expose-gc')
+const collectGarbage = runInNewContext('gc') as () => void
+
+function getMemoryUsage(): number {
+  collectGarbage()
+  const { heapUsed, arrayBuffers } = process.memoryUsage()
+  return heapUsed + arrayBuffers - blobBytes
+}
+
+vi.stubGlobal(
+  'Blob',
+  class extends Blob {
+    constructor(parts: Array<BlobPart> = [], options?: BlobPropertyBag) {
+      super(parts, options)
+      // Blobs made of Blobs share their data
+      for (const part of parts) {
+        if (ArrayBuffer.isView(part)) blobBytes += part.byteLength
+      }
+    }
+  },
+)
+
+// pdf.js cannot run here, every page is rendered to the same blank JPEG
+vi.mock('@/lib/page-renderer', () => ({
+  openPageRenderer: () =>
+    Promise.resolve({
+      pageCount: PAGE_COUNT,
+      async *encodePages(
+        pageNumbers: Array<number>,
+      ): AsyncGenerator<EncodedPageResult> {
+        for await (const pageNumber of pageNumbers) {
+          peakMemoryGrowth = Math.max(
+            peakMemoryGrowth,
+            getMemoryUsage() - baselineMemory,
+          )
+          yield FAILING_PAGES.has(pageNumber)
+            ? { pageNumber, error: 'Rendering failed' }
+            : {
+                pageNumber,
+                image: {
+                  bytes: createJpeg(600, 800, 1024 * 1024),
+                  width: 600,
+                  height: 800,
+                  sourceBytes: 1000,
+                },
+              }
+        }
+      },
+      destroy: () => {},
+    }),
+  toDataUrl: () => Promise.resolve(''),
+}))
+
+/**
+ * A JPEG header pdf-lib can embed, padded to `size` bytes. pdf-lib only
+ * reads the frame header and copies the rest as it is.
+ */
+function createJpeg(
+  width: number,
+  height: number,
+  size: number,
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(size)
+  bytes.set([
+    // Start of image, then a baseline frame of 8-bit YCbCr
+    0xff,
+    0xd8,
+    0xff,
+    0xc0,
+    0x00,
+    0x11,
+    0x08,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    0x03,
+    0x01,
+    0x11,
+    0x00,
+    0x02,
+    0x11,
+    0x01,
+    0x03,
+    0x11,
+    0x01,
+  ])
+  bytes.set([0xff, 0xd9], size - 2)
+  return bytes
+}
+
+/**
+ * Checks that every object the cross-reference table lists starts at the
+ * offset given for it, and that `startxref` leads to the table
+ */
+function expectValidXref(bytes: Uint8Array) {
+  const text = new TextDecoder('latin1').decode(bytes)
+  const xrefOffset = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1])
+  expect(text.startsWith('xref\n', xrefOffset)).toBe(true)
+
+  const header = /^xref\n0 (\d+)\n/.exec(text.slice(xrefOffset))
+  expect(header).not.toBeNull()
+  const count = Number(header![1])
+  const entries = text
+    .slice(xrefOffset + header![0].length)
+    .match(/.{20}/gs)!
+    .slice(0, count)
+
+  let objects = 0
+  entries.forEach((entry, number) => {
+    const [offset, , type] = entry.trim().split(' ')
+    if (type !== 'n') return
+    objects++
+    expect(text.startsWith(`${number} 0 obj\n`, Number(offset))).toBe(true)
+  })
+  expect(objects).toBeGreaterThan(0)
+  expect(/\/Size (\d+)/.exec(text.slice(xrefOffset))?.[1]).toBe(String(count))
+}
+
+async function createDocument(pageCount: number): Promise<File> {
+  const pdfDoc = await PDFDocument.create()
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  for (let i = 1; i <= pageCount; i++) {
+    pdfDoc.addPage([595, 842]).drawText(`Page ${i}`, { x: 50, y: 780, font })
+  }
+  const bytes = await pdfDoc.save()
+  return new File([bytes.buffer as ArrayBuffer], 'document.pdf', {
+    type: 'application/pdf',
+  })
+}
+
+describe('createPdfStreamWriter', () => {
+  it('keeps the buffered output under the cap and writes a valid file', async () => {
+    const maxBufferedBytes = 4096
+    const writer = createPdfStreamWriter(maxBufferedBytes)
+    const pageSizes: Array<number> = []
+
+    for (let i = 1; i <= 200; i++) {
+      const pageDoc = await writer.createPageDocument()
+      const font = await pageDoc.embedFont(StandardFonts.Helvetica)
+      const page = pageDoc.addPage([300, 400])
+      page.drawText(`Page ${i} `.repeat(20), { x: 10, y: 380, size: 8, font })
+      pageSizes.push(await writer.writePage(pageDoc, page))
+      expect(writer.bufferedBytes()).toBeLessThan(maxBufferedBytes)
+    }
+
+    expect(writer.peakBufferedBytes()).toBeLessThanOrEqual(
+      maxBufferedBytes + Math.max(...pageSizes),
+    )
+
+    const bytes = new Uint8Array(await writer.finish().arrayBuffer())
+    expectValidXref(bytes)
+    const reloaded = await PDFDocument.load(bytes)
+    expect(reloaded.getPageCount()).toBe(200)
+    expect(reloaded.getPage(199).getSize()).toEqual({ width: 300, height: 400 })
+  })
+})
+
+describe('compressPDF with flatten', () => {
+  it('streams the pages without holding more than the cap', async () => {
+    const file = await createDocument(PAGE_COUNT)
+    baselineMemory = getMemoryUsage()
+    const { blob, report } = await compressPDF(file, 'normal', undefined, {
+      flatten: true,
+    })
+
+    const largestPage = Math.max(
+      ...report.pages.map((page) => page.compressedSize),
+    )
+    expect(largestPage).toBeGreaterThan(1024 * 1024)
+    expect(report.peakMemory).toBeLessThanOrEqual(
+      MAX_BUFFERED_OUTPUT + largestPage,
+    )
+
+    const failed = report.pages.filter((page) => page.fallback !== null)
+    expect(failed.map((page) => page.pageNumber)).toEqual([...FAILING_PAGES])
+    expect(failed[0].originalSize).toBeNull()
+    expect(report.pages[0].originalSize).toBe(1000)
+
+    // Holding the whole output would take several times the cap
+    expect(blob.size).toBeGreaterThan(4 * 2 * MAX_BUFFERED_OUTPUT)
+    expect(peakMemoryGrowth).toBeLessThan(2 * MAX_BUFFERED_OUTPUT)
+
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    expect(bytes.length).toBeGreaterThan(MAX_BUFFERED_OUTPUT)
+    expectValidXref(bytes)
+    const reloaded = await PDFDocument.load(bytes)
+    expect(reloaded.getPageCount()).toBe(PAGE_COUNT)
+    expect(reloaded.getPage(0).getSize()).toEqual({ width: 600, height: 800 })
+  }, 60_000)
+})
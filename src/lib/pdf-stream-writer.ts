@@ -0,0 +1,141 @@
+import { PDFDocument, PDFName, PDFRef } from 'pdf-lib'
+import type { PDFObject, PDFPage } from 'pdf-lib'
+
+/** Catalog and page tree, written last since they list every page */
+const CATALOG_NUMBER = 1
+const PAGES_NUMBER = 2
+
+const encoder = new TextEncoder()
+
+/**
+ * Writes a PDF page by page. Each page is built in a small pdf-lib document
+ * of its own, its objects are serialized right away and the bytes are moved
+ * into Blobs once `maxBufferedBytes` is reached, so memory holds one page
+ * and the unflushed output instead of the whole document.
+ */
+export interface PdfStreamWriter {
+  /**
+   * A document to build the next page in. Its new objects are numbered after
+   * those already written.
+   */
+  createPageDocument: () => Promise<PDFDocument>
+  /** Writes the page and everything it uses, returns the bytes written */
+  writePage: (pageDoc: PDFDocument, page: PDFPage) => Promise<number>
+  /** Output bytes not yet moved into a Blob */
+  bufferedBytes: () => number
+  /** Most bytes buffered at once, for checking the memory cap */
+  peakBufferedBytes: () => number
+  finish: () => Blob
+}
+
+export function createPdfStreamWriter(
+  maxBufferedBytes: number,
+): PdfStreamWriter {
+  const parts: Array<Blob> = []
+  let pending: Array<Uint8Array<ArrayBuffer>> = []
+  let pendingSize = 0
+  let peak = 0
+  let offset = 0
+  /** Byte offset of every object, by object number */
+  const offsets: Array<number> = []
+  const pageNumbers: Array<number> = []
+  let lastObjectNumber = PAGES_NUMBER
+
+  const flush = () => {
+    if (pending.length === 0) return
+    parts.push(new Blob(pending))
+    pending = []
+    pendingSize = 0
+  }
+
+  const write = (bytes: Uint8Array<ArrayBuffer>) => {
+    pending.push(bytes)
+    pendingSize += bytes.length
+    offset += bytes.length
+    peak = Math.max(peak, pendingSize)
+    if (pendingSize >= maxBufferedBytes) flush()
+  }
+
+  const writeText = (text: string) => write(encoder.encode(text))
+
+  const writeObject = (objectNumber: number, object: PDFObject | string) => {
+    const start = offset
+    offsets[objectNumber] = offset
+    writeText(`${objectNumber} 0 obj\n`)
+    if (typeof object === 'string') {
+      writeText(object)
+    } else {
+      const bytes = new Uint8Array(object.sizeInBytes())
+      object.copyBytesInto(bytes, 0)
+      write(bytes)
+    }
+    writeText('\nendobj\n')
+    return offset - start
+  }
+
+  // The binary comment marks the file as binary for transfer tools
+  writeText('%PDF-1.7\n')
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+
+  return {
+    createPageDocument: async () => {
+      const pageDoc = await PDFDocument.create({ updateMetadata: false })
+      // Its own catalog and page tree come first and are never written
+      pageDoc.context.largestObjectNumber = Math.max(
+        pageDoc.context.largestObjectNumber,
+        lastObjectNumber,
+      )
+      return pageDoc
+    },
+    writePage: async (pageDoc, page) => {
+      // Embedded images and fonts are only turned into objects on flush
+      await pageDoc.flush()
+      const firstNumber = lastObjectNumber + 1
+      page.node.set(PDFName.of('Parent'), PDFRef.of(PAGES_NUMBER))
+
+      let size = 0
+      for (const [ref, object] of pageDoc.context.enumerateIndirectObjects()) {
+        if (ref.objectNumber < firstNumber) continue
+        size += writeObject(ref.objectNumber, object)
+      }
+      pageNumbers.push(page.ref.objectNumber)
+      lastObjectNumber = Math.max(
+        lastObjectNumber,
+        pageDoc.context.largestObjectNumber,
+      )
+      return size
+    },
+    bufferedBytes: () => pendingSize,
+    peakBufferedBytes: () => peak,
+    finish: () => {
+      const kids = pageNumbers.map((number) => `${number} 0 R`).join(' ')
+      writeObject(
+        PAGES_NUMBER,
+        `<< /Type /Pages /Kids [${kids}] /Count ${pageNumbers.length} >>`,
+      )
+      writeObject(
+        CATALOG_NUMBER,
+        `<< /Type /Catalog /Pages ${PAGES_NUMBER} 0 R >>`,
+      )
+
+      // Every entry is exactly 20 bytes, numbers never written are free
+      const xrefOffset = offset
+      const entries = ['0000000000 65535 f \n']
+      for (let number = 1; number <= lastObjectNumber; number++) {
+        const objectOffset = offsets[number] as number | undefined
+        entries.push(
+          objectOffset === undefined
+            ? '0000000000 00000 f \n'
+            : `${String(objectOffset).padStart(10, '0')} 00000 n \n`,
+        )
+      }
+      writeText(`xref\n0 ${entries.length}\n${entries.join('')}`)
+      writeText(
+        `trailer\n<< /Size ${entries.length} /Root ${CATALOG_NUMBER} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`,
+      )
+
+      flush()
+      return new Blob(parts, { type: 'application/pdf' })
+    },
+  }
+}
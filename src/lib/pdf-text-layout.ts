@@ -0,0 +1,305 @@
+import * as pdfjsLib from 'pdfjs-dist'
+
+type TextContent = Awaited<ReturnType<pdfjsLib.PDFPageProxy['getTextContent']>>
+type TextItem = Extract<TextContent['items'][number], { str: string }>
+
+/**
+ * A piece of text from the page content stream, positioned in viewport
+ * coordinates at scale 1 (top-left origin, page rotation applied)
+ */
+export interface PositionedText {
+  text: string
+  x: number
+  /** Baseline position */
+  y: number
+  width: number
+  fontSize: number
+  fontName: string
+  bold: boolean
+  italic: boolean
+}
+
+export interface TextRun {
+  text: string
+  fontSize: number
+  fontName: string
+  bold: boolean
+  italic: boolean
+}
+
+export interface TextLine {
+  x: number
+  /** Top of the line box */
+  y: number
+  width: number
+  height: number
+  baseline: number
+  fontSize: number
+  runs: Array<TextRun>
+  items: Array<PositionedText>
+}
+
+export interface TextParagraph {
+  x: number
+  y: number
+  width: number
+  height: number
+  fontSize: number
+  lines: Array<TextLine>
+}
+
+export interface PageTextLayout {
+  width: number
+  height: number
+  items: Array<PositionedText>
+  lines: Array<TextLine>
+  paragraphs: Array<TextParagraph>
+}
+
+const BOLD_PATTERN = /bold|black|heavy|semibold|demi/i
+const ITALIC_PATTERN = /italic|oblique/i
+
+interface FontInfo {
+  name: string
+  bold: boolean
+  italic: boolean
+}
+
+/**
+ * Looks up the font pdfjs loaded for a text item. Fonts are only available
+ * once the page's operator list has been requested.
+ */
+function getFontInfo(page: pdfjsLib.PDFPageProxy, fontName: string): FontInfo {
+  let font: { name?: string; bold?: boolean; italic?: boolean } | null = null
+  try {
+    if (page.commonObjs.has(fontName)) {
+      font = page.commonObjs.get(fontName)
+    }
+  } catch {
+    font = null
+  }
+
+  // Subset fonts are named like "ABCDEF+Arial-BoldMT"
+  const name = (font?.name ?? fontName).replace(/^[A-Z]{6}\+/, '')
+  return {
+    name,
+    bold: Boolean(font?.bold) || BOLD_PATTERN.test(name),
+    italic: Boolean(font?.italic) || ITALIC_PATTERN.test(name),
+  }
+}
+
+/**
+ * Strips the style suffix from a PDF font name, e.g. "Arial-BoldMT" → "Arial"
+ */
+export function getFontFamily(fontName: string): string {
+  return fontName
+    .replace(/[-,](bold|italic|oblique|regular|black|medium|light).*$/i, '')
+    .replace(/(MT|PS)$/, '')
+}
+
+function positionItems(
+  page: pdfjsLib.PDFPageProxy,
+  items: Array<TextItem>,
+  viewport: pdfjsLib.PageViewport,
+): Array<PositionedText> {
+  const fonts = new Map<string, FontInfo>()
+  const positioned: Array<PositionedText> = []
+
+  for (const item of items) {
+    if (!item.str) continue
+
+    const tx = pdfjsLib.Util.transform(viewport.transform, item.transform)
+    const fontSize = Math.hypot(tx[2], tx[3])
+    if (fontSize === 0) continue
+
+    let font = fonts.get(item.fontName)
+    if (!font) {
+      font = getFontInfo(page, item.fontName)
+      fonts.set(item.fontName, font)
+    }
+
+    positioned.push({
+      text: item.str,
+      x: tx[4],
+      y: tx[5],
+      width: item.width,
+      fontSize,
+      fontName: font.name,
+      bold: font.bold,
+      italic: font.italic,
+    })
+  }
+
+  return positioned
+}
+
+function isSameRunStyle(run: TextRun, item: PositionedText) {
+  return (
+    run.bold === item.bold &&
+    run.italic === item.italic &&
+    run.fontName === item.fontName &&
+    Math.abs(run.fontSize - item.fontSize) < 0.5
+  )
+}
+
+/**
+ * Builds a line from items sharing a baseline, inserting spaces where the
+ * horizontal gap between items is wider than a fraction of the font size
+ */
+function buildLine(items: Array<PositionedText>): TextLine {
+  items.sort((a, b) => a.x - b.x)
+
+  const runs: Array<TextRun> = []
+  let previous: PositionedText | null = null
+
+  for (const item of items) {
+    let text = item.text
+    if (previous) {
+      const gap = item.x - (previous.x + previous.width)
+      const needsSpace =
+        gap > Math.min(previous.fontSize, item.fontSize) * 0.2 &&
+        !/\s$/.test(previous.text) &&
+        !/^\s/.test(text)
+      if (needsSpace) text = ' ' + text
+    }
+
+    const lastRun = runs.at(-1)
+    if (lastRun && isSameRunStyle(lastRun, item)) {
+      lastRun.text += text
+    } else {
+      runs.push({
+        text,
+        fontSize: item.fontSize,
+        fontName: item.fontName,
+        bold: item.bold,
+        italic: item.italic,
+      })
+    }
+    previous = item
+  }
+
+  const fontSize = Math.max(...items.map((item) => item.fontSize))
+  const baseline = Math.max(...items.map((item) => item.y))
+  const x = Math.min(...items.map((item) => item.x))
+  const right = Math.max(...items.map((item) => item.x + item.width))
+
+  return {
+    x,
+    y: baseline - fontSize,
+    width: right - x,
+    height: fontSize * 1.2,
+    baseline,
+    fontSize,
+    runs,
+    items,
+  }
+}
+
+/**
+ * Groups items into lines by baseline, top to bottom
+ */
+export function groupIntoLines(items: Array<PositionedText>): Array<TextLine> {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x)
+  const groups: Array<Array<PositionedText>> = []
+
+  for (const item of sorted) {
+    const group = groups.at(-1)
+    const tolerance = item.fontSize * 0.5
+    if (group && Math.abs(group[0].y - item.y) <= tolerance) {
+      group.push(item)
+    } else {
+      groups.push([item])
+    }
+  }
+
+  return groups.map(buildLine)
+}
+
+function getFirstWordWidth(line: TextLine): number {
+  const text = getLineText(line)
+  const firstWord = text.trimStart().split(/\s/)[0]
+  return text.length > 0 ? (line.width * firstWord.length) / text.length : 0
+}
+
+/**
+ * Joins consecutive lines into paragraphs. A new paragraph starts on a larger
+ * vertical gap, a font size change, an indented first line, or after a line
+ * that stops short of the paragraph's right edge by more than the width of
+ * the next line's first word (the word would have fit, so the break was
+ * intentional).
+ */
+export function groupIntoParagraphs(
+  lines: Array<TextLine>,
+): Array<TextParagraph> {
+  const paragraphs: Array<TextParagraph> = []
+  let current: Array<TextLine> = []
+
+  const flush = () => {
+    if (current.length === 0) return
+    const x = Math.min(...current.map((line) => line.x))
+    const right = Math.max(...current.map((line) => line.x + line.width))
+    const last = current[current.length - 1]
+    paragraphs.push({
+      x,
+      y: current[0].y,
+      width: right - x,
+      height: last.y + last.height - current[0].y,
+      fontSize: Math.max(...current.map((line) => line.fontSize)),
+      lines: current,
+    })
+    current = []
+  }
+
+  for (const line of lines) {
+    const previous = current.at(-1)
+    if (previous) {
+      const right = Math.max(...current.map((l) => l.x + l.width))
+      const gap = line.y - (previous.y + previous.height)
+      const breaksParagraph =
+        gap > previous.fontSize * 0.6 ||
+        Math.abs(line.fontSize - previous.fontSize) > 1 ||
+        line.x > previous.x + line.fontSize * 2 ||
+        right - (previous.x + previous.width) >
+          getFirstWordWidth(line) + previous.fontSize
+      if (breaksParagraph) flush()
+    }
+    current.push(line)
+  }
+  flush()
+
+  return paragraphs
+}
+
+/**
+ * Extracts the text of a page and reconstructs its lines and paragraphs
+ */
+export async function extractPageText(
+  page: pdfjsLib.PDFPageProxy,
+): Promise<PageTextLayout> {
+  const viewport = page.getViewport({ scale: 1 })
+  // Requesting the operator list loads the page fonts into commonObjs, which
+  // carry the real font names and bold/italic flags
+  await page.getOperatorList()
+  const textContent = await page.getTextContent()
+
+  const textItems = textContent.items.filter(
+    (item): item is TextItem => 'str' in item,
+  )
+  const items = positionItems(page, textItems, viewport)
+  const lines = groupIntoLines(items.filter((item) => item.text.trim()))
+
+  return {
+    width: viewport.width,
+    height: viewport.height,
+    items,
+    lines,
+    paragraphs: groupIntoParagraphs(lines),
+  }
+}
+
+/**
+ * Plain text of a line, concatenating its runs
+ */
+export function getLineText(line: TextLine): string {
+  return line.runs.map((run) => run.text).join('')
+}
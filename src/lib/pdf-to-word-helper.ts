@@ -0,0 +1,582 @@
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  HeightRule,
+  ImageRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import type { FileChild, ISectionOptions } from 'docx'
+import type { PageRenderer } from '@/lib/page-renderer'
+import type { Rect } from '@/lib/pdf-page-geometry'
+import type { TextLine, TextParagraph } from '@/lib/pdf-text-layout'
+import type { DetectedTable } from '@/lib/table-detection'
+import { containsKhmer } from '@/lib/khmer-text'
+import { openPageRenderer, toDataUrl } from '@/lib/page-renderer'
+import {
+  getFontFamily,
+  getLineText,
+  groupIntoParagraphs,
+} from '@/lib/pdf-text-layout'
+import { detectTables } from '@/lib/table-detection'
+
+/** Pages without any text and images are embedded rendered at this scale */
+const IMAGE_SCALE = 2
+/** Smaller images, like bullets and rules, are left out */
+const MIN_IMAGE_SIZE = 12
+/** Images covering more of the page are backgrounds or scans under text */
+const MAX_IMAGE_COVERAGE = 0.9
+const POINTS_TO_TWIPS = 20
+const POINTS_TO_PIXELS = 96 / 72
+
+export interface PageImage {
+  bytes: Uint8Array
+  dataUrl: string
+  width: number
+  height: number
+}
+
+export type PageBlock =
+  | { type: 'paragraph'; paragraph: TextParagraph }
+  | { type: 'table'; table: DetectedTable }
+  /** An image next to the text, rendered with whatever is drawn over it */
+  | { type: 'image'; area: Rect; image: PageImage }
+
+export interface ExtractedPage {
+  width: number
+  height: number
+  blocks: Array<PageBlock>
+  /** Only set for pages that have no text */
+  image?: PageImage
+}
+
+export interface ExtractedDocument {
+  title: string
+  pages: Array<ExtractedPage>
+  /** Most common font size, used to tell headings from body text */
+  bodyFontSize: number
+}
+
+async function renderPageImage(
+  renderer: PageRenderer,
+  pageNumber: number,
+  area?: Rect,
+): Promise<PageImage> {
+  const { bytes, width, height } = await renderer.encodePage(pageNumber, {
+    scale: IMAGE_SCALE,
+    type: 'image/png',
+    area,
+  })
+
+  return {
+    bytes,
+    dataUrl: await toDataUrl(bytes, 'image/png'),
+    width: width / IMAGE_SCALE,
+    height: height / IMAGE_SCALE,
+  }
+}
+
+function getBlockBounds(block: PageBlock): Rect {
+  switch (block.type) {
+    case 'paragraph':
+      return block.paragraph
+    case 'table':
+      return block.table
+    case 'image':
+      return block.area
+  }
+}
+
+function getBlockParagraphs(block: PageBlock): Array<TextParagraph> {
+  switch (block.type) {
+    case 'paragraph':
+      return [block.paragraph]
+    case 'table':
+      return block.table.cells.flatMap((cell) => cell.paragraphs)
+    case 'image':
+      return []
+  }
+}
+
+/** Images worth keeping next to the text of a page */
+function isContentImage(
+  area: Rect,
+  page: { width: number; height: number },
+): boolean {
+  return (
+    area.width >= MIN_IMAGE_SIZE &&
+    area.height >= MIN_IMAGE_SIZE &&
+    area.width * area.height < page.width * page.height * MAX_IMAGE_COVERAGE
+  )
+}
+
+function getBodyFontSize(pages: Array<ExtractedPage>): number {
+  const counts = new Map<number, number>()
+  for (const page of pages) {
+    for (const paragraph of page.blocks.flatMap(getBlockParagraphs)) {
+      for (const line of paragraph.lines) {
+        for (const run of line.runs) {
+          const size = Math.round(run.fontSize)
+          counts.set(size, (counts.get(size) ?? 0) + run.text.length)
+        }
+      }
+    }
+  }
+
+  let bodyFontSize = 12
+  let bestCount = 0
+  counts.forEach((count, size) => {
+    if (count > bestCount) {
+      bestCount = count
+      bodyFontSize = size
+    }
+  })
+  return bodyFontSize
+}
+
+/**
+ * Reads the text of every page of a PDF in a worker, which reads the file in
+ * ranges. Images on pages with text are rendered on their own and placed
+ * between the text; pages without text are rendered to an image instead.
+ */
+export async function extractPdfDocument(
+  file: File,
+  onProgress?: (current: number, total: number) => void,
+): Promise<ExtractedDocument> {
+  const renderer = await openPageRenderer(file)
+  const pages: Array<ExtractedPage> = []
+
+  try {
+    for (let pageNum = 1; pageNum <= renderer.pageCount; pageNum++) {
+      const {
+        text: layout,
+        images,
+        rules,
+      } = await renderer.analyzePage(pageNum)
+      const { tables, lines } = detectTables(layout.items, rules)
+      const textBlocks: Array<PageBlock> = [
+        ...groupIntoParagraphs(lines).map(
+          (paragraph): PageBlock => ({ type: 'paragraph', paragraph }),
+        ),
+        ...tables.map((table): PageBlock => ({ type: 'table', table })),
+      ]
+
+      const image =
+        textBlocks.length === 0
+          ? await renderPageImage(renderer, pageNum)
+          : undefined
+
+      const imageBlocks: Array<PageBlock> = []
+      if (!image) {
+        for (const area of images) {
+          if (!isContentImage(area, layout)) continue
+          imageBlocks.push({
+            type: 'image',
+            area,
+            image: await renderPageImage(renderer, pageNum, area),
+          })
+        }
+      }
+
+      const blocks = [...textBlocks, ...imageBlocks].sort(
+        (a, b) => getBlockBounds(a).y - getBlockBounds(b).y,
+      )
+
+      pages.push({
+        width: layout.width,
+        height: layout.height,
+        blocks,
+        image,
+      })
+
+      onProgress?.(pageNum, renderer.pageCount)
+    }
+  } finally {
+    renderer.destroy()
+  }
+
+  return {
+    title: file.name.replace(/\.pdf$/i, ''),
+    pages,
+    bodyFontSize: getBodyFontSize(pages),
+  }
+}
+
+function getHeadingLevel(
+  paragraph: TextParagraph,
+  bodyFontSize: number,
+): 1 | 2 | 3 | null {
+  const ratio = paragraph.fontSize / bodyFontSize
+  const isBold = paragraph.lines.every((line) =>
+    line.runs.every((run) => run.bold || !run.text.trim()),
+  )
+
+  if (ratio >= 1.5) return 1
+  if (ratio >= 1.25) return 2
+  if (ratio >= 1.1 && isBold && paragraph.lines.length === 1) return 3
+  return null
+}
+
+/**
+ * Lines of a paragraph are reflowed into one, so a separator is needed where
+ * a line wraps. Khmer is written without spaces between words.
+ */
+function getLineSeparator(previous: TextLine, next: TextLine): string {
+  const before = getLineText(previous)
+  const after = getLineText(next)
+  if (/\s$/.test(before) || /^\s/.test(after)) return ''
+  if (containsKhmer(before.slice(-1)) && containsKhmer(after.charAt(0))) {
+    return ''
+  }
+  return ' '
+}
+
+function isCentered(paragraph: TextParagraph, pageWidth: number): boolean {
+  const center = paragraph.x + paragraph.width / 2
+  return (
+    paragraph.lines.length <= 2 &&
+    Math.abs(center - pageWidth / 2) < pageWidth * 0.03 &&
+    paragraph.width < pageWidth * 0.6
+  )
+}
+
+function getPageMargins(page: ExtractedPage) {
+  const paragraphs = page.blocks.map(getBlockBounds)
+  if (paragraphs.length === 0) {
+    return { top: 36, right: 36, bottom: 36, left: 36 }
+  }
+
+  const left = Math.min(...paragraphs.map((p) => p.x))
+  const right = Math.max(...paragraphs.map((p) => p.x + p.width))
+  const top = Math.min(...paragraphs.map((p) => p.y))
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 108)
+
+  return {
+    top: clamp(top),
+    right: clamp(page.width - right),
+    bottom: 36,
+    left: clamp(left),
+  }
+}
+
+function toDocxRuns(paragraph: TextParagraph): Array<TextRun> {
+  const runs: Array<TextRun> = []
+  paragraph.lines.forEach((line, index) => {
+    line.runs.forEach((run, runIndex) => {
+      const separator =
+        index > 0 && runIndex === 0
+          ? getLineSeparator(paragraph.lines[index - 1], line)
+          : ''
+      runs.push(
+        new TextRun({
+          text: separator + run.text,
+          size: Math.round(run.fontSize * 2),
+          bold: run.bold,
+          italics: run.italic,
+          font: getFontFamily(run.fontName),
+        }),
+      )
+    })
+  })
+  return runs
+}
+
+/**
+ * Build a Word table. Merged cells keep their spans; docx inserts the
+ * continuation cells for row spans itself.
+ */
+function toDocxTable(table: DetectedTable, marginLeft: number): Table {
+  const toTwips = (points: number) => Math.round(points * POINTS_TO_TWIPS)
+
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: toTwips(table.width), type: WidthType.DXA },
+    columnWidths: table.columnWidths.map(toTwips),
+    indent: {
+      size: toTwips(Math.max(table.x - marginLeft, 0)),
+      type: WidthType.DXA,
+    },
+    rows: table.rowHeights.map(
+      (height, row) =>
+        new TableRow({
+          height: { value: toTwips(height), rule: HeightRule.ATLEAST },
+          children: table.cells
+            .filter((cell) => cell.row === row)
+            .sort((a, b) => a.column - b.column)
+            .map((cell) => {
+              const width = table.columnWidths
+                .slice(cell.column, cell.column + cell.columnSpan)
+                .reduce((sum, value) => sum + value, 0)
+              return new TableCell({
+                columnSpan: cell.columnSpan,
+                rowSpan: cell.rowSpan,
+                width: { size: toTwips(width), type: WidthType.DXA },
+                children:
+                  cell.paragraphs.length > 0
+                    ? cell.paragraphs.map(
+                        (paragraph) =>
+                          new Paragraph({ children: toDocxRuns(paragraph) }),
+                      )
+                    : [new Paragraph({})],
+              })
+            }),
+        }),
+    ),
+  })
+}
+
+/** An inline image, shrunk to fit `maxWidth` and `maxHeight` in points */
+function toDocxImage(
+  image: PageImage,
+  maxWidth: number,
+  maxHeight: number,
+): ImageRun {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height)
+  return new ImageRun({
+    type: 'png',
+    data: image.bytes,
+    transformation: {
+      width: image.width * scale * POINTS_TO_PIXELS,
+      height: image.height * scale * POINTS_TO_PIXELS,
+    },
+  })
+}
+
+function toDocxSection(
+  page: ExtractedPage,
+  bodyFontSize: number,
+): ISectionOptions {
+  const margins = getPageMargins(page)
+  const maxWidth = page.width - margins.left - margins.right
+  const maxHeight = page.height - margins.top - margins.bottom
+  const children: Array<FileChild> = []
+
+  if (page.image) {
+    children.push(
+      new Paragraph({
+        children: [toDocxImage(page.image, maxWidth, maxHeight)],
+      }),
+    )
+  }
+
+  let previousBottom = margins.top
+  for (const block of page.blocks) {
+    const bounds = getBlockBounds(block)
+    const spacingBefore = Math.round(
+      Math.max(bounds.y - previousBottom, 0) * POINTS_TO_TWIPS,
+    )
+    previousBottom = bounds.y + bounds.height
+
+    if (block.type === 'table') {
+      // Word needs a paragraph to carry the spacing above a table
+      if (spacingBefore > 0) {
+        children.push(new Paragraph({ spacing: { before: spacingBefore } }))
+      }
+      children.push(toDocxTable(block.table, margins.left))
+      continue
+    }
+
+    if (block.type === 'image') {
+      const indent = Math.max(bounds.x - margins.left, 0)
+      children.push(
+        new Paragraph({
+          children: [toDocxImage(block.image, maxWidth - indent, maxHeight)],
+          indent:
+            indent > 2
+              ? { left: Math.round(indent * POINTS_TO_TWIPS) }
+              : undefined,
+          spacing: { before: spacingBefore, after: 0 },
+        }),
+      )
+      continue
+    }
+
+    const { paragraph } = block
+    const level = getHeadingLevel(paragraph, bodyFontSize)
+    const indent = paragraph.x - margins.left
+
+    children.push(
+      new Paragraph({
+        children: toDocxRuns(paragraph),
+        heading:
+          level === 1
+            ? HeadingLevel.HEADING_1
+            : level === 2
+              ? HeadingLevel.HEADING_2
+              : level === 3
+                ? HeadingLevel.HEADING_3
+                : undefined,
+        alignment: isCentered(paragraph, page.width)
+          ? AlignmentType.CENTER
+          : undefined,
+        indent:
+          indent > 2
+            ? { left: Math.round(indent * POINTS_TO_TWIPS) }
+            : undefined,
+        spacing: { before: spacingBefore, after: 0 },
+      }),
+    )
+  }
+
+  if (children.length === 0) {
+    children.push(new Paragraph({}))
+  }
+
+  return {
+    properties: {
+      page: {
+        size: {
+          width: Math.round(page.width * POINTS_TO_TWIPS),
+          height: Math.round(page.height * POINTS_TO_TWIPS),
+        },
+        margin: {
+          top: Math.round(margins.top * POINTS_TO_TWIPS),
+          right: Math.round(margins.right * POINTS_TO_TWIPS),
+          bottom: Math.round(margins.bottom * POINTS_TO_TWIPS),
+          left: Math.round(margins.left * POINTS_TO_TWIPS),
+        },
+      },
+    },
+    children,
+  }
+}
+
+/**
+ * Build an editable DOCX with one section per PDF page
+ */
+export async function convertToDocx(
+  extracted: ExtractedDocument,
+): Promise<Blob> {
+  const document = new Document({
+    title: extracted.title,
+    sections: extracted.pages.map((page) =>
+      toDocxSection(page, extracted.bodyFontSize),
+    ),
+  })
+
+  return await Packer.toBlob(document)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function toHtmlParagraph(
+  paragraph: TextParagraph,
+  page: ExtractedPage,
+  bodyFontSize: number,
+): string {
+  const content = paragraph.lines
+    .map((line, index) => {
+      const separator =
+        index > 0 ? getLineSeparator(paragraph.lines[index - 1], line) : ''
+      return (
+        separator +
+        line.runs
+          .map((run) => {
+            let html = escapeHtml(run.text)
+            if (run.bold) html = `<strong>${html}</strong>`
+            if (run.italic) html = `<em>${html}</em>`
+            return Math.abs(run.fontSize - paragraph.fontSize) > 0.5
+              ? `<span style="font-size: ${run.fontSize.toFixed(1)}pt">${html}</span>`
+              : html
+          })
+          .join('')
+      )
+    })
+    .join('')
+
+  const level = getHeadingLevel(paragraph, bodyFontSize)
+  const tag = level ? `h${level}` : 'p'
+  const styles = [`font-size: ${paragraph.fontSize.toFixed(1)}pt`]
+  if (isCentered(paragraph, page.width)) styles.push('text-align: center')
+  return `    <${tag} style="${styles.join('; ')}">${content}</${tag}>\n`
+}
+
+function toHtmlTable(table: DetectedTable): string {
+  const rows = table.rowHeights.map((_, row) => {
+    const cells = table.cells
+      .filter((cell) => cell.row === row)
+      .sort((a, b) => a.column - b.column)
+      .map((cell) => {
+        const spans = [
+          cell.columnSpan > 1 ? ` colspan="${cell.columnSpan}"` : '',
+          cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '',
+        ].join('')
+        const content = cell.paragraphs
+          .map((paragraph) =>
+            paragraph.lines
+              .map((line) => escapeHtml(getLineText(line)))
+              .join(' '),
+          )
+          .join('<br>')
+        return `<td${spans}>${content}</td>`
+      })
+      .join('')
+    return `      <tr>${cells}</tr>\n`
+  })
+
+  return `    <table>\n${rows.join('')}    </table>\n`
+}
+
+/**
+ * Build a standalone HTML document of the extracted text
+ */
+export function convertToHtml(extracted: ExtractedDocument): string {
+  const pages = extracted.pages
+    .map((page, index) => {
+      const content = page.image
+        ? `    <img src="${page.image.dataUrl}" alt="Page ${index + 1}" />\n`
+        : page.blocks
+            .map((block) => {
+              switch (block.type) {
+                case 'paragraph':
+                  return toHtmlParagraph(
+                    block.paragraph,
+                    page,
+                    extracted.bodyFontSize,
+                  )
+                case 'table':
+                  return toHtmlTable(block.table)
+                case 'image':
+                  return `    <img src="${block.image.dataUrl}" alt="" style="width: ${block.image.width.toFixed(1)}pt" />\n`
+              }
+            })
+            .join('')
+      return `  <div class="page">
+    <div class="page-number">Page ${index + 1} of ${extracted.pages.length}</div>
+${content}  </div>
+`
+    })
+    .join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(extracted.title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; max-width: 1200px; margin: 0 auto; padding: 20px; background-color: #f5f5f5; }
+    .page { margin-bottom: 30px; background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); page-break-after: always; }
+    .page-number { color: #666; font-size: 14px; margin-bottom: 15px; font-weight: bold; }
+    .page p, .page h1, .page h2, .page h3 { margin: 0 0 0.6em; }
+    .page table { border-collapse: collapse; margin: 0 0 0.6em; }
+    .page td { border: 1px solid #999; padding: 4px 6px; vertical-align: top; }
+    .page img { max-width: 100%; height: auto; display: block; border: 1px solid #ddd; }
+  </style>
+</head>
+<body>
+${pages}</body>
+</html>`
+}
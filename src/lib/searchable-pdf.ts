@@ -0,0 +1,93 @@
+import { PDFDocument, TextRenderingMode } from 'pdf-lib'
+import type { PDFPage } from 'pdf-lib'
+import type { KhmerTextRenderer, TextStyle } from '@/lib/khmer-text'
+import type { OcrLine, OcrPageResult, OcrWord } from '@/lib/ocr-helper'
+import { createKhmerTextRenderer } from '@/lib/khmer-text'
+import { toPagePoint } from '@/lib/ocr-helper'
+import { getPageRotation, toPdfPoint } from '@/lib/pdf-page-geometry'
+
+/** Share of the line box height taken up by the font size */
+const FONT_SIZE_RATIO = 0.8
+
+/**
+ * Baseline of a word in image pixels. Tesseract's line baseline is used where
+ * available so descenders do not push the text layer down.
+ */
+function getWordBaseline(line: OcrLine, word: OcrWord): number {
+  const { baseline } = line
+  if (!baseline || baseline.x1 === baseline.x0) return word.bbox.y1
+
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0)
+  return baseline.y0 + slope * (word.bbox.x0 - baseline.x0)
+}
+
+function drawOcrPage(
+  page: PDFPage,
+  result: OcrPageResult,
+  renderer: KhmerTextRenderer,
+) {
+  // Image pixels per point, see toPagePoint
+  const radians = (result.rotation * Math.PI) / 180
+  const scale =
+    (result.width * Math.abs(Math.cos(radians)) +
+      result.height * Math.abs(Math.sin(radians))) /
+    result.imageWidth
+  // Text runs along the image rows, which the preprocessing rotated clockwise
+  const rotation = getPageRotation(page) + result.rotation
+
+  for (const block of result.blocks) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const lineHeight = (line.bbox.y1 - line.bbox.y0) * scale
+        const style: TextStyle = {
+          font: 'Khmer',
+          size: Math.max(lineHeight * FONT_SIZE_RATIO, 1),
+        }
+
+        for (const word of line.words) {
+          const text = word.text.trim()
+          if (!text) continue
+
+          const origin = toPdfPoint(
+            page,
+            toPagePoint(result, {
+              x: word.bbox.x0,
+              y: getWordBaseline(line, word),
+            }),
+          )
+
+          renderer.drawText(page, text, {
+            ...style,
+            x: origin.x,
+            y: origin.y,
+            rotate: rotation,
+            renderMode: TextRenderingMode.Invisible,
+            width: (word.bbox.x1 - word.bbox.x0) * scale,
+          })
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Adds an invisible text layer over the original pages so the document can
+ * be searched and its text selected. Pages without an OCR result, or whose
+ * result came from their own text, are left as they are.
+ */
+export async function createSearchablePdf(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  results: Array<OcrPageResult>,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes)
+  const renderer = await createKhmerTextRenderer(pdfDoc, ['Khmer'])
+  const pages = pdfDoc.getPages()
+
+  for (const result of results) {
+    const page = pages[result.pageNumber - 1] as PDFPage | undefined
+    if (!page || result.textLayer) continue
+    drawOcrPage(page, result, renderer)
+  }
+
+  return await pdfDoc.save()
+}
@@ -0,0 +1,655 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import type {
+  PositionedText,
+  TextLine,
+  TextParagraph,
+} from '@/lib/pdf-text-layout'
+import { groupIntoLines, groupIntoParagraphs } from '@/lib/pdf-text-layout'
+
+type OperatorList = Awaited<
+  ReturnType<pdfjsLib.PDFPageProxy['getOperatorList']>
+>
+type Matrix = Array<number>
+
+/** Path commands inside a pdfjs constructPath operator */
+const PATH_MOVE_TO = 0
+const PATH_LINE_TO = 1
+const PATH_CURVE_TO = 2
+const PATH_CLOSE = 3
+
+const STROKE_OPS = new Set<number>([
+  pdfjsLib.OPS.stroke,
+  pdfjsLib.OPS.closeStroke,
+  pdfjsLib.OPS.fillStroke,
+  pdfjsLib.OPS.eoFillStroke,
+  pdfjsLib.OPS.closeFillStroke,
+  pdfjsLib.OPS.closeEOFillStroke,
+])
+const FILL_OPS = new Set<number>([pdfjsLib.OPS.fill, pdfjsLib.OPS.eoFill])
+
+/** Distance (in points) under which two rules are considered to touch */
+const TOLERANCE = 2
+const MIN_RULE_LENGTH = 8
+/** Filled rectangles thinner than this are drawn rules */
+const MAX_RULE_THICKNESS = 3
+/** Gap between items, relative to the font size, that separates columns */
+const COLUMN_GAP = 1.5
+const MIN_TEXT_TABLE_ROWS = 3
+/** Text tables hold short values; longer runs of words are prose columns */
+const MAX_WORDS_PER_TEXT_CELL = 6
+
+export interface RulingLine {
+  orientation: 'horizontal' | 'vertical'
+  /** y of a horizontal rule, x of a vertical one */
+  position: number
+  start: number
+  end: number
+}
+
+export interface DetectedTableCell {
+  row: number
+  column: number
+  rowSpan: number
+  columnSpan: number
+  paragraphs: Array<TextParagraph>
+}
+
+/**
+ * A table in viewport coordinates at scale 1. Cells covered by a merged cell
+ * are not listed; the merged cell carries the spans instead.
+ */
+export interface DetectedTable {
+  x: number
+  y: number
+  width: number
+  height: number
+  columnWidths: Array<number>
+  rowHeights: Array<number>
+  cells: Array<DetectedTableCell>
+}
+
+export interface TableDetectionResult {
+  tables: Array<DetectedTable>
+  /** Lines that are not part of any table */
+  lines: Array<TextLine>
+}
+
+function transformPoint(x: number, y: number, m: Matrix): Array<number> {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+}
+
+function collectPathRules(
+  path: ArrayLike<number>,
+  ctm: Matrix,
+  isStroke: boolean,
+  rules: Array<RulingLine>,
+) {
+  const subpaths: Array<{ points: Array<Array<number>>; curved: boolean }> = []
+  let current: { points: Array<Array<number>>; curved: boolean } | null = null
+
+  for (let i = 0; i < path.length; ) {
+    switch (path[i++]) {
+      case PATH_MOVE_TO:
+        current = { points: [], curved: false }
+        subpaths.push(current)
+        current.points.push(transformPoint(path[i++], path[i++], ctm))
+        break
+      case PATH_LINE_TO:
+        current?.points.push(transformPoint(path[i++], path[i++], ctm))
+        break
+      case PATH_CURVE_TO:
+        if (current) current.curved = true
+        i += 6
+        break
+      case PATH_CLOSE:
+        if (current && current.points.length > 0) {
+          current.points.push(current.points[0])
+        }
+        break
+      default:
+        return
+    }
+  }
+
+  for (const subpath of subpaths) {
+    if (subpath.curved || subpath.points.length < 2) continue
+
+    const xs = subpath.points.map((p) => p[0])
+    const ys = subpath.points.map((p) => p[1])
+    const left = Math.min(...xs)
+    const right = Math.max(...xs)
+    const top = Math.min(...ys)
+    const bottom = Math.max(...ys)
+    const width = right - left
+    const height = bottom - top
+
+    // Thin filled or stroked boxes are rules drawn as rectangles
+    if (height <= MAX_RULE_THICKNESS && width >= MIN_RULE_LENGTH) {
+      rules.push({
+        orientation: 'horizontal',
+        position: (top + bottom) / 2,
+        start: left,
+        end: right,
+      })
+      continue
+    }
+    if (width <= MAX_RULE_THICKNESS && height >= MIN_RULE_LENGTH) {
+      rules.push({
+        orientation: 'vertical',
+        position: (left + right) / 2,
+        start: top,
+        end: bottom,
+      })
+      continue
+    }
+
+    // Larger filled shapes are backgrounds, not borders
+    if (!isStroke) continue
+
+    for (let j = 1; j < subpath.points.length; j++) {
+      const [x1, y1] = subpath.points[j - 1]
+      const [x2, y2] = subpath.points[j]
+      if (
+        Math.abs(y1 - y2) <= TOLERANCE &&
+        Math.abs(x1 - x2) >= MIN_RULE_LENGTH
+      ) {
+        rules.push({
+          orientation: 'horizontal',
+          position: (y1 + y2) / 2,
+          start: Math.min(x1, x2),
+          end: Math.max(x1, x2),
+        })
+      } else if (
+        Math.abs(x1 - x2) <= TOLERANCE &&
+        Math.abs(y1 - y2) >= MIN_RULE_LENGTH
+      ) {
+        rules.push({
+          orientation: 'vertical',
+          position: (x1 + x2) / 2,
+          start: Math.min(y1, y2),
+          end: Math.max(y1, y2),
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Joins collinear rules that touch or overlap
+ */
+function mergeRules(rules: Array<RulingLine>): Array<RulingLine> {
+  const sorted = [...rules].sort(
+    (a, b) =>
+      a.orientation.localeCompare(b.orientation) ||
+      a.position - b.position ||
+      a.start - b.start,
+  )
+  const merged: Array<RulingLine> = []
+
+  for (const rule of sorted) {
+    const candidate = merged.find(
+      (other) =>
+        other.orientation === rule.orientation &&
+        Math.abs(other.position - rule.position) <= TOLERANCE &&
+        rule.start <= other.end + TOLERANCE,
+    )
+    if (candidate) {
+      candidate.end = Math.max(candidate.end, rule.end)
+    } else {
+      merged.push({ ...rule })
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Finds the horizontal and vertical rules drawn on a page, in viewport
+ * coordinates
+ */
+export function extractRulingLines(
+  operatorList: OperatorList,
+  viewport: pdfjsLib.PageViewport,
+): Array<RulingLine> {
+  const rules: Array<RulingLine> = []
+  const stack: Array<Matrix> = []
+  let ctm: Matrix = viewport.transform
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i]
+    const args = operatorList.argsArray[i]
+
+    switch (fn) {
+      case pdfjsLib.OPS.save:
+        stack.push(ctm)
+        break
+      case pdfjsLib.OPS.restore:
+        ctm = stack.pop() ?? ctm
+        break
+      case pdfjsLib.OPS.transform:
+        ctm = pdfjsLib.Util.transform(ctm, args)
+        break
+      case pdfjsLib.OPS.paintFormXObjectBegin:
+        stack.push(ctm)
+        if (args?.[0]?.length === 6) {
+          ctm = pdfjsLib.Util.transform(ctm, args[0])
+        }
+        break
+      case pdfjsLib.OPS.paintFormXObjectEnd:
+        ctm = stack.pop() ?? ctm
+        break
+      case pdfjsLib.OPS.constructPath: {
+        const [paintOp, [path]] = args
+        const isStroke = STROKE_OPS.has(paintOp)
+        if (path && (isStroke || FILL_OPS.has(paintOp))) {
+          collectPathRules(path, ctm, isStroke, rules)
+        }
+        break
+      }
+    }
+  }
+
+  return mergeRules(rules)
+}
+
+function rulesIntersect(a: RulingLine, b: RulingLine): boolean {
+  if (a.orientation === b.orientation) return false
+  return (
+    b.position >= a.start - TOLERANCE &&
+    b.position <= a.end + TOLERANCE &&
+    a.position >= b.start - TOLERANCE &&
+    a.position <= b.end + TOLERANCE
+  )
+}
+
+/**
+ * Splits rules into groups of connected horizontal and vertical lines
+ */
+function groupRules(rules: Array<RulingLine>): Array<Array<RulingLine>> {
+  const parent = rules.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  for (let i = 0; i < rules.length; i++) {
+    for (let j = i + 1; j < rules.length; j++) {
+      if (rulesIntersect(rules[i], rules[j])) {
+        parent[find(i)] = find(j)
+      }
+    }
+  }
+
+  const groups = new Map<number, Array<RulingLine>>()
+  rules.forEach((rule, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) ?? []), rule])
+  })
+  return Array.from(groups.values())
+}
+
+function clusterPositions(values: Array<number>): Array<number> {
+  const sorted = [...values].sort((a, b) => a - b)
+  const clusters: Array<Array<number>> = []
+  for (const value of sorted) {
+    const cluster = clusters.at(-1)
+    if (cluster && value - cluster[cluster.length - 1] <= TOLERANCE) {
+      cluster.push(value)
+    } else {
+      clusters.push([value])
+    }
+  }
+  return clusters.map(
+    (cluster) =>
+      cluster.reduce((sum, value) => sum + value, 0) / cluster.length,
+  )
+}
+
+function getItemCenter(item: PositionedText) {
+  return { x: item.x + item.width / 2, y: item.y - item.fontSize * 0.3 }
+}
+
+function findInterval(edges: Array<number>, value: number): number {
+  for (let i = 0; i < edges.length - 1; i++) {
+    if (value >= edges[i] && value < edges[i + 1]) return i
+  }
+  return -1
+}
+
+function toParagraphs(items: Array<PositionedText>): Array<TextParagraph> {
+  return groupIntoParagraphs(groupIntoLines(items))
+}
+
+/**
+ * Builds a table from a group of connected rules. A cell extends into its
+ * neighbour wherever the rule between them is missing, which is how merged
+ * cells are drawn.
+ */
+function buildRuledTable(
+  rules: Array<RulingLine>,
+  items: Array<PositionedText>,
+  claimed: Set<PositionedText>,
+): DetectedTable | null {
+  const horizontals = rules.filter((rule) => rule.orientation === 'horizontal')
+  const verticals = rules.filter((rule) => rule.orientation === 'vertical')
+  const rowEdges = clusterPositions(horizontals.map((rule) => rule.position))
+  const columnEdges = clusterPositions(verticals.map((rule) => rule.position))
+  const rowCount = rowEdges.length - 1
+  const columnCount = columnEdges.length - 1
+
+  // A single box is a frame, not a table
+  if (rowCount < 1 || columnCount < 1 || rowCount * columnCount < 2) {
+    return null
+  }
+
+  const hasRule = (
+    candidates: Array<RulingLine>,
+    position: number,
+    from: number,
+    to: number,
+  ) => {
+    const middle = (from + to) / 2
+    return candidates.some(
+      (rule) =>
+        Math.abs(rule.position - position) <= TOLERANCE &&
+        rule.start <= middle &&
+        rule.end >= middle,
+    )
+  }
+
+  const owners: Array<Array<DetectedTableCell | null>> = Array.from(
+    { length: rowCount },
+    () => Array<DetectedTableCell | null>(columnCount).fill(null),
+  )
+  const cells: Array<DetectedTableCell> = []
+
+  for (let row = 0; row < rowCount; row++) {
+    for (let column = 0; column < columnCount; column++) {
+      if (owners[row][column]) continue
+
+      let columnSpan = 1
+      while (
+        column + columnSpan < columnCount &&
+        !owners[row][column + columnSpan] &&
+        !hasRule(
+          verticals,
+          columnEdges[column + columnSpan],
+          rowEdges[row],
+          rowEdges[row + 1],
+        )
+      ) {
+        columnSpan++
+      }
+
+      let rowSpan = 1
+      const canExtendDown = () => {
+        for (let c = column; c < column + columnSpan; c++) {
+          if (owners[row + rowSpan][c]) return false
+          if (
+            hasRule(
+              horizontals,
+              rowEdges[row + rowSpan],
+              columnEdges[c],
+              columnEdges[c + 1],
+            )
+          ) {
+            return false
+          }
+        }
+        return true
+      }
+      while (row + rowSpan < rowCount && canExtendDown()) {
+        rowSpan++
+      }
+
+      const cell: DetectedTableCell = {
+        row,
+        column,
+        rowSpan,
+        columnSpan,
+        paragraphs: [],
+      }
+      for (let r = row; r < row + rowSpan; r++) {
+        for (let c = column; c < column + columnSpan; c++) {
+          owners[r][c] = cell
+        }
+      }
+      cells.push(cell)
+    }
+  }
+
+  const cellItems = new Map<DetectedTableCell, Array<PositionedText>>()
+  for (const item of items) {
+    if (claimed.has(item)) continue
+    const center = getItemCenter(item)
+    const row = findInterval(rowEdges, center.y)
+    const column = findInterval(columnEdges, center.x)
+    if (row < 0 || column < 0) continue
+
+    const cell = owners[row][column]
+    if (!cell) continue
+    cellItems.set(cell, [...(cellItems.get(cell) ?? []), item])
+    claimed.add(item)
+  }
+
+  // Grids without any text are decoration
+  if (cellItems.size === 0) return null
+
+  cellItems.forEach((cellContent, cell) => {
+    cell.paragraphs = toParagraphs(cellContent)
+  })
+
+  return {
+    x: columnEdges[0],
+    y: rowEdges[0],
+    width: columnEdges[columnCount] - columnEdges[0],
+    height: rowEdges[rowCount] - rowEdges[0],
+    columnWidths: columnEdges.slice(1).map((edge, i) => edge - columnEdges[i]),
+    rowHeights: rowEdges.slice(1).map((edge, i) => edge - rowEdges[i]),
+    cells,
+  }
+}
+
+/**
+ * Splits a line into segments wherever the gap between items is wide enough
+ * to be a column gap
+ */
+function splitLineSegments(line: TextLine): Array<Array<PositionedText>> {
+  const items = [...line.items].sort((a, b) => a.x - b.x)
+  const segments: Array<Array<PositionedText>> = []
+  let right = -Infinity
+
+  for (const item of items) {
+    const segment = segments.at(-1)
+    if (segment && item.x - right <= line.fontSize * COLUMN_GAP) {
+      segment.push(item)
+    } else {
+      segments.push([item])
+    }
+    right = Math.max(right, item.x + item.width)
+  }
+
+  return segments
+}
+
+function getSegmentBounds(segment: Array<PositionedText>) {
+  return {
+    start: Math.min(...segment.map((item) => item.x)),
+    end: Math.max(...segment.map((item) => item.x + item.width)),
+  }
+}
+
+function countWords(segment: Array<PositionedText>): number {
+  return segment
+    .map((item) => item.text)
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean).length
+}
+
+/**
+ * Builds a table from consecutive lines that are split into aligned
+ * segments. Column intervals come from the rows with the most segments, so a
+ * segment reaching over several of them becomes a merged cell.
+ */
+function buildTextTable(
+  lines: Array<TextLine>,
+  lineSegments: Array<Array<Array<PositionedText>>>,
+): DetectedTable | null {
+  const maxSegments = Math.max(...lineSegments.map((s) => s.length))
+  const intervals = lineSegments
+    .filter((segments) => segments.length === maxSegments)
+    .flatMap((segments) => segments.map(getSegmentBounds))
+    .sort((a, b) => a.start - b.start)
+
+  const columns: Array<{ start: number; end: number }> = []
+  for (const interval of intervals) {
+    const column = columns.at(-1)
+    if (column && interval.start <= column.end) {
+      column.end = Math.max(column.end, interval.end)
+    } else {
+      columns.push({ ...interval })
+    }
+  }
+  if (columns.length < 2) return null
+
+  const allSegments = lineSegments.flat()
+  const averageWords =
+    allSegments.reduce((sum, segment) => sum + countWords(segment), 0) /
+    allSegments.length
+  if (averageWords > MAX_WORDS_PER_TEXT_CELL) return null
+
+  const left = Math.min(
+    columns[0].start,
+    ...allSegments.map((s) => getSegmentBounds(s).start),
+  )
+  const right = Math.max(
+    columns[columns.length - 1].end,
+    ...allSegments.map((s) => getSegmentBounds(s).end),
+  )
+  const columnEdges = [
+    left,
+    ...columns.slice(1).map((column, i) => (columns[i].end + column.start) / 2),
+    right,
+  ]
+
+  const rowEdges = [
+    lines[0].y,
+    ...lines.slice(1).map((line, i) => {
+      const previous = lines[i]
+      return (previous.y + previous.height + line.y) / 2
+    }),
+    lines[lines.length - 1].y + lines[lines.length - 1].height,
+  ]
+
+  const cells: Array<DetectedTableCell> = []
+  lineSegments.forEach((segments, row) => {
+    let nextColumn = 0
+    for (const segment of segments) {
+      const bounds = getSegmentBounds(segment)
+      let first = findInterval(columnEdges, bounds.start)
+      let last = findInterval(columnEdges, bounds.end - 0.01)
+      if (first < nextColumn) first = nextColumn
+      if (last < first) last = first
+      if (first >= columns.length) break
+
+      for (let column = nextColumn; column < first; column++) {
+        cells.push({ row, column, rowSpan: 1, columnSpan: 1, paragraphs: [] })
+      }
+      cells.push({
+        row,
+        column: first,
+        rowSpan: 1,
+        columnSpan: Math.min(last, columns.length - 1) - first + 1,
+        paragraphs: toParagraphs(segment),
+      })
+      nextColumn = Math.min(last, columns.length - 1) + 1
+    }
+    for (let column = nextColumn; column < columns.length; column++) {
+      cells.push({ row, column, rowSpan: 1, columnSpan: 1, paragraphs: [] })
+    }
+  })
+
+  return {
+    x: left,
+    y: rowEdges[0],
+    width: right - left,
+    height: rowEdges[rowEdges.length - 1] - rowEdges[0],
+    columnWidths: columnEdges.slice(1).map((edge, i) => edge - columnEdges[i]),
+    rowHeights: rowEdges.slice(1).map((edge, i) => edge - rowEdges[i]),
+    cells,
+  }
+}
+
+/**
+ * Finds runs of lines that look like rows of an unruled table
+ */
+function detectTextTables(lines: Array<TextLine>): TableDetectionResult {
+  const tables: Array<DetectedTable> = []
+  const remaining: Array<TextLine> = []
+  const segmentsByLine = lines.map(splitLineSegments)
+
+  let runStart = 0
+  const closeRun = (runEnd: number) => {
+    const runLines = lines.slice(runStart, runEnd)
+    const table =
+      runLines.length >= MIN_TEXT_TABLE_ROWS
+        ? buildTextTable(runLines, segmentsByLine.slice(runStart, runEnd))
+        : null
+    if (table) {
+      tables.push(table)
+    } else {
+      remaining.push(...runLines)
+    }
+  }
+
+  for (let i = 0; i <= lines.length; i++) {
+    const isRow = i < lines.length && segmentsByLine[i].length >= 2
+    const continuesRun =
+      isRow &&
+      i > runStart &&
+      lines[i].y - (lines[i - 1].y + lines[i - 1].height) <
+        lines[i - 1].fontSize * 1.5
+
+    if (continuesRun) continue
+
+    closeRun(i)
+    runStart = i
+    if (i < lines.length && !isRow) {
+      remaining.push(lines[i])
+      runStart = i + 1
+    }
+  }
+
+  return { tables, lines: remaining }
+}
+
+/**
+ * Finds tables on a page: grids drawn with ruling lines first, then columns
+ * of aligned text without borders. Returns the tables and the lines that are
+ * left over for normal paragraph layout.
+ */
+export function detectTables(
+  items: Array<PositionedText>,
+  rules: Array<RulingLine>,
+): TableDetectionResult {
+  const textItems = items.filter((item) => item.text.trim())
+  const claimed = new Set<PositionedText>()
+  const tables: Array<DetectedTable> = []
+
+  for (const group of groupRules(rules)) {
+    const table = buildRuledTable(group, textItems, claimed)
+    if (table) tables.push(table)
+  }
+
+  const lines = groupIntoLines(textItems.filter((item) => !claimed.has(item)))
+  const textTables = detectTextTables(lines)
+
+  return {
+    tables: [...tables, ...textTables.tables],
+    lines: textTables.lines,
+  }
+}
@@ -0,0 +1,604 @@
+import mammoth from 'mammoth'
+import { PDFDocument, rgb } from 'pdf-lib'
+import type { PDFImage, PDFPage } from 'pdf-lib'
+import type { KhmerTextRenderer, TextStyle } from '@/lib/khmer-text'
+import { createKhmerTextRenderer } from '@/lib/khmer-text'
+
+// A4 in PDF points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const BODY_STYLE: TextStyle = { font: 'Khmer', size: 11 }
+const HEADING_SIZES = [20, 16, 14, 12, 12, 12]
+const PARAGRAPH_SPACING = 6
+const LIST_INDENT = 18
+const CELL_PADDING = 4
+const BORDER_COLOR = rgb(0.6, 0.6, 0.6)
+
+interface TableCell {
+  text: string
+  /** Sources of the images in the cell, laid out below its text */
+  images: Array<string>
+  colSpan: number
+  rowSpan: number
+  isHeader: boolean
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list-item'; text: string; depth: number; marker: string }
+  | { type: 'table'; rows: Array<Array<TableCell>> }
+  | { type: 'image'; src: string }
+
+interface LayoutContext {
+  pdfDoc: PDFDocument
+  renderer: KhmerTextRenderer
+  page: PDFPage
+  /** Distance of the cursor from the top edge of the page */
+  y: number
+}
+
+export interface DocxConversionResult {
+  pdfBytes: Uint8Array
+  html: string
+  warnings: Array<string>
+}
+
+/**
+ * Collect the text of an inline element, keeping line breaks
+ */
+function getInlineText(element: Element): string {
+  let text = ''
+  element.childNodes.forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? ''
+    } else if (node instanceof Element) {
+      text += node.tagName === 'BR' ? '\n' : getInlineText(node)
+    }
+  })
+  return text.replace(/[ \t\r]+/g, ' ')
+}
+
+function getImages(element: Element): Array<Block> {
+  return Array.from(element.querySelectorAll('img')).map((img) => ({
+    type: 'image',
+    src: img.getAttribute('src') ?? '',
+  }))
+}
+
+function parseList(
+  list: Element,
+  depth: number,
+  blocks: Array<Block>,
+): Array<Block> {
+  const ordered = list.tagName === 'OL'
+  let index = 1
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI') continue
+
+    // Nested lists are laid out after the item's own text
+    const nested = Array.from(item.children).filter(
+      (child) => child.tagName === 'UL' || child.tagName === 'OL',
+    )
+    const clone = item.cloneNode(true) as Element
+    clone.querySelectorAll('ul, ol').forEach((child) => child.remove())
+
+    blocks.push({
+      type: 'list-item',
+      text: getInlineText(clone).trim(),
+      depth,
+      marker: ordered ? `${index}.` : depth % 2 === 0 ? '•' : '-',
+    })
+    blocks.push(...getImages(clone))
+    nested.forEach((child) => parseList(child, depth + 1, blocks))
+    index++
+  }
+
+  return blocks
+}
+
+/**
+ * Text of a table cell. Rows of tables nested in it go on lines of their
+ * own.
+ */
+function getCellText(cell: Element): string {
+  const clone = cell.cloneNode(true) as Element
+  clone.querySelectorAll('td, th').forEach((nested) => nested.append(' '))
+  clone.querySelectorAll('tr').forEach((row) => row.append('\n'))
+  return getInlineText(clone).trim()
+}
+
+function parseTable(table: Element): Block {
+  // Rows of nested tables belong to the cell they are in
+  const rows = Array.from(
+    table.querySelectorAll(
+      ':scope > tr, :scope > thead > tr, :scope > tbody > tr, :scope > tfoot > tr',
+    ),
+  ).map((row) =>
+    Array.from(row.children)
+      .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map((cell) => ({
+        text: getCellText(cell),
+        images: Array.from(cell.querySelectorAll('img'), (img) =>
+          img.getAttribute('src'),
+        ).filter((src) => src !== null),
+        colSpan: Number(cell.getAttribute('colspan') ?? 1) || 1,
+        rowSpan: Number(cell.getAttribute('rowspan') ?? 1) || 1,
+        isHeader: cell.tagName === 'TH',
+      })),
+  )
+  return { type: 'table', rows }
+}
+
+/**
+ * Turn mammoth's HTML output into a flat list of layout blocks
+ */
+function parseBlocks(html: string): Array<Block> {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const blocks: Array<Block> = []
+
+  for (const element of Array.from(doc.body.children)) {
+    const tag = element.tagName
+    if (/^H[1-6]$/.test(tag)) {
+      blocks.push({
+        type: 'heading',
+        level: Number(tag[1]),
+        text: getInlineText(element).trim(),
+      })
+      blocks.push(...getImages(element))
+    } else if (tag === 'UL' || tag === 'OL') {
+      parseList(element, 0, blocks)
+    } else if (tag === 'TABLE') {
+      blocks.push(parseTable(element))
+    } else {
+      const text = getInlineText(element).trim()
+      if (text) blocks.push({ type: 'paragraph', text })
+      blocks.push(...getImages(element))
+    }
+  }
+
+  return blocks
+}
+
+function addPage(ctx: LayoutContext) {
+  ctx.page = ctx.pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  ctx.y = MARGIN
+}
+
+/**
+ * Start a new page if `height` does not fit below the cursor
+ */
+function ensureSpace(ctx: LayoutContext, height: number) {
+  if (ctx.y + height > PAGE_HEIGHT - MARGIN && ctx.y > MARGIN) {
+    addPage(ctx)
+  }
+}
+
+function layoutText(
+  ctx: LayoutContext,
+  text: string,
+  style: TextStyle,
+  indent = 0,
+) {
+  const lineHeight = ctx.renderer.getLineHeight(style)
+  const ascent = ctx.renderer.getAscent(style)
+
+  for (const line of ctx.renderer.wrapText(
+    text,
+    style,
+    CONTENT_WIDTH - indent,
+  )) {
+    ensureSpace(ctx, lineHeight)
+    if (line) {
+      ctx.renderer.drawText(ctx.page, line, {
+        ...style,
+        x: MARGIN + indent,
+        y: PAGE_HEIGHT - ctx.y - ascent,
+      })
+    }
+    ctx.y += lineHeight
+  }
+}
+
+function layoutListItem(
+  ctx: LayoutContext,
+  block: Extract<Block, { type: 'list-item' }>,
+) {
+  const indent = LIST_INDENT * (block.depth + 1)
+  const lineHeight = ctx.renderer.getLineHeight(BODY_STYLE)
+  ensureSpace(ctx, lineHeight)
+
+  ctx.renderer.drawText(ctx.page, block.marker, {
+    ...BODY_STYLE,
+    x: MARGIN + indent - LIST_INDENT + 4,
+    y: PAGE_HEIGHT - ctx.y - ctx.renderer.getAscent(BODY_STYLE),
+  })
+  layoutText(ctx, block.text, BODY_STYLE, indent)
+  ctx.y += PARAGRAPH_SPACING / 2
+}
+
+/** Something drawn in a table cell, `offset` below the top of the cell */
+interface CellItem {
+  offset: number
+  height: number
+  draw: (page: PDFPage, x: number, top: number) => void
+}
+
+/**
+ * Lay out a table row by row. Column widths are shared equally, cells
+ * spanning several columns or rows are kept merged, and rows that do not
+ * fit move to the next page as a whole. A cell spanning rows flows over
+ * all of them, the last one grows when they are too low for its content.
+ */
+async function layoutTable(ctx: LayoutContext, rows: Array<Array<TableCell>>) {
+  // Resolve the grid position of every cell, accounting for row spans
+  const pending: Array<number> = []
+  const placed = rows.map((row, rowIndex) => {
+    const cells: Array<TableCell & { row: number; column: number }> = []
+    let column = 0
+    for (const cell of row) {
+      while ((pending[column] ?? 0) > 0) column++
+      cells.push({
+        ...cell,
+        rowSpan: Math.min(cell.rowSpan, rows.length - rowIndex),
+        row: rowIndex,
+        column,
+      })
+      for (let i = 0; i < cell.colSpan; i++) {
+        pending[column + i] = cell.rowSpan
+      }
+      column += cell.colSpan
+    }
+    for (let i = 0; i < pending.length; i++) {
+      if ((pending[i] ?? 0) > 0) pending[i]--
+    }
+    return cells
+  })
+
+  const columnCount = Math.max(
+    1,
+    ...placed.map((cells) =>
+      cells.reduce((max, cell) => Math.max(max, cell.column + cell.colSpan), 0),
+    ),
+  )
+  const columnWidth = CONTENT_WIDTH / columnCount
+  const style = { ...BODY_STYLE, size: BODY_STYLE.size - 1 }
+  const lineHeight = ctx.renderer.getLineHeight(style)
+  const ascent = ctx.renderer.getAscent(style)
+
+  // Lines of text, then images scaled down to the cell width
+  const contents = await Promise.all(
+    placed.map((cells) =>
+      Promise.all(
+        cells.map(async (cell) => {
+          const innerWidth = columnWidth * cell.colSpan - CELL_PADDING * 2
+          const items: Array<CellItem> = []
+          let offset = CELL_PADDING
+
+          for (const line of ctx.renderer.wrapText(
+            cell.text,
+            style,
+            innerWidth,
+          )) {
+            const lineOffset = offset
+            items.push({
+              offset: lineOffset,
+              height: lineHeight,
+              draw: (page, x, top) => {
+                if (!line) return
+                ctx.renderer.drawText(page, line, {
+                  ...style,
+                  x: x + CELL_PADDING,
+                  y: top - ascent,
+                })
+              },
+            })
+            offset += lineHeight
+          }
+
+          for (const src of cell.images) {
+            const embedded = await embedImage(ctx, src)
+            if (!embedded) continue
+            const scale = Math.min(1, innerWidth / embedded.width)
+            const width = embedded.width * scale
+            const height = embedded.height * scale
+            items.push({
+              offset: offset + CELL_PADDING,
+              height,
+              draw: (page, x, top) =>
+                page.drawImage(embedded, {
+                  x: x + CELL_PADDING,
+                  y: top - height,
+                  width,
+                  height,
+                }),
+            })
+            offset += height + CELL_PADDING
+          }
+
+          return { items, height: Math.max(offset, lineHeight) + CELL_PADDING }
+        }),
+      ),
+    ),
+  )
+
+  // Rows fit their own cells, spanning cells stretch their last row
+  const rowHeights = placed.map((cells, rowIndex) =>
+    Math.max(
+      lineHeight + CELL_PADDING * 2,
+      ...contents[rowIndex]
+        .filter((_, i) => cells[i].rowSpan === 1)
+        .map((content) => content.height),
+    ),
+  )
+  placed.forEach((cells, rowIndex) => {
+    cells.forEach((cell, i) => {
+      if (cell.rowSpan === 1) return
+      const last = rowIndex + cell.rowSpan - 1
+      const spanned = rowHeights
+        .slice(rowIndex, last + 1)
+        .reduce((sum, height) => sum + height, 0)
+      const needed = contents[rowIndex][i].height
+      if (needed > spanned) rowHeights[last] += needed - spanned
+    })
+  })
+
+  // Cell occupying each column, carried over while its row span lasts
+  const owners: Array<
+    | {
+        cell: (typeof placed)[number][number]
+        /** Items not drawn yet, in order */
+        items: Array<CellItem>
+        /** Height of the cell laid out in earlier rows */
+        consumed: number
+        /** How far items moved down to start on a new page */
+        shift: number
+        remaining: number
+      }
+    | undefined
+  > = []
+
+  placed.forEach((cells, rowIndex) => {
+    const rowHeight = rowHeights[rowIndex]
+    const pageBefore = ctx.page
+    ensureSpace(ctx, rowHeight)
+    const startsPage = rowIndex === 0 || ctx.page !== pageBefore
+    const top = PAGE_HEIGHT - ctx.y
+    const startsHere = new Set<number>()
+
+    cells.forEach((cell, i) => {
+      const owner = {
+        cell,
+        items: contents[rowIndex][i].items,
+        consumed: 0,
+        shift: 0,
+        remaining: cell.rowSpan,
+      }
+      for (let c = 0; c < cell.colSpan; c++) {
+        owners[cell.column + c] = owner
+        startsHere.add(cell.column + c)
+      }
+    })
+
+    // Each cell draws the part of its content that falls into this row
+    new Set(owners).forEach((owner) => {
+      if (!owner || owner.remaining <= 0) return
+      const { cell, consumed } = owner
+      const x = MARGIN + cell.column * columnWidth
+      const width = columnWidth * cell.colSpan
+
+      if (cell.isHeader) {
+        ctx.page.drawRectangle({
+          x,
+          y: top - rowHeight,
+          width,
+          height: rowHeight,
+          color: rgb(0.93, 0.93, 0.93),
+        })
+      }
+
+      // Items may reach into the next row, but not past the page end
+      const isLastRow = owner.remaining === 1
+      while (owner.items.length > 0) {
+        const item = owner.items[0]
+        const offset = Math.max(item.offset + owner.shift, consumed)
+        const rowTop = offset - consumed
+        if (!isLastRow) {
+          if (rowTop >= rowHeight) break
+          if (ctx.y + rowTop + item.height > PAGE_HEIGHT - MARGIN) break
+        }
+        item.draw(ctx.page, x, top - rowTop)
+        owner.shift = offset - item.offset
+        owner.items.shift()
+      }
+      owner.consumed += rowHeight
+    })
+
+    // Draw borders only along cell edges so merged cells stay merged
+    const drawBorder = (x1: number, y1: number, x2: number, y2: number) =>
+      ctx.page.drawLine({
+        start: { x: x1, y: y1 },
+        end: { x: x2, y: y2 },
+        thickness: 0.5,
+        color: BORDER_COLOR,
+      })
+
+    for (let column = 0; column <= columnCount; column++) {
+      const isEdge =
+        column === 0 ||
+        column === columnCount ||
+        owners[column - 1] !== owners[column]
+      if (isEdge) {
+        const x = MARGIN + column * columnWidth
+        drawBorder(x, top, x, top - rowHeight)
+      }
+    }
+    for (let column = 0; column < columnCount; column++) {
+      const x = MARGIN + column * columnWidth
+      const owner = owners[column]
+      if (startsPage || startsHere.has(column)) {
+        drawBorder(x, top, x + columnWidth, top)
+      }
+      if (!owner || owner.remaining <= 1) {
+        drawBorder(x, top - rowHeight, x + columnWidth, top - rowHeight)
+      }
+    }
+    new Set(owners).forEach((owner) => {
+      if (owner) owner.remaining--
+    })
+
+    ctx.y += rowHeight
+  })
+
+  ctx.y += PARAGRAPH_SPACING
+}
+
+/**
+ * Decode a data URI, converting formats pdf-lib cannot embed to PNG
+ */
+async function loadImage(
+  src: string,
+): Promise<{ bytes: Uint8Array; isPng: boolean } | null> {
+  if (!src.startsWith('data:')) return null
+
+  const blob = await (await fetch(src)).blob()
+  if (blob.type === 'image/png' || blob.type === 'image/jpeg') {
+    return {
+      bytes: new Uint8Array(await blob.arrayBuffer()),
+      isPng: blob.type === 'image/png',
+    }
+  }
+
+  const bitmap = await createImageBitmap(blob)
+  const canvas = document.createElement('canvas')
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const png = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/png'),
+  )
+  if (!png) return null
+  return { bytes: new Uint8Array(await png.arrayBuffer()), isPng: true }
+}
+
+async function embedImage(
+  ctx: LayoutContext,
+  src: string,
+): Promise<PDFImage | null> {
+  const image = await loadImage(src)
+  if (!image) return null
+  return image.isPng
+    ? ctx.pdfDoc.embedPng(image.bytes)
+    : ctx.pdfDoc.embedJpg(image.bytes)
+}
+
+async function layoutImage(ctx: LayoutContext, src: string) {
+  const embedded = await embedImage(ctx, src)
+  if (!embedded) return
+
+  const maxHeight = PAGE_HEIGHT - MARGIN * 2
+  const scale = Math.min(
+    1,
+    CONTENT_WIDTH / embedded.width,
+    maxHeight / embedded.height,
+  )
+  const width = embedded.width * scale
+  const height = embedded.height * scale
+
+  ensureSpace(ctx, height)
+  ctx.page.drawImage(embedded, {
+    x: MARGIN,
+    y: PAGE_HEIGHT - ctx.y - height,
+    width,
+    height,
+  })
+  ctx.y += height + PARAGRAPH_SPACING
+}
+
+/**
+ * Convert a DOCX file to HTML with mammoth
+ */
+export async function convertDocxToHtml(
+  file: File,
+): Promise<{ html: string; warnings: Array<string> }> {
+  const arrayBuffer = await file.arrayBuffer()
+  const result = await mammoth.convertToHtml({ arrayBuffer })
+  return {
+    html: result.value,
+    warnings: result.messages.map((message) => message.message),
+  }
+}
+
+/**
+ * Lay out HTML produced by mammoth into an A4 PDF. Text is shaped with the
+ * bundled Khmer fonts; headings use Moul.
+ */
+export async function convertHtmlToPdf(
+  html: string,
+  onProgress?: (current: number, total: number) => void,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  const renderer = await createKhmerTextRenderer(pdfDoc, ['Khmer', 'Moul'])
+  const ctx: LayoutContext = {
+    pdfDoc,
+    renderer,
+    page: pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: MARGIN,
+  }
+
+  const blocks = parseBlocks(html)
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i]
+    switch (block.type) {
+      case 'heading': {
+        const style: TextStyle = {
+          font: 'Moul',
+          size: HEADING_SIZES[block.level - 1],
+        }
+        ctx.y += PARAGRAPH_SPACING
+        // Keep a heading together with at least one line of what follows
+        ensureSpace(
+          ctx,
+          renderer.getLineHeight(style) + renderer.getLineHeight(BODY_STYLE),
+        )
+        layoutText(ctx, block.text, style)
+        ctx.y += PARAGRAPH_SPACING
+        break
+      }
+      case 'paragraph':
+        layoutText(ctx, block.text, BODY_STYLE)
+        ctx.y += PARAGRAPH_SPACING
+        break
+      case 'list-item':
+        layoutListItem(ctx, block)
+        break
+      case 'table':
+        await layoutTable(ctx, block.rows)
+        break
+      case 'image':
+        await layoutImage(ctx, block.src)
+        break
+    }
+    onProgress?.(i + 1, blocks.length)
+  }
+
+  return await pdfDoc.save()
+}
+
+/**
+ * Convert a DOCX file to PDF via mammoth's HTML output
+ */
+export async function convertDocxToPdf(
+  file: File,
+  onProgress?: (current: number, total: number) => void,
+): Promise<DocxConversionResult> {
+  const { html, warnings } = await convertDocxToHtml(file)
+  const pdfBytes = await convertHtmlToPdf(html, onProgress)
+  return { pdfBytes, html, warnings }
+}
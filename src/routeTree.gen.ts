@@ -17,6 +17,7 @@ import { Route as OrganizeMergePdfRouteImport } from './routes/organize/merge-pd
 import { Route as OptimizeOcrPdfRouteImport } from './routes/optimize/ocr-pdf'
 import { Route as OptimizeCompressPdfRouteImport } from './routes/optimize/compress-pdf'
 import { Route as EditEditPdfRouteImport } from './routes/edit/edit-pdf'
+import { Route as ConvertWordToPdfRouteImport } from './routes/convert/word-to-pdf'
 import { Route as ConvertPdfToWordRouteImport } from './routes/convert/pdf-to-word'
 
 const IndexRoute = IndexRouteImport.update({
@@ -59,6 +60,11 @@ const EditEditPdfRoute = EditEditPdfRouteImport.update({
   path: '/edit/edit-pdf',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ConvertWordToPdfRoute = ConvertWordToPdfRouteImport.update({
+  id: '/convert/word-to-pdf',
+  path: '/convert/word-to-pdf',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ConvertPdfToWordRoute = ConvertPdfToWordRouteImport.update({
   id: '/convert/pdf-to-word',
   path: '/convert/pdf-to-word',
@@ -68,6 +74,7 @@ const ConvertPdfToWordRoute = ConvertPdfToWordRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/convert/pdf-to-word': typeof ConvertPdfToWordRoute
+  '/convert/word-to-pdf': typeof ConvertWordToPdfRoute
   '/edit/edit-pdf': typeof EditEditPdfRoute
   '/optimize/compress-pdf': typeof OptimizeCompressPdfRoute
   '/optimize/ocr-pdf': typeof OptimizeOcrPdfRoute
@@ -79,6 +86,7 @@ export interface FileRoutesByFullPath {
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/convert/pdf-to-word': typeof ConvertPdfToWordRoute
+  '/convert/word-to-pdf': typeof ConvertWordToPdfRoute
   '/edit/edit-pdf': typeof EditEditPdfRoute
   '/optimize/compress-pdf': typeof OptimizeCompressPdfRoute
   '/optimize/ocr-pdf': typeof OptimizeOcrPdfRoute
@@ -91,6 +99,7 @@ export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/convert/pdf-to-word': typeof ConvertPdfToWordRoute
+  '/convert/word-to-pdf': typeof ConvertWordToPdfRoute
   '/edit/edit-pdf': typeof EditEditPdfRoute
   '/optimize/compress-pdf': typeof OptimizeCompressPdfRoute
   '/optimize/ocr-pdf': typeof OptimizeOcrPdfRoute
@@ -104,6 +113,7 @@ export interface FileRouteTypes {
   fullPaths:
     | '/'
     | '/convert/pdf-to-word'
+    | '/convert/word-to-pdf'
     | '/edit/edit-pdf'
     | '/optimize/compress-pdf'
     | '/optimize/ocr-pdf'
@@ -115,6 +125,7 @@ export interface FileRouteTypes {
   to:
     | '/'
     | '/convert/pdf-to-word'
+    | '/convert/word-to-pdf'
     | '/edit/edit-pdf'
     | '/optimize/compress-pdf'
     | '/optimize/ocr-pdf'
@@ -126,6 +137,7 @@ export interface FileRouteTypes {
     | '__root__'
     | '/'
     | '/convert/pdf-to-word'
+    | '/convert/word-to-pdf'
     | '/edit/edit-pdf'
     | '/optimize/compress-pdf'
     | '/optimize/ocr-pdf'
@@ -138,6 +150,7 @@ export interface FileRouteTypes {
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   ConvertPdfToWordRoute: typeof ConvertPdfToWordRoute
+  ConvertWordToPdfRoute: typeof ConvertWordToPdfRoute
   EditEditPdfRoute: typeof EditEditPdfRoute
   OptimizeCompressPdfRoute: typeof OptimizeCompressPdfRoute
   OptimizeOcrPdfRoute: typeof OptimizeOcrPdfRoute
@@ -205,6 +218,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof EditEditPdfRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/convert/word-to-pdf': {
+      id: '/convert/word-to-pdf'
+      path: '/convert/word-to-pdf'
+      fullPath: '/convert/word-to-pdf'
+      preLoaderRoute: typeof ConvertWordToPdfRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/convert/pdf-to-word': {
       id: '/convert/pdf-to-word'
       path: '/convert/pdf-to-word'
@@ -218,6 +238,7 @@ declare module '@tanstack/react-router' {
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   ConvertPdfToWordRoute: ConvertPdfToWordRoute,
+  ConvertWordToPdfRoute: ConvertWordToPdfRoute,
   EditEditPdfRoute: EditEditPdfRoute,
   OptimizeCompressPdfRoute: OptimizeCompressPdfRoute,
   OptimizeOcrPdfRoute: OptimizeOcrPdfRoute,
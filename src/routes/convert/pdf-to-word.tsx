@@ -10,11 +10,11 @@ import {
   FileCode,
   File,
 } from 'lucide-react'
-import * as pdfjsLib from 'pdfjs-dist'
-import { Document, Packer, Paragraph, TextRun } from 'docx'
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf-js/pdf.worker.mjs'
+import {
+  convertToDocx,
+  convertToHtml,
+  extractPdfDocument,
+} from '@/lib/pdf-to-word-helper'
 
 export const Route = createFileRoute('/convert/pdf-to-word')({
   component: RouteComponent,
@@ -95,136 +95,6 @@ function RouteComponent() {
     return (bytes / (1024 * 1024)).toFixed(2) + ' MB'
   }
 
-  // Convert PDF to HTML (each page as an image)
-  const convertPdfToHtml = async (file: File): Promise<string> => {
-    const arrayBuffer = await file.arrayBuffer()
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-
-    let htmlContent = `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>${file.name}</title>
-  <style>
-    body { font-family: Arial, sans-serif; max-width: 1200px; margin: 0 auto; padding: 20px; background-color: #f5f5f5; }
-    .page { margin-bottom: 30px; background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); page-break-after: always; }
-    .page-number { color: #666; font-size: 14px; margin-bottom: 15px; font-weight: bold; }
-    .page img { max-width: 100%; height: auto; display: block; border: 1px solid #ddd; }
-  </style>
-</head>
-<body>
-`
-
-    const numPages = pdf.numPages
-    const scale = 2.0 // Higher scale for better quality
-
-    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum)
-      const viewport = page.getViewport({ scale })
-
-      // Create canvas to render the page
-      const canvas = document.createElement('canvas')
-      const context = canvas.getContext('2d')
-
-      if (!context) {
-        throw new Error('Failed to get canvas context')
-      }
-
-      canvas.width = viewport.width
-      canvas.height = viewport.height
-
-      // Render the page to canvas
-      await page.render({
-        canvasContext: context,
-        viewport: viewport,
-        canvas: canvas,
-      }).promise
-
-      // Convert canvas to base64 image
-      const imageDataUrl = canvas.toDataURL('image/png', 0.95)
-
-      htmlContent += `  <div class="page">
-    <div class="page-number">Page ${pageNum} of ${numPages}</div>
-    <img src="${imageDataUrl}" alt="Page ${pageNum}" />
-  </div>
-`
-    }
-
-    htmlContent += `</body>
-</html>`
-
-    return htmlContent
-  }
-
-  // Convert HTML to DOCX
-  const convertHtmlToDocx = async (htmlContent: string): Promise<Blob> => {
-    // Parse HTML content
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(htmlContent, 'text/html')
-    const pages = doc.querySelectorAll('.page')
-
-    const docParagraphs: Paragraph[] = []
-
-    pages.forEach((page, pageIndex) => {
-      // Add page number
-      const pageNumber = page.querySelector('.page-number')?.textContent
-      if (pageNumber) {
-        docParagraphs.push(
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: pageNumber,
-                size: 20,
-                color: '666666',
-              }),
-            ],
-            spacing: { after: 200 },
-          }),
-        )
-      }
-
-      // Add paragraphs
-      const paragraphs = page.querySelectorAll('p')
-      paragraphs.forEach((p) => {
-        const text = p.textContent || ''
-        if (text.trim()) {
-          docParagraphs.push(
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: text,
-                  size: 24,
-                }),
-              ],
-              spacing: { after: 120 },
-            }),
-          )
-        }
-      })
-
-      // Add page break except for the last page
-      if (pageIndex < pages.length - 1) {
-        docParagraphs.push(
-          new Paragraph({
-            pageBreakBefore: true,
-          }),
-        )
-      }
-    })
-
-    const document = new Document({
-      sections: [
-        {
-          properties: {},
-          children: docParagraphs,
-        },
-      ],
-    })
-
-    const blob = await Packer.toBlob(document)
-    return blob
-  }
-
   // Process all files
   const convertFiles = async () => {
     if (pdfFiles.length === 0) {
@@ -235,9 +105,7 @@ function RouteComponent() {
     setIsProcessing(true)
 
     try {
-      for (let i = 0; i < pdfFiles.length; i++) {
-        const pdfFile = pdfFiles[i]
-
+      for (const pdfFile of pdfFiles) {
         // Update status to processing
         setPdfFiles((prev) =>
           prev.map((f) =>
@@ -248,19 +116,27 @@ function RouteComponent() {
         )
 
         try {
-          // Step 1: Convert PDF to HTML
-          setPdfFiles((prev) =>
-            prev.map((f) => (f.id === pdfFile.id ? { ...f, progress: 30 } : f)),
+          // Step 1: Read the text of every page
+          const extracted = await extractPdfDocument(
+            pdfFile.file,
+            (current, total) => {
+              setPdfFiles((prev) =>
+                prev.map((f) =>
+                  f.id === pdfFile.id
+                    ? { ...f, progress: Math.round((current / total) * 80) }
+                    : f,
+                ),
+              )
+            },
           )
 
-          const htmlContent = await convertPdfToHtml(pdfFile.file)
-
-          // Step 2: Convert HTML to DOCX
+          // Step 2: Build the DOCX and HTML documents
           setPdfFiles((prev) =>
-            prev.map((f) => (f.id === pdfFile.id ? { ...f, progress: 70 } : f)),
+            prev.map((f) => (f.id === pdfFile.id ? { ...f, progress: 90 } : f)),
           )
 
-          const docxBlob = await convertHtmlToDocx(htmlContent)
+          const docxBlob = await convertToDocx(extracted)
+          const htmlContent = convertToHtml(extracted)
 
           // Update with results
           setPdfFiles((prev) =>
@@ -539,9 +415,16 @@ function RouteComponent() {
                 Conversion Process:
               </h4>
               <ul className="text-sm text-green-700 space-y-1">
-                <li>• Step 1: PDF is converted to HTML format</li>
-                <li>• Step 2: HTML is converted to DOCX format</li>
-                <li>• Step 3: Both formats are available for download</li>
+                <li>
+                  • Step 1: Text, font sizes, bold and italic are read from each
+                  page
+                </li>
+                <li>
+                  • Step 2: Lines are rebuilt into paragraphs, headings and
+                  tables
+                </li>
+                <li>• Step 3: Pages without text are kept as images</li>
+                <li>• Step 4: Both formats are available for download</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,376 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useRef, useState } from 'react'
+import { Download, FileText, Loader2, Upload, X } from 'lucide-react'
+import type { ChangeEvent, DragEvent } from 'react'
+import { convertDocxToPdf } from '@/lib/word-to-pdf-helper'
+
+export const Route = createFileRoute('/convert/word-to-pdf')({
+  component: RouteComponent,
+})
+
+const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+interface WordFile {
+  id: string
+  file: File
+  name: string
+  size: number
+  status: 'pending' | 'processing' | 'completed' | 'error'
+  progress?: number
+  pdfBlob?: Blob
+  warnings?: Array<string>
+}
+
+const isDocxFile = (file: File) =>
+  file.type === DOCX_MIME_TYPE || file.name.toLowerCase().endsWith('.docx')
+
+function RouteComponent() {
+  const [wordFiles, setWordFiles] = useState<Array<WordFile>>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(false)
+  }
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(false)
+
+    addFiles(Array.from(e.dataTransfer.files).filter(isDocxFile))
+  }
+
+  const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files).filter(isDocxFile))
+    }
+    e.target.value = ''
+  }
+
+  const addFiles = (files: Array<File>) => {
+    const newWordFiles: Array<WordFile> = files.map((file) => ({
+      id: `${file.name}-${Date.now()}-${Math.random()}`,
+      file,
+      name: file.name,
+      size: file.size,
+      status: 'pending',
+    }))
+    setWordFiles((prev) => [...prev, ...newWordFiles])
+  }
+
+  const removeFile = (id: string) => {
+    setWordFiles((prev) => prev.filter((file) => file.id !== id))
+  }
+
+  const updateFile = (id: string, update: Partial<WordFile>) => {
+    setWordFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, ...update } : f)),
+    )
+  }
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + ' B'
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB'
+    return (bytes / (1024 * 1024)).toFixed(2) + ' MB'
+  }
+
+  // Process all files
+  const convertFiles = async () => {
+    if (wordFiles.length === 0) {
+      alert('Please select at least 1 Word file to convert')
+      return
+    }
+
+    setIsProcessing(true)
+
+    try {
+      for (const wordFile of wordFiles) {
+        if (wordFile.status === 'completed') continue
+
+        updateFile(wordFile.id, { status: 'processing', progress: 0 })
+
+        try {
+          const result = await convertDocxToPdf(
+            wordFile.file,
+            (current, total) => {
+              updateFile(wordFile.id, {
+                progress: Math.round((current / total) * 100),
+              })
+            },
+          )
+
+          if (result.warnings.length > 0) {
+            console.warn(
+              `Warnings converting ${wordFile.name}:`,
+              result.warnings,
+            )
+          }
+
+          updateFile(wordFile.id, {
+            status: 'completed',
+            progress: 100,
+            pdfBlob: new Blob([result.pdfBytes as BlobPart], {
+              type: 'application/pdf',
+            }),
+            warnings: result.warnings,
+          })
+        } catch (error) {
+          console.error(`Error converting ${wordFile.name}:`, error)
+          updateFile(wordFile.id, { status: 'error' })
+        }
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const downloadPdf = (wordFile: WordFile) => {
+    if (!wordFile.pdfBlob) return
+
+    const url = URL.createObjectURL(wordFile.pdfBlob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${wordFile.name.replace(/\.docx$/i, '')}.pdf`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="min-h-screen bg-linear-to-b from-blue-50 to-white">
+      {/* Header */}
+      <div className="bg-linear-to-r from-blue-600 to-indigo-600 text-white py-12 px-4">
+        <div className="max-w-4xl mx-auto text-center">
+          <h1 className="text-4xl font-bold mb-2">Word to PDF Converter</h1>
+          <p className="text-blue-50">
+            Convert your Word documents (DOCX) to PDF, with full Khmer support
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Drop Zone */}
+        <div
+          onDragEnter={handleDragEnter}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`border-2 border-dashed rounded-2xl p-12 text-center cursor-pointer transition-all duration-300 ${
+            isDragging
+              ? 'border-blue-500 bg-blue-50 scale-105'
+              : 'border-gray-300 bg-white hover:border-blue-400 hover:bg-blue-50'
+          } ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={`${DOCX_MIME_TYPE},.docx`}
+            onChange={handleFileInput}
+            className="hidden"
+            disabled={isProcessing}
+          />
+          <Upload
+            className={`mx-auto mb-4 ${isDragging ? 'text-blue-500 animate-bounce' : 'text-gray-400'}`}
+            size={64}
+          />
+          <h3 className="text-xl font-semibold text-gray-700 mb-2">
+            {isDragging
+              ? 'Drop your Word files here'
+              : 'Drag & Drop Word files'}
+          </h3>
+          <p className="text-gray-500 mb-4">or click to browse</p>
+          <p className="text-sm text-gray-400">
+            Select DOCX files to convert to PDF
+          </p>
+        </div>
+
+        {/* File List */}
+        {wordFiles.length > 0 && (
+          <div className="mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-gray-800">
+                Selected Files ({wordFiles.length})
+              </h2>
+              <button
+                onClick={() => setWordFiles([])}
+                disabled={isProcessing}
+                className="text-red-600 hover:text-red-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Clear All
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {wordFiles.map((wordFile) => (
+                <div
+                  key={wordFile.id}
+                  className="bg-white rounded-xl p-4 shadow-md border border-gray-200 hover:shadow-lg transition-shadow"
+                >
+                  <div className="flex items-center gap-4">
+                    <FileText
+                      className={`shrink-0 ${
+                        wordFile.status === 'error'
+                          ? 'text-red-600'
+                          : 'text-blue-600'
+                      }`}
+                      size={32}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-800 truncate">
+                        {wordFile.name}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {formatFileSize(wordFile.size)}
+                      </p>
+                      {wordFile.status === 'processing' && (
+                        <div className="mt-2">
+                          <p className="text-sm text-blue-600 font-medium mb-1">
+                            Converting... {wordFile.progress ?? 0}%
+                          </p>
+                          <div className="w-full bg-blue-200 rounded-full h-2">
+                            <div
+                              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                              style={{ width: `${wordFile.progress ?? 0}%` }}
+                            ></div>
+                          </div>
+                        </div>
+                      )}
+                      {wordFile.status === 'completed' && (
+                        <div className="mt-2">
+                          <button
+                            onClick={() => downloadPdf(wordFile)}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors text-sm font-medium"
+                          >
+                            <Download size={16} />
+                            Download PDF
+                          </button>
+                          {wordFile.warnings &&
+                            wordFile.warnings.length > 0 && (
+                              <p className="text-xs text-amber-600 mt-2">
+                                {wordFile.warnings.length} element
+                                {wordFile.warnings.length > 1 ? 's' : ''} could
+                                not be converted exactly
+                              </p>
+                            )}
+                        </div>
+                      )}
+                      {wordFile.status === 'error' && (
+                        <p className="text-sm text-red-600 font-medium mt-1">
+                          ✗ Error converting file
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {wordFile.status === 'processing' && (
+                        <Loader2
+                          className="text-blue-600 animate-spin"
+                          size={24}
+                        />
+                      )}
+                      {wordFile.status !== 'processing' && (
+                        <button
+                          onClick={() => removeFile(wordFile.id)}
+                          disabled={isProcessing}
+                          className="p-2 rounded-lg hover:bg-red-100 text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Remove file"
+                        >
+                          <X size={20} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Convert Button */}
+            <button
+              onClick={convertFiles}
+              disabled={wordFiles.length === 0 || isProcessing}
+              className="w-full mt-6 bg-blue-600 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="animate-spin" size={24} />
+                  Converting documents...
+                </>
+              ) : (
+                <>
+                  <Download size={24} />
+                  Convert {wordFiles.length} document
+                  {wordFiles.length > 1 ? 's' : ''} to PDF
+                </>
+              )}
+            </button>
+          </div>
+        )}
+
+        {/* Instructions */}
+        {wordFiles.length === 0 && (
+          <div className="mt-12 bg-white rounded-2xl p-8 shadow-md">
+            <h3 className="text-xl font-bold text-gray-800 mb-4">
+              How to convert Word to PDF:
+            </h3>
+            <ol className="space-y-3 text-gray-600">
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-blue-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  1
+                </span>
+                <span>
+                  Drag and drop your DOCX files into the upload area, or click
+                  to select files from your computer
+                </span>
+              </li>
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-blue-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  2
+                </span>
+                <span>
+                  Click the "Convert to PDF" button to start the conversion
+                </span>
+              </li>
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-blue-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  3
+                </span>
+                <span>Download each converted PDF when it is ready</span>
+              </li>
+            </ol>
+
+            <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <h4 className="font-semibold text-blue-800 mb-2">
+                What gets converted:
+              </h4>
+              <ul className="text-sm text-blue-700 space-y-1">
+                <li>• Headings, paragraphs and line breaks</li>
+                <li>• Bulleted and numbered lists</li>
+                <li>• Tables, including merged cells</li>
+                <li>• Embedded images</li>
+                <li>• Khmer text, shaped with the bundled Khmer fonts</li>
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
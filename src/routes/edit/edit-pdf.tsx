@@ -1,9 +1,1050 @@
 import { createFileRoute } from '@tanstack/react-router'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import * as pdfjsLib from 'pdfjs-dist'
+import {
+  Circle,
+  Download,
+  FileText,
+  Image as ImageIcon,
+  Minus,
+  MousePointer2,
+  Pencil,
+  Square,
+  Trash2,
+  Type,
+  Upload,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react'
+import type { ChangeEvent, DragEvent, PointerEvent, ReactNode } from 'react'
+import type {
+  Annotation,
+  EditTool,
+  ImageAnnotation,
+  Point,
+} from '@/lib/edit-helper'
+import type { KhmerFontName } from '@/lib/khmer-text'
+import {
+  applyAnnotations,
+  getTextBaseline,
+  moveAnnotation,
+  rectFromPoints,
+} from '@/lib/edit-helper'
+import { khmerFonts } from '@/lib/khmer-text'
+import { Spinner } from '@/components/ui/spinner'
+import { cn } from '@/lib/utils'
+
+// Set up PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = `/pdf-js/pdf.worker.mjs`
 
 export const Route = createFileRoute('/edit/edit-pdf')({
   component: RouteComponent,
 })
 
+interface PDFFile {
+  file: File
+  name: string
+  size: number
+}
+
+interface PageSize {
+  width: number
+  height: number
+}
+
+interface PendingImage {
+  bytes: Uint8Array
+  mimeType: ImageAnnotation['mimeType']
+  dataUrl: string
+  width: number
+  height: number
+}
+
+interface MoveState {
+  id: string
+  origin: Point
+  original: Annotation
+}
+
+const tools: Array<{ tool: EditTool; label: string; icon: ReactNode }> = [
+  { tool: 'select', label: 'Select', icon: <MousePointer2 size={18} /> },
+  { tool: 'text', label: 'Text', icon: <Type size={18} /> },
+  { tool: 'image', label: 'Image', icon: <ImageIcon size={18} /> },
+  { tool: 'rectangle', label: 'Rectangle', icon: <Square size={18} /> },
+  { tool: 'ellipse', label: 'Ellipse', icon: <Circle size={18} /> },
+  { tool: 'line', label: 'Line', icon: <Minus size={18} /> },
+  { tool: 'freehand', label: 'Freehand', icon: <Pencil size={18} /> },
+]
+
+const MAX_IMAGE_SIZE = 200
+
+const createId = () => `${Date.now()}-${Math.random()}`
+
+/**
+ * Approximate bounds of an annotation, used for the selection outline
+ */
+function getBounds(annotation: Annotation) {
+  switch (annotation.type) {
+    case 'text': {
+      const lines = annotation.text.split('\n')
+      const longest = Math.max(...lines.map((line) => line.length), 1)
+      return {
+        x: annotation.x,
+        y: annotation.y,
+        width: longest * annotation.fontSize * 0.55,
+        height:
+          getTextBaseline(annotation.fontSize, lines.length - 1) +
+          annotation.fontSize * 0.3,
+      }
+    }
+    case 'line':
+      return rectFromPoints(annotation.start, annotation.end)
+    case 'freehand': {
+      const xs = annotation.points.map((p) => p.x)
+      const ys = annotation.points.map((p) => p.y)
+      return rectFromPoints(
+        { x: Math.min(...xs), y: Math.min(...ys) },
+        { x: Math.max(...xs), y: Math.max(...ys) },
+      )
+    }
+    default:
+      return annotation
+  }
+}
+
+function AnnotationShape({ annotation }: { annotation: Annotation }) {
+  switch (annotation.type) {
+    case 'text':
+      return (
+        <text
+          fill={annotation.color}
+          opacity={annotation.opacity}
+          fontSize={annotation.fontSize}
+          fontFamily={`'${annotation.font}', Helvetica, Arial, sans-serif`}
+        >
+          {annotation.text.split('\n').map((line, index) => (
+            <tspan
+              key={index}
+              x={annotation.x}
+              y={annotation.y + getTextBaseline(annotation.fontSize, index)}
+            >
+              {line || ' '}
+            </tspan>
+          ))}
+        </text>
+      )
+    case 'image':
+      return (
+        <image
+          href={annotation.dataUrl}
+          x={annotation.x}
+          y={annotation.y}
+          width={annotation.width}
+          height={annotation.height}
+          opacity={annotation.opacity}
+          preserveAspectRatio="none"
+        />
+      )
+    case 'rectangle':
+      return (
+        <rect
+          x={annotation.x}
+          y={annotation.y}
+          width={annotation.width}
+          height={annotation.height}
+          stroke={annotation.color}
+          strokeWidth={annotation.strokeWidth}
+          fill={annotation.filled ? annotation.color : 'transparent'}
+          opacity={annotation.opacity}
+        />
+      )
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={annotation.x + annotation.width / 2}
+          cy={annotation.y + annotation.height / 2}
+          rx={annotation.width / 2}
+          ry={annotation.height / 2}
+          stroke={annotation.color}
+          strokeWidth={annotation.strokeWidth}
+          fill={annotation.filled ? annotation.color : 'transparent'}
+          opacity={annotation.opacity}
+        />
+      )
+    case 'line':
+      return (
+        <line
+          x1={annotation.start.x}
+          y1={annotation.start.y}
+          x2={annotation.end.x}
+          y2={annotation.end.y}
+          stroke={annotation.color}
+          strokeWidth={annotation.strokeWidth}
+          strokeLinecap="round"
+          opacity={annotation.opacity}
+        />
+      )
+    case 'freehand':
+      return (
+        <polyline
+          points={annotation.points.map((p) => `${p.x},${p.y}`).join(' ')}
+          stroke={annotation.color}
+          strokeWidth={annotation.strokeWidth}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          fill="none"
+          opacity={annotation.opacity}
+        />
+      )
+  }
+}
+
+function PageCanvas({
+  pdf,
+  pageNumber,
+  zoom,
+}: {
+  pdf: pdfjsLib.PDFDocumentProxy
+  pageNumber: number
+  zoom: number
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    let renderTask: pdfjsLib.RenderTask | null = null
+    let cancelled = false
+
+    const render = async () => {
+      const canvas = canvasRef.current
+      const context = canvas?.getContext('2d')
+      if (!canvas || !context) return
+
+      const page = await pdf.getPage(pageNumber)
+      if (cancelled) return
+
+      const outputScale = window.devicePixelRatio || 1
+      const viewport = page.getViewport({ scale: zoom * outputScale })
+      canvas.width = viewport.width
+      canvas.height = viewport.height
+
+      renderTask = page.render({ canvasContext: context, viewport, canvas })
+      try {
+        await renderTask.promise
+      } catch (error) {
+        if (!(error instanceof pdfjsLib.RenderingCancelledException)) {
+          console.error(`Error rendering page ${pageNumber}:`, error)
+        }
+      }
+    }
+
+    render()
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber, zoom])
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+}
+
 function RouteComponent() {
-  return <div>Hello "/edit/edit-pdf"!</div>
+  const [pdfFile, setPdfFile] = useState<PDFFile | null>(null)
+  const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null)
+  const [pageSizes, setPageSizes] = useState<Array<PageSize>>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [zoom, setZoom] = useState(1)
+
+  const [annotations, setAnnotations] = useState<Array<Annotation>>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [tool, setTool] = useState<EditTool>('select')
+  const [color, setColor] = useState('#dc2626')
+  const [strokeWidth, setStrokeWidth] = useState(2)
+  const [font, setFont] = useState<KhmerFontName>('Khmer')
+  const [fontSize, setFontSize] = useState(16)
+  const [opacity, setOpacity] = useState(1)
+  const [filled, setFilled] = useState(false)
+  const [pendingImage, setPendingImage] = useState<PendingImage | null>(null)
+  const [draft, setDraft] = useState<Annotation | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const draftStartRef = useRef<Point | null>(null)
+  const moveRef = useRef<MoveState | null>(null)
+
+  const selectedAnnotation =
+    annotations.find((annotation) => annotation.id === selectedId) ?? null
+
+  useEffect(() => {
+    return () => {
+      pdf?.destroy()
+    }
+  }, [pdf])
+
+  const updateAnnotation = useCallback(
+    (id: string, changes: Partial<Annotation>) => {
+      setAnnotations((prev) =>
+        prev.map((annotation) =>
+          annotation.id === id
+            ? ({ ...annotation, ...changes } as Annotation)
+            : annotation,
+        ),
+      )
+    },
+    [],
+  )
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return
+    setAnnotations((prev) => prev.filter((a) => a.id !== selectedId))
+    setSelectedId(null)
+  }, [selectedId])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelected()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [deleteSelected])
+
+  const loadPdfFile = async (file: File) => {
+    setIsLoading(true)
+    try {
+      const arrayBuffer = await file.arrayBuffer()
+      const pdfDocument = await pdfjsLib.getDocument({ data: arrayBuffer })
+        .promise
+
+      const sizes: Array<PageSize> = []
+      for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+        const page = await pdfDocument.getPage(pageNum)
+        const viewport = page.getViewport({ scale: 1 })
+        sizes.push({ width: viewport.width, height: viewport.height })
+      }
+
+      setPdfFile({ file, name: file.name, size: file.size })
+      setPdf(pdfDocument)
+      setPageSizes(sizes)
+      setAnnotations([])
+      setSelectedId(null)
+    } catch (error) {
+      console.error('Error loading PDF:', error)
+      alert('Error loading PDF file. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const closeFile = () => {
+    setPdfFile(null)
+    setPdf(null)
+    setPageSizes([])
+    setAnnotations([])
+    setSelectedId(null)
+    setPendingImage(null)
+  }
+
+  const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(false)
+  }
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragging(false)
+
+    const files = Array.from(e.dataTransfer.files).filter(
+      (file) => file.type === 'application/pdf',
+    )
+    if (files.length > 0) {
+      loadPdfFile(files[0])
+    }
+  }
+
+  const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      loadPdfFile(file)
+    }
+    e.target.value = ''
+  }
+
+  const handleImageInput = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      alert('Please select a PNG or JPG image')
+      return
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(file)
+    })
+    const bitmap = await createImageBitmap(file)
+    const ratio = Math.min(
+      1,
+      MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height),
+    )
+
+    setPendingImage({
+      bytes,
+      mimeType: file.type,
+      dataUrl,
+      width: bitmap.width * ratio,
+      height: bitmap.height * ratio,
+    })
+    bitmap.close()
+    setTool('image')
+  }
+
+  const selectTool = (nextTool: EditTool) => {
+    if (nextTool === 'image') {
+      imageInputRef.current?.click()
+      return
+    }
+    setTool(nextTool)
+    setPendingImage(null)
+  }
+
+  const getPoint = (e: PointerEvent<SVGSVGElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: (e.clientX - rect.left) / zoom,
+      y: (e.clientY - rect.top) / zoom,
+    }
+  }
+
+  const handlePagePointerDown = (
+    e: PointerEvent<SVGSVGElement>,
+    pageIndex: number,
+  ) => {
+    const point = getPoint(e)
+    const base = { id: createId(), pageIndex, color, opacity }
+
+    if (tool === 'select') {
+      setSelectedId(null)
+      return
+    }
+
+    if (tool === 'text') {
+      const annotation: Annotation = {
+        ...base,
+        type: 'text',
+        x: point.x,
+        y: point.y,
+        text: 'Text',
+        font,
+        fontSize,
+      }
+      setAnnotations((prev) => [...prev, annotation])
+      setSelectedId(annotation.id)
+      setTool('select')
+      return
+    }
+
+    if (tool === 'image') {
+      if (!pendingImage) return
+      const annotation: Annotation = {
+        ...base,
+        type: 'image',
+        x: point.x,
+        y: point.y,
+        ...pendingImage,
+      }
+      setAnnotations((prev) => [...prev, annotation])
+      setSelectedId(annotation.id)
+      setPendingImage(null)
+      setTool('select')
+      return
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    draftStartRef.current = point
+
+    if (tool === 'line') {
+      setDraft({ ...base, type: 'line', start: point, end: point, strokeWidth })
+    } else if (tool === 'freehand') {
+      setDraft({ ...base, type: 'freehand', points: [point], strokeWidth })
+    } else {
+      setDraft({
+        ...base,
+        type: tool,
+        x: point.x,
+        y: point.y,
+        width: 0,
+        height: 0,
+        strokeWidth,
+        filled,
+      })
+    }
+  }
+
+  const handleAnnotationPointerDown = (
+    e: PointerEvent<SVGGElement>,
+    annotation: Annotation,
+  ) => {
+    if (tool !== 'select') return
+    e.stopPropagation()
+
+    const svg = e.currentTarget.ownerSVGElement
+    if (!svg) return
+    svg.setPointerCapture(e.pointerId)
+
+    const rect = svg.getBoundingClientRect()
+    moveRef.current = {
+      id: annotation.id,
+      origin: {
+        x: (e.clientX - rect.left) / zoom,
+        y: (e.clientY - rect.top) / zoom,
+      },
+      original: annotation,
+    }
+    setSelectedId(annotation.id)
+  }
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const point = getPoint(e)
+
+    const move = moveRef.current
+    if (move) {
+      const moved = moveAnnotation(
+        move.original,
+        point.x - move.origin.x,
+        point.y - move.origin.y,
+      )
+      setAnnotations((prev) =>
+        prev.map((annotation) =>
+          annotation.id === move.id ? moved : annotation,
+        ),
+      )
+      return
+    }
+
+    const start = draftStartRef.current
+    if (!start) return
+
+    setDraft((prev) => {
+      if (!prev) return prev
+      switch (prev.type) {
+        case 'line':
+          return { ...prev, end: point }
+        case 'freehand':
+          return { ...prev, points: [...prev.points, point] }
+        case 'rectangle':
+        case 'ellipse':
+          return { ...prev, ...rectFromPoints(start, point) }
+        default:
+          return prev
+      }
+    })
+  }
+
+  const handlePointerUp = () => {
+    moveRef.current = null
+
+    if (!draftStartRef.current || !draft) return
+    draftStartRef.current = null
+
+    const bounds = getBounds(draft)
+    const isTooSmall =
+      draft.type === 'freehand'
+        ? draft.points.length < 2
+        : bounds.width < 2 && bounds.height < 2
+
+    if (!isTooSmall) {
+      setAnnotations((prev) => [...prev, draft])
+      setSelectedId(draft.id)
+    }
+    setDraft(null)
+  }
+
+  const applyStyle = (changes: {
+    color?: string
+    strokeWidth?: number
+    font?: KhmerFontName
+    fontSize?: number
+    opacity?: number
+    filled?: boolean
+  }) => {
+    if (changes.font !== undefined) setFont(changes.font)
+    if (changes.color !== undefined) setColor(changes.color)
+    if (changes.strokeWidth !== undefined) setStrokeWidth(changes.strokeWidth)
+    if (changes.fontSize !== undefined) setFontSize(changes.fontSize)
+    if (changes.opacity !== undefined) setOpacity(changes.opacity)
+    if (changes.filled !== undefined) setFilled(changes.filled)
+
+    if (selectedAnnotation) {
+      // Only touch properties the selected annotation type has
+      const applicable = Object.fromEntries(
+        Object.entries(changes).filter(([key]) => key in selectedAnnotation),
+      )
+      updateAnnotation(selectedAnnotation.id, applicable)
+    }
+  }
+
+  const savePDF = async () => {
+    if (!pdfFile) return
+
+    setIsSaving(true)
+    try {
+      const arrayBuffer = await pdfFile.file.arrayBuffer()
+      const pdfBytes = await applyAnnotations(arrayBuffer, annotations)
+      const blob = new Blob([new Uint8Array(pdfBytes)], {
+        type: 'application/pdf',
+      })
+      const url = URL.createObjectURL(blob)
+
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `edited-${pdfFile.name}`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Error saving PDF:', error)
+      alert('Error saving PDF. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return bytes + ' B'
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB'
+    return (bytes / (1024 * 1024)).toFixed(2) + ' MB'
+  }
+
+  const selectionBounds = selectedAnnotation
+    ? getBounds(selectedAnnotation)
+    : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-linear-to-r from-violet-600 to-fuchsia-600 text-white py-12 px-4">
+        <div className="max-w-7xl mx-auto text-center">
+          <h1 className="text-4xl font-bold mb-2">Edit PDF</h1>
+          <p className="text-violet-50">
+            Add text, images, shapes or freehand annotations to a PDF document
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/png,image/jpeg"
+          onChange={handleImageInput}
+          className="hidden"
+        />
+
+        {/* Drop Zone */}
+        {!pdfFile && !isLoading && (
+          <div
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={cn(
+              'border-2 border-dashed rounded-2xl p-12 text-center cursor-pointer transition-all duration-300',
+              isDragging
+                ? 'border-violet-500 bg-violet-50 scale-105'
+                : 'border-gray-300 bg-white hover:border-violet-400 hover:bg-violet-50',
+            )}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf"
+              onChange={handleFileInput}
+              className="hidden"
+            />
+            <Upload
+              className={cn(
+                'mx-auto mb-4',
+                isDragging ? 'text-violet-500 animate-bounce' : 'text-gray-400',
+              )}
+              size={64}
+            />
+            <h3 className="text-xl font-semibold text-gray-700 mb-2">
+              {isDragging ? 'Drop your PDF file here' : 'Drag & Drop PDF file'}
+            </h3>
+            <p className="text-gray-500 mb-4">or click to browse</p>
+            <p className="text-sm text-gray-400">
+              Upload a PDF file to start editing
+            </p>
+          </div>
+        )}
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Spinner className="size-12 mb-4" />
+            <p className="text-lg font-medium text-foreground">
+              Loading PDF pages...
+            </p>
+          </div>
+        )}
+
+        {/* Editor */}
+        {pdfFile && pdf && (
+          <div>
+            {/* File Info */}
+            <div className="bg-card rounded-xl p-4 shadow-md border border-border mb-4 flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4 min-w-0">
+                <FileText className="text-violet-600 shrink-0" size={36} />
+                <div className="min-w-0">
+                  <h2 className="text-lg font-bold text-foreground truncate">
+                    {pdfFile.name}
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFileSize(pdfFile.size)} • {pageSizes.length}{' '}
+                    {pageSizes.length === 1 ? 'page' : 'pages'} •{' '}
+                    {annotations.length} annotation
+                    {annotations.length !== 1 ? 's' : ''}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={savePDF}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2 font-medium"
+                >
+                  {isSaving ? (
+                    <Spinner className="size-4" />
+                  ) : (
+                    <Download size={18} />
+                  )}
+                  Save PDF
+                </button>
+                <button
+                  onClick={closeFile}
+                  disabled={isSaving}
+                  className="p-2 text-destructive border border-destructive/30 rounded-lg hover:bg-destructive/10 transition-colors"
+                  title="Close file"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+            </div>
+
+            {/* Toolbar */}
+            <div className="bg-card rounded-xl p-3 shadow-md border border-border mb-4 flex flex-wrap items-center gap-3 sticky top-0 z-20">
+              <div className="flex gap-1">
+                {tools.map((item) => (
+                  <button
+                    key={item.tool}
+                    onClick={() => selectTool(item.tool)}
+                    title={item.label}
+                    className={cn(
+                      'p-2 rounded-lg transition-colors',
+                      tool === item.tool
+                        ? 'bg-violet-600 text-white'
+                        : 'hover:bg-secondary text-secondary-foreground',
+                    )}
+                  >
+                    {item.icon}
+                  </button>
+                ))}
+              </div>
+
+              <div className="h-8 w-px bg-border" />
+
+              <label className="flex items-center gap-2 text-sm">
+                Color
+                <input
+                  type="color"
+                  value={selectedAnnotation?.color ?? color}
+                  onChange={(e) => applyStyle({ color: e.target.value })}
+                  className="w-8 h-8 rounded cursor-pointer"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                Stroke
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={
+                    selectedAnnotation && 'strokeWidth' in selectedAnnotation
+                      ? selectedAnnotation.strokeWidth
+                      : strokeWidth
+                  }
+                  onChange={(e) =>
+                    applyStyle({ strokeWidth: Number(e.target.value) })
+                  }
+                  className="w-16 px-2 py-1 border border-border rounded"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                Font
+                <select
+                  value={
+                    selectedAnnotation?.type === 'text'
+                      ? selectedAnnotation.font
+                      : font
+                  }
+                  onChange={(e) =>
+                    applyStyle({ font: e.target.value as KhmerFontName })
+                  }
+                  className="px-2 py-1 border border-border rounded"
+                >
+                  {khmerFonts.map((option) => (
+                    <option key={option.name} value={option.name}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                Font size
+                <input
+                  type="number"
+                  min={6}
+                  max={96}
+                  value={
+                    selectedAnnotation?.type === 'text'
+                      ? selectedAnnotation.fontSize
+                      : fontSize
+                  }
+                  onChange={(e) =>
+                    applyStyle({ fontSize: Number(e.target.value) })
+                  }
+                  className="w-16 px-2 py-1 border border-border rounded"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                Opacity
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.1}
+                  value={selectedAnnotation?.opacity ?? opacity}
+                  onChange={(e) =>
+                    applyStyle({ opacity: Number(e.target.value) })
+                  }
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={
+                    selectedAnnotation && 'filled' in selectedAnnotation
+                      ? selectedAnnotation.filled
+                      : filled
+                  }
+                  onChange={(e) => applyStyle({ filled: e.target.checked })}
+                />
+                Fill shapes
+              </label>
+
+              <div className="h-8 w-px bg-border" />
+
+              <button
+                onClick={() => setZoom((z) => Math.max(0.5, z - 0.25))}
+                className="p-2 rounded-lg hover:bg-secondary"
+                title="Zoom out"
+              >
+                <ZoomOut size={18} />
+              </button>
+              <span className="text-sm w-12 text-center">
+                {Math.round(zoom * 100)}%
+              </span>
+              <button
+                onClick={() => setZoom((z) => Math.min(3, z + 0.25))}
+                className="p-2 rounded-lg hover:bg-secondary"
+                title="Zoom in"
+              >
+                <ZoomIn size={18} />
+              </button>
+
+              {selectedAnnotation && (
+                <button
+                  onClick={deleteSelected}
+                  className="ml-auto p-2 rounded-lg hover:bg-destructive/10 text-destructive"
+                  title="Delete annotation"
+                >
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </div>
+
+            {selectedAnnotation?.type === 'text' && (
+              <div className="bg-card rounded-xl p-3 shadow-md border border-border mb-4">
+                <textarea
+                  value={selectedAnnotation.text}
+                  onChange={(e) =>
+                    updateAnnotation(selectedAnnotation.id, {
+                      text: e.target.value,
+                    })
+                  }
+                  rows={3}
+                  className="w-full px-3 py-2 border border-border rounded-lg"
+                  placeholder="Annotation text"
+                />
+              </div>
+            )}
+
+            {tool === 'image' && pendingImage && (
+              <p className="mb-4 text-sm text-violet-700">
+                Click on a page to place the image
+              </p>
+            )}
+
+            {/* Pages */}
+            <div className="flex flex-col items-center gap-6 overflow-x-auto pb-8">
+              {pageSizes.map((size, pageIndex) => {
+                const pageAnnotations = annotations.filter(
+                  (annotation) => annotation.pageIndex === pageIndex,
+                )
+                const width = size.width * zoom
+                const height = size.height * zoom
+
+                return (
+                  <div key={pageIndex} className="flex flex-col items-center">
+                    <div
+                      className="relative bg-white shadow-lg"
+                      style={{ width, height }}
+                    >
+                      <PageCanvas
+                        pdf={pdf}
+                        pageNumber={pageIndex + 1}
+                        zoom={zoom}
+                      />
+                      <svg
+                        width={width}
+                        height={height}
+                        className={cn(
+                          'absolute inset-0 touch-none',
+                          tool === 'select'
+                            ? 'cursor-default'
+                            : 'cursor-crosshair',
+                        )}
+                        onPointerDown={(e) =>
+                          handlePagePointerDown(e, pageIndex)
+                        }
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                      >
+                        <g transform={`scale(${zoom})`}>
+                          {pageAnnotations.map((annotation) => (
+                            <g
+                              key={annotation.id}
+                              onPointerDown={(e) =>
+                                handleAnnotationPointerDown(e, annotation)
+                              }
+                              className={
+                                tool === 'select' ? 'cursor-move' : undefined
+                              }
+                            >
+                              <AnnotationShape annotation={annotation} />
+                            </g>
+                          ))}
+                          {draft?.pageIndex === pageIndex && (
+                            <AnnotationShape annotation={draft} />
+                          )}
+                          {selectionBounds &&
+                            selectedAnnotation?.pageIndex === pageIndex && (
+                              <rect
+                                x={selectionBounds.x - 4}
+                                y={selectionBounds.y - 4}
+                                width={selectionBounds.width + 8}
+                                height={selectionBounds.height + 8}
+                                fill="none"
+                                stroke="#7c3aed"
+                                strokeWidth={1 / zoom}
+                                strokeDasharray={`${4 / zoom} ${4 / zoom}`}
+                                pointerEvents="none"
+                              />
+                            )}
+                        </g>
+                      </svg>
+                    </div>
+                    <span className="text-sm text-muted-foreground mt-2">
+                      Page {pageIndex + 1}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Instructions */}
+        {!pdfFile && !isLoading && (
+          <div className="mt-12 bg-white rounded-2xl p-8 shadow-md">
+            <h3 className="text-xl font-bold text-gray-800 mb-4">
+              How to edit a PDF:
+            </h3>
+            <ol className="space-y-3 text-gray-600">
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-violet-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  1
+                </span>
+                <span>
+                  Drag and drop your PDF file into the upload area, or click to
+                  select a file from your computer
+                </span>
+              </li>
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-violet-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  2
+                </span>
+                <span>
+                  Pick a tool from the toolbar and click or drag on a page to
+                  add text, images, shapes, lines or freehand drawings
+                </span>
+              </li>
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-violet-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  3
+                </span>
+                <span>
+                  Use the select tool to move annotations, change their style,
+                  or remove them with the Delete key
+                </span>
+              </li>
+              <li className="flex items-start gap-3">
+                <span className="shrink-0 w-6 h-6 bg-violet-600 text-white rounded-full flex items-center justify-center text-sm font-bold">
+                  4
+                </span>
+                <span>Click "Save PDF" to download the edited document</span>
+              </li>
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  )
 }
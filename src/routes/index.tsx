@@ -79,7 +79,7 @@ const tools: Tool[] = [
       'Make DOC and DOCX files easy to read by converting them to PDF.',
     icon: <Upload className="w-8 h-8" />,
     category: ['all', 'convert'],
-    link: '/',
+    link: '/convert/word-to-pdf',
   },
   {
     name: 'PowerPoint to PDF',
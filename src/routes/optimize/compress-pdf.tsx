@@ -1,8 +1,42 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import type { DragEvent, ChangeEvent } from 'react'
-import { Upload, X, FileText, Download, Loader2, Gauge } from 'lucide-react'
-import { compressPDF, type CompressionMode } from '@/lib/compress-helper'
+import {
+  Upload,
+  X,
+  FileText,
+  Download,
+  Loader2,
+  Gauge,
+  Layers,
+  Target,
+  Eye,
+  Plus,
+  Pencil,
+  Trash2,
+  SlidersHorizontal,
+  ListChecks,
+} from 'lucide-react'
+import type {
+  CompressedPDF,
+  CompressionMode,
+  CompressionReport,
+  CompressionSettings,
+} from '@/lib/compress-helper'
+import type { CompressionProfile } from '@/lib/compression-profiles'
+import {
+  compressPDF,
+  compressToTargetSize,
+  describeCompressionSettings,
+  getCompressionSettings,
+} from '@/lib/compress-helper'
+import {
+  loadCompressionProfiles,
+  saveCompressionProfiles,
+} from '@/lib/compression-profiles'
+import { CompressionPreview } from '@/components/CompressionPreview'
+import { CompressionReportTable } from '@/components/CompressionReportTable'
+import { CompressionProfileEditor } from '@/components/CompressionProfileEditor'
 
 export const Route = createFileRoute('/optimize/compress-pdf')({
   component: RouteComponent,
@@ -16,6 +50,29 @@ interface PDFFile {
   compressedSize?: number
   status: 'pending' | 'processing' | 'completed' | 'error'
   progress?: number
+  compressed?: Blob
+  /** Settings picked by target-size compression */
+  settingsLabel?: string
+  fitsTarget?: boolean
+  showPreview?: boolean
+  report?: CompressionReport
+  showReport?: boolean
+  kept?: KeptResult
+}
+
+/**
+ * Which file was kept: the chosen compression, structural compression when
+ * flattening made the file bigger, or the original when nothing was smaller
+ */
+type KeptResult = 'compressed' | 'structural' | 'original'
+
+interface CompressionResult {
+  blob: Blob
+  report?: CompressionReport
+  settings: CompressionMode | CompressionSettings
+  settingsLabel?: string
+  fitsTarget?: boolean
+  kept?: KeptResult
 }
 
 interface CompressionOption {
@@ -24,6 +81,7 @@ interface CompressionOption {
   description: string
   quality: string
   compression: string
+  resolution: string
   imageQuality: number
 }
 
@@ -34,6 +92,7 @@ const compressionOptions: CompressionOption[] = [
     description: 'Maximum compression',
     quality: 'Lower quality',
     compression: 'High compression',
+    resolution: 'Images reduced to 72 DPI',
     imageQuality: 0.3,
   },
   {
@@ -42,6 +101,7 @@ const compressionOptions: CompressionOption[] = [
     description: 'Balanced compression',
     quality: 'Good quality',
     compression: 'Good compression',
+    resolution: 'Images reduced to 150 DPI',
     imageQuality: 0.6,
   },
   {
@@ -50,6 +110,7 @@ const compressionOptions: CompressionOption[] = [
     description: 'Light compression',
     quality: 'High quality',
     compression: 'Less compression',
+    resolution: 'Images reduced to 220 DPI',
     imageQuality: 0.85,
   },
 ]
@@ -58,9 +119,21 @@ function RouteComponent() {
   const [pdfFiles, setPdfFiles] = useState<PDFFile[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
-  const [compressionMode, setCompressionMode] =
-    useState<CompressionMode>('normal')
+  const [compressionMode, setCompressionMode] = useState<
+    CompressionMode | 'target' | 'profile'
+  >('normal')
+  const [profiles, setProfiles] = useState(loadCompressionProfiles)
+  const [profileId, setProfileId] = useState<string | null>(null)
+  const [editingProfile, setEditingProfile] = useState<
+    CompressionProfile | 'new' | null
+  >(null)
+  const [targetSizeMb, setTargetSizeMb] = useState('2')
+  const [flatten, setFlatten] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Leaving the page stops the render worker
+  useEffect(() => () => abortRef.current?.abort(), [])
 
   const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -120,31 +193,172 @@ function RouteComponent() {
     return (bytes / (1024 * 1024)).toFixed(2) + ' MB'
   }
 
-  const handleCompressPDF = async (pdfFile: PDFFile): Promise<Uint8Array> => {
-    return await compressPDF(
-      pdfFile.file,
-      compressionMode,
-      (current, total) => {
-        const progress = Math.floor((current / total) * 100)
-        setPdfFiles((prev) =>
-          prev.map((f) => (f.id === pdfFile.id ? { ...f, progress } : f)),
-        )
-      },
+  const targetSize = Number(targetSizeMb) * 1024 * 1024
+  const selectedProfile = profiles.find((profile) => profile.id === profileId)
+  const modeLabel =
+    compressionMode === 'target'
+      ? `under ${targetSizeMb} MB`
+      : compressionMode === 'profile'
+        ? `with ${selectedProfile?.name ?? 'a profile'}`
+        : `${compressionMode} mode`
+
+  const updateProfiles = (next: Array<CompressionProfile>) => {
+    setProfiles(next)
+    saveCompressionProfiles(next)
+  }
+
+  const saveProfile = (profile: CompressionProfile) => {
+    updateProfiles(
+      profiles.some((p) => p.id === profile.id)
+        ? profiles.map((p) => (p.id === profile.id ? profile : p))
+        : [...profiles, profile],
     )
+    setProfileId(profile.id)
+    setCompressionMode('profile')
+    setEditingProfile(null)
+  }
+
+  const deleteProfile = (profile: CompressionProfile) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return
+    updateProfiles(profiles.filter((p) => p.id !== profile.id))
+    if (profileId === profile.id) {
+      setProfileId(null)
+      setCompressionMode('normal')
+    }
+  }
+
+  const selectProfile = (profile: CompressionProfile) => {
+    setProfileId(profile.id)
+    setCompressionMode('profile')
   }
 
+  const handleCompressPDF = async (
+    pdfFile: PDFFile,
+    signal: AbortSignal,
+  ): Promise<CompressionResult> => {
+    const onProgress = (current: number, total: number) => {
+      const progress = Math.floor((current / total) * 100)
+      setPdfFiles((prev) =>
+        prev.map((f) => (f.id === pdfFile.id ? { ...f, progress } : f)),
+      )
+    }
+
+    if (compressionMode === 'target') {
+      const result = await compressToTargetSize(
+        pdfFile.file,
+        targetSize,
+        onProgress,
+        { flatten, signal },
+      )
+      return {
+        blob: result.blob,
+        report: result.report,
+        settings: result.settings,
+        settingsLabel: describeCompressionSettings(result.settings, {
+          flatten,
+        }),
+        fitsTarget: result.fits,
+      }
+    }
+
+    const settings =
+      compressionMode === 'profile'
+        ? selectedProfile!.settings
+        : compressionMode
+    const result = await compressPDF(pdfFile.file, settings, onProgress, {
+      flatten,
+      signal,
+    })
+    return { ...result, settings }
+  }
+
+  /**
+   * Rasterizing text pages often makes the file bigger. Flattened output
+   * then falls back to structural compression, and the original is kept
+   * when no result is smaller.
+   */
+  const keepSmallest = async (
+    pdfFile: PDFFile,
+    result: CompressionResult,
+    signal: AbortSignal,
+  ): Promise<CompressionResult> => {
+    if (result.blob.size < pdfFile.size) {
+      return { ...result, kept: 'compressed' }
+    }
+
+    if (flatten) {
+      let lighter: CompressedPDF | null = null
+      try {
+        lighter = await compressPDF(pdfFile.file, result.settings, undefined, {
+          signal,
+        })
+      } catch (error) {
+        // Encrypted documents can only be flattened, keep the original then
+        signal.throwIfAborted()
+        console.warn('Structural compression failed:', error)
+      }
+      if (lighter && lighter.blob.size < pdfFile.size) {
+        return {
+          ...result,
+          ...lighter,
+          settingsLabel:
+            result.settingsLabel &&
+            describeCompressionSettings(
+              typeof result.settings === 'string'
+                ? getCompressionSettings(result.settings)
+                : result.settings,
+            ),
+          kept: 'structural',
+        }
+      }
+    }
+
+    return {
+      blob: pdfFile.file,
+      settings: result.settings,
+      fitsTarget: result.fitsTarget,
+      kept: 'original',
+    }
+  }
+
+  const togglePreview = (id: string) => {
+    setPdfFiles((prev) =>
+      prev.map((f) =>
+        f.id === id ? { ...f, showPreview: !f.showPreview } : f,
+      ),
+    )
+  }
+
+  const toggleReport = (id: string) => {
+    setPdfFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, showReport: !f.showReport } : f)),
+    )
+  }
+
+  const countFallbacks = (report: CompressionReport) =>
+    report.pages.filter((page) => page.fallback !== null).length
+
   const compressPDFs = async () => {
     if (pdfFiles.length === 0) {
       alert('Please select at least 1 PDF file to compress')
       return
     }
+    if (compressionMode === 'target' && !(targetSize > 0)) {
+      alert('Please enter a target size above 0 MB')
+      return
+    }
+    if (compressionMode === 'profile' && !selectedProfile) {
+      alert('Please select a compression profile')
+      return
+    }
 
     setIsProcessing(true)
+    const controller = new AbortController()
+    abortRef.current = controller
+    const { signal } = controller
 
     try {
-      for (let i = 0; i < pdfFiles.length; i++) {
-        const pdfFile = pdfFiles[i]
-
+      for (const pdfFile of pdfFiles) {
         // Update status to processing
         setPdfFiles((prev) =>
           prev.map((f) =>
@@ -153,22 +367,54 @@ function RouteComponent() {
         )
 
         try {
-          const compressedBytes = await handleCompressPDF(pdfFile)
-          const compressedSize = compressedBytes.length
+          const { blob, report, settingsLabel, fitsTarget, kept } =
+            await keepSmallest(
+              pdfFile,
+              await handleCompressPDF(pdfFile, signal),
+              signal,
+            )
+
+          if (kept === 'original') {
+            setPdfFiles((prev) =>
+              prev.map((f) =>
+                f.id === pdfFile.id
+                  ? {
+                      ...f,
+                      compressedSize: undefined,
+                      compressed: undefined,
+                      report: undefined,
+                      settingsLabel: undefined,
+                      fitsTarget,
+                      kept,
+                      status: 'completed',
+                    }
+                  : f,
+              ),
+            )
+            continue
+          }
+
+          const compressedSize = blob.size
 
           // Update with compressed size
           setPdfFiles((prev) =>
             prev.map((f) =>
               f.id === pdfFile.id
-                ? { ...f, compressedSize, status: 'completed' }
+                ? {
+                    ...f,
+                    compressedSize,
+                    compressed: blob,
+                    report,
+                    settingsLabel,
+                    fitsTarget,
+                    kept,
+                    status: 'completed',
+                  }
                 : f,
             ),
           )
 
           // Download compressed PDF
-          const blob = new Blob([new Uint8Array(compressedBytes)], {
-            type: 'application/pdf',
-          })
           const url = URL.createObjectURL(blob)
 
           const link = document.createElement('a')
@@ -179,19 +425,42 @@ function RouteComponent() {
           document.body.removeChild(link)
           URL.revokeObjectURL(url)
         } catch (error) {
+          if (signal.aborted) {
+            // Cancelled files can be compressed again
+            setPdfFiles((prev) =>
+              prev.map((f) =>
+                f.id === pdfFile.id
+                  ? { ...f, status: 'pending', progress: undefined }
+                  : f,
+              ),
+            )
+            break
+          }
           console.error(`Error compressing ${pdfFile.name}:`, error)
           setPdfFiles((prev) =>
             prev.map((f) =>
-              f.id === pdfFile.id ? { ...f, status: 'error' } : f,
+              f.id === pdfFile.id
+                ? {
+                    ...f,
+                    status: 'error',
+                    compressed: undefined,
+                    report: undefined,
+                  }
+                : f,
             ),
           )
         }
       }
     } finally {
+      abortRef.current = null
       setIsProcessing(false)
     }
   }
 
+  const cancelCompression = () => {
+    abortRef.current?.abort()
+  }
+
   const getCompressionRatio = (
     original: number,
     compressed?: number,
@@ -252,12 +521,161 @@ function RouteComponent() {
                 <div className="text-xs text-gray-500 space-y-1">
                   <p>• {option.quality}</p>
                   <p>• {option.compression}</p>
+                  <p>• {option.resolution}</p>
                 </div>
               </button>
             ))}
           </div>
+          <div
+            onClick={() => !isProcessing && setCompressionMode('target')}
+            className={`mt-4 p-4 rounded-xl border-2 transition-all flex flex-wrap items-center gap-4 ${
+              compressionMode === 'target'
+                ? 'border-blue-600 bg-blue-50 shadow-md'
+                : 'border-gray-200 bg-white hover:border-blue-300 hover:bg-blue-50'
+            } ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            <div className="flex items-center gap-2">
+              <div
+                className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
+                  compressionMode === 'target'
+                    ? 'border-blue-600'
+                    : 'border-gray-300'
+                }`}
+              >
+                {compressionMode === 'target' && (
+                  <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+                )}
+              </div>
+              <Target className="text-blue-600" size={18} />
+              <h3 className="font-bold text-gray-800">Target size</h3>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>Make each PDF smaller than</span>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={targetSizeMb}
+                onChange={(e) => setTargetSizeMb(e.target.value)}
+                onFocus={() => setCompressionMode('target')}
+                disabled={isProcessing}
+                className="w-24 rounded-lg border border-gray-300 bg-white px-2 py-1"
+                aria-label="Target size in MB"
+              />
+              <span>MB</span>
+            </div>
+            <p className="w-full text-xs text-gray-500">
+              Tries lighter settings first and keeps the best quality that fits.
+              If the target cannot be reached, you get the smallest file
+              possible.
+            </p>
+          </div>
+
+          {/* Custom Profiles */}
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-bold text-gray-800 flex items-center gap-2">
+                <SlidersHorizontal className="text-blue-600" size={18} />
+                Custom Profiles
+              </h3>
+              <button
+                onClick={() => setEditingProfile('new')}
+                disabled={isProcessing}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus size={16} />
+                New profile
+              </button>
+            </div>
+            {profiles.length === 0 && !editingProfile && (
+              <p className="text-sm text-gray-500">
+                Save your own DPI, format, color and quality settings to reuse
+                them later.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {profiles.map((profile) => (
+                <div
+                  key={profile.id}
+                  onClick={() => !isProcessing && selectProfile(profile)}
+                  className={`p-4 rounded-xl border-2 transition-all ${
+                    compressionMode === 'profile' && profileId === profile.id
+                      ? 'border-blue-600 bg-blue-50 shadow-md'
+                      : 'border-gray-200 bg-white hover:border-blue-300 hover:bg-blue-50'
+                  } ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <h4 className="font-bold text-gray-800 flex-1 truncate">
+                      {profile.name}
+                    </h4>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setEditingProfile(profile)
+                      }}
+                      disabled={isProcessing}
+                      className="p-1 rounded text-gray-500 hover:text-blue-600"
+                      title="Edit profile"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        deleteProfile(profile)
+                      }}
+                      disabled={isProcessing}
+                      className="p-1 rounded text-gray-500 hover:text-red-600"
+                      title="Delete profile"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {describeCompressionSettings(profile.settings, {
+                      flatten,
+                    })}
+                  </p>
+                </div>
+              ))}
+            </div>
+            {editingProfile && (
+              <CompressionProfileEditor
+                key={editingProfile === 'new' ? 'new' : editingProfile.id}
+                profile={editingProfile === 'new' ? undefined : editingProfile}
+                onSave={saveProfile}
+                onCancel={() => setEditingProfile(null)}
+              />
+            )}
+          </div>
         </div>
 
+        {/* Flatten Option */}
+        <label
+          className={`mb-8 flex items-start gap-3 p-4 rounded-xl border-2 bg-white transition-all ${
+            flatten ? 'border-blue-600 bg-blue-50' : 'border-gray-200'
+          } ${isProcessing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+        >
+          <input
+            type="checkbox"
+            checked={flatten}
+            onChange={(e) => setFlatten(e.target.checked)}
+            disabled={isProcessing}
+            className="mt-1 w-4 h-4 accent-blue-600"
+          />
+          <div>
+            <p className="font-bold text-gray-800 flex items-center gap-2">
+              <Layers className="text-blue-600" size={18} />
+              Flatten pages
+            </p>
+            <p className="text-sm text-gray-600">
+              Turns every page into an image. Text can no longer be selected or
+              searched, and links, form fields and vector graphics are lost.
+              Only use it when regular compression is not enough.
+            </p>
+          </div>
+        </label>
+
         {/* Drop Zone */}
         <div
           onDragEnter={handleDragEnter}
@@ -289,7 +707,8 @@ function RouteComponent() {
           </h3>
           <p className="text-gray-500 mb-4">or click to browse</p>
           <p className="text-sm text-gray-400">
-            Select PDF files to compress with {compressionMode} mode
+            Select PDF files to compress {modeLabel}
+            {flatten && ', flattened'}
           </p>
         </div>
 
@@ -373,9 +792,39 @@ function RouteComponent() {
                           </div>
                         </div>
                       )}
-                      {pdfFile.status === 'completed' && (
-                        <p className="text-sm text-green-600 font-medium mt-1">
-                          ✓ Compressed and downloaded
+                      {pdfFile.status === 'completed' &&
+                        pdfFile.kept !== 'original' && (
+                          <p className="text-sm text-green-600 font-medium mt-1">
+                            ✓ Compressed and downloaded
+                          </p>
+                        )}
+                      {pdfFile.kept === 'structural' && (
+                        <p className="text-sm text-amber-600 font-medium mt-1">
+                          Flattening made this file larger, so pages were kept
+                          as text and only images and streams were compressed
+                        </p>
+                      )}
+                      {pdfFile.kept === 'original' && (
+                        <p className="text-sm text-amber-600 font-medium mt-1">
+                          Compression would make this file larger, so the
+                          original was kept and nothing was downloaded
+                        </p>
+                      )}
+                      {pdfFile.report && countFallbacks(pdfFile.report) > 0 && (
+                        <p className="text-sm text-amber-600 font-medium mt-1">
+                          {countFallbacks(pdfFile.report)} page(s) could not be
+                          compressed and were kept unchanged
+                        </p>
+                      )}
+                      {pdfFile.settingsLabel && (
+                        <p className="text-sm text-gray-600 mt-1">
+                          Settings used: {pdfFile.settingsLabel}
+                        </p>
+                      )}
+                      {pdfFile.fitsTarget === false && (
+                        <p className="text-sm text-amber-600 font-medium mt-1">
+                          Could not get below the target size, this is the
+                          smallest file possible
                         </p>
                       )}
                       {pdfFile.status === 'error' && (
@@ -385,6 +834,24 @@ function RouteComponent() {
                       )}
                     </div>
                     <div className="flex items-center gap-2">
+                      {pdfFile.report && (
+                        <button
+                          onClick={() => toggleReport(pdfFile.id)}
+                          className="p-2 rounded-lg hover:bg-blue-100 text-blue-600 transition-colors"
+                          title="Compression report"
+                        >
+                          <ListChecks size={20} />
+                        </button>
+                      )}
+                      {pdfFile.compressed && (
+                        <button
+                          onClick={() => togglePreview(pdfFile.id)}
+                          className="p-2 rounded-lg hover:bg-blue-100 text-blue-600 transition-colors"
+                          title="Compare quality"
+                        >
+                          <Eye size={20} />
+                        </button>
+                      )}
                       {pdfFile.status === 'processing' && (
                         <Loader2
                           className="text-blue-600 animate-spin"
@@ -403,6 +870,15 @@ function RouteComponent() {
                       )}
                     </div>
                   </div>
+                  {pdfFile.showReport && pdfFile.report && (
+                    <CompressionReportTable report={pdfFile.report} />
+                  )}
+                  {pdfFile.showPreview && pdfFile.compressed && (
+                    <CompressionPreview
+                      original={pdfFile.file}
+                      compressed={pdfFile.compressed}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -422,10 +898,21 @@ function RouteComponent() {
                 <>
                   <Download size={24} />
                   Compress {pdfFiles.length} PDF{pdfFiles.length > 1 ? 's' : ''}{' '}
-                  ({compressionMode} mode)
+                  ({modeLabel}
+                  {flatten && ', flattened'})
                 </>
               )}
             </button>
+
+            {isProcessing && (
+              <button
+                onClick={cancelCompression}
+                className="w-full mt-3 bg-red-50 text-red-600 py-3 px-6 rounded-xl font-semibold hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+              >
+                <X size={20} />
+                Cancel
+              </button>
+            )}
           </div>
         )}
 
@@ -477,6 +964,11 @@ function RouteComponent() {
               <h4 className="font-semibold text-gray-800 mb-2">
                 Compression Modes:
               </h4>
+              <p className="text-sm text-gray-600 mb-2">
+                Text, links, forms and vector graphics are kept. Only embedded
+                images are downsampled and recompressed, and duplicate or unused
+                data is removed.
+              </p>
               <ul className="space-y-2 text-sm text-gray-600">
                 <li>
                   <strong>Extreme:</strong> Maximum file size reduction with
@@ -491,6 +983,11 @@ function RouteComponent() {
                   <strong>Less:</strong> Light compression preserving high
                   quality - ideal for important documents
                 </li>
+                <li>
+                  <strong>Flatten:</strong> Renders pages as images for the
+                  smallest scans, at the cost of selectable text, links and
+                  forms
+                </li>
               </ul>
             </div>
           </div>
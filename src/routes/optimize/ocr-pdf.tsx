@@ -1,46 +1,460 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState, useRef, useCallback } from 'react'
-import { createWorker, type Worker } from 'tesseract.js'
-import * as pdfjsLib from 'pdfjs-dist'
-import { FileText, Upload, Download, AlertCircle } from 'lucide-react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import {
+  FileText,
+  Upload,
+  Download,
+  AlertCircle,
+  HardDrive,
+  Search,
+  Eye,
+  History,
+  X,
+  CircleCheck,
+  FileImage,
+  FileArchive,
+  FolderOpen,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react'
+import type { OcrOutputFormat } from '@/lib/ocr-export'
+import type { OcrPageResult, OcrRegion, OcrWordPath } from '@/lib/ocr-helper'
+import type { OcrPool } from '@/lib/ocr-pool'
+import type { OcrSource } from '@/lib/ocr-source'
+import type { PageContentKind } from '@/lib/ocr-text-layer'
+import type {
+  BinarizeMethod,
+  PreprocessOptions,
+  PreprocessResult,
+} from '@/lib/ocr-preprocess'
+import { OcrProofreader } from '@/components/OcrProofreader'
+import { OcrRegionEditor } from '@/components/OcrRegionEditor'
 import { Spinner } from '@/components/ui/spinner'
 import { cn } from '@/lib/utils'
-import { languages, type Language } from '@/types/ocr-language'
-
-// Set up PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `/pdf-js/pdf.worker.mjs`
+import { commonLanguages, languages, type Language } from '@/types/ocr-language'
+import {
+  clearCheckpoint,
+  getCheckpointKey,
+  getCheckpointPages,
+  hashFile,
+  loadCheckpoint,
+  savePageCheckpoint,
+} from '@/lib/ocr-checkpoint'
+import { getDroppedFiles } from '@/lib/dropped-files'
+import { createOcrOutput, createOcrZip } from '@/lib/ocr-export'
+import { correctOcrWord, getOcrDocumentText } from '@/lib/ocr-helper'
+import {
+  getCachedLanguages,
+  resolveLanguageSource,
+} from '@/lib/ocr-language-data'
+import { createOcrPool, getDefaultPoolSize } from '@/lib/ocr-pool'
+import {
+  createOrientationDetector,
+  defaultPreprocessOptions,
+  preprocessPage,
+} from '@/lib/ocr-preprocess'
+import {
+  OCR_FILE_ACCEPT,
+  getOcrFileKind,
+  openOcrSource,
+} from '@/lib/ocr-source'
+import { toTextLayerResult } from '@/lib/ocr-text-layer'
+import { parsePageRange } from '@/lib/page-range'
 
 export const Route = createFileRoute('/optimize/ocr-pdf')({
   component: RouteComponent,
 })
 
+type PageStatus = 'queued' | 'checking' | 'rendering' | 'recognizing' | 'done'
+
+interface PageProgress {
+  pageNumber: number
+  status: PageStatus
+  /** Recognition progress, 0 to 1 */
+  progress: number
+  /** Set once the page has been checked for existing text */
+  content?: PageContentKind
+}
+
+type FileStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled'
+
+/** A file waiting for, or done with, recognition */
+interface QueueItem {
+  id: string
+  file: File
+  status: FileStatus
+  pages: Array<OcrPageResult>
+  /** Languages the pages were recognized with */
+  languages: Array<Language>
+  error?: string
+}
+
+const outputFormats: Array<{
+  value: OcrOutputFormat
+  label: string
+  description: string
+}> = [
+  {
+    value: 'txt',
+    label: 'Plain Text',
+    description: 'The recognized text as a .txt file',
+  },
+  {
+    value: 'pdf',
+    label: 'Searchable PDF',
+    description: 'The original pages with an invisible, selectable text layer',
+  },
+  {
+    value: 'hocr',
+    label: 'hOCR',
+    description: 'HTML with blocks, paragraphs, lines and words with boxes',
+  },
+  {
+    value: 'alto',
+    label: 'ALTO XML',
+    description: 'Library standard layout XML with word confidences',
+  },
+  {
+    value: 'tsv',
+    label: 'TSV',
+    description: "Tesseract's tab separated table of every box and word",
+  },
+  {
+    value: 'fields',
+    label: 'Form Fields CSV',
+    description: 'One row per page and one column per labelled region',
+  },
+]
+
+const preprocessSteps: Array<{
+  key: Exclude<keyof PreprocessOptions, 'binarize'>
+  label: string
+  description: string
+}> = [
+  {
+    key: 'grayscale',
+    label: 'Grayscale',
+    description: 'Drop color information',
+  },
+  {
+    key: 'denoise',
+    label: 'Denoise',
+    description: 'Smooth out sensor noise and JPEG artifacts',
+  },
+  {
+    key: 'deskew',
+    label: 'Deskew',
+    description: 'Straighten slightly tilted pages',
+  },
+  {
+    key: 'despeckle',
+    label: 'Despeckle',
+    description: 'Remove isolated dots after binarization',
+  },
+  {
+    key: 'autoRotate',
+    label: 'Auto-rotate',
+    description: 'Detect sideways or upside down pages (downloads OSD data)',
+  },
+]
+
+const binarizeMethods: Array<{ value: BinarizeMethod; label: string }> = [
+  { value: 'none', label: 'Off' },
+  { value: 'otsu', label: 'Otsu (global)' },
+  { value: 'sauvola', label: 'Sauvola (adaptive)' },
+]
+
+function describeStatus(item: QueueItem): string {
+  switch (item.status) {
+    case 'queued':
+      return 'Queued'
+    case 'processing':
+      return 'Recognizing…'
+    case 'done': {
+      const fromText = item.pages.filter((page) => page.textLayer).length
+      return `${item.pages.length} page${item.pages.length !== 1 ? 's' : ''} recognized${fromText > 0 ? `, ${fromText} from existing text` : ''}`
+    }
+    case 'error':
+      return item.error ?? 'Failed'
+    case 'cancelled':
+      return 'Cancelled, finished pages are kept for the next run'
+  }
+}
+
+function describePreprocessing(result: PreprocessResult): string {
+  const parts: Array<string> = []
+  if (result.orientation) parts.push(`rotated ${result.orientation}°`)
+  if (result.skewAngle) {
+    parts.push(`deskewed by ${result.skewAngle.toFixed(2)}°`)
+  }
+  return parts.length > 0 ? parts.join(', ') : 'no rotation needed'
+}
+
 function RouteComponent() {
-  const [file, setFile] = useState<File | null>(null)
+  const [queue, setQueue] = useState<Array<QueueItem>>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
   const [selectedLanguages, setSelectedLanguages] = useState<Language[]>([
     'eng',
   ])
   const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [extractedText, setExtractedText] = useState('')
+  const [pageProgress, setPageProgress] = useState<Array<PageProgress>>([])
+  const [outputFormat, setOutputFormat] = useState<OcrOutputFormat>('txt')
+  const [pageRangeInput, setPageRangeInput] = useState('')
+  const [regions, setRegions] = useState<Array<OcrRegion>>([])
+  const [forceOcr, setForceOcr] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [currentPage, setCurrentPage] = useState(0)
-  const [totalPages, setTotalPages] = useState(0)
+  const [languageSearch, setLanguageSearch] = useState('')
+  const [cachedLanguages, setCachedLanguages] = useState<Set<string>>(new Set())
+  const [loadingLanguage, setLoadingLanguage] = useState<string | null>(null)
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(
+    defaultPreprocessOptions,
+  )
+  const [previewPage, setPreviewPage] = useState(1)
+  const [pageCount, setPageCount] = useState(0)
+  const [fileHash, setFileHash] = useState<string | null>(null)
+  const [savedPages, setSavedPages] = useState<Set<number>>(new Set())
+  // Bumped when a run or "Start over" changes the saved checkpoints
+  const [checkpointRevision, setCheckpointRevision] = useState(0)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [preview, setPreview] = useState<{
+    pageNumber: number
+    before: string
+    after: string
+    details: string
+  } | null>(null)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const workerRef = useRef<Worker | null>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
+  const poolRef = useRef<OcrPool | null>(null)
+  const sourceRef = useRef<{
+    file: File
+    source: Promise<OcrSource>
+  } | null>(null)
+
+  // Preview, regions and proofreading work on the selected file
+  const activeItem = queue.find((item) => item.id === activeId)
+  const file = activeItem?.file ?? null
+  const ocrPages = activeItem?.pages
+
+  // Corrections made while proofreading end up in every export
+  const extractedText = useMemo(
+    () => (ocrPages ? getOcrDocumentText(ocrPages).trim() : ''),
+    [ocrPages],
+  )
+
+  /** Keeps the selected file open between previews */
+  const getSource = useCallback((selected: File) => {
+    if (sourceRef.current?.file !== selected) {
+      void sourceRef.current?.source
+        .then((source) => source.destroy())
+        .catch(() => {})
+      sourceRef.current = { file: selected, source: openOcrSource(selected) }
+    }
+    return sourceRef.current.source
+  }, [])
+
+  const getPageImage = useCallback(
+    async (pageNumber: number) => {
+      if (!file) throw new Error('No file selected')
+      const source = await getSource(file)
+      const { canvas } = await source.renderPage(pageNumber)
+      return canvas
+    },
+    [file, getSource],
+  )
+
+  const updateItem = (id: string, update: Partial<QueueItem>) => {
+    setQueue((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...update } : item)),
+    )
+  }
+
+  const handleCorrection = (
+    pageNumber: number,
+    path: OcrWordPath,
+    text: string,
+  ) => {
+    setQueue((prev) =>
+      prev.map((item) =>
+        item.id === activeId
+          ? {
+              ...item,
+              pages: item.pages.map((page) =>
+                page.pageNumber === pageNumber
+                  ? correctOcrWord(page, path, text)
+                  : page,
+              ),
+            }
+          : item,
+      ),
+    )
+  }
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    void getCachedLanguages().then(setCachedLanguages)
+    // Leaving the page stops the workers, finished pages stay checkpointed
+    return () => {
+      abortRef.current?.abort()
+      void sourceRef.current?.source
+        .then((source) => source.destroy())
+        .catch(() => {})
+    }
+  }, [])
+
+  // Page count and checkpoint hash of the selected file
+  useEffect(() => {
+    setPageCount(0)
+    setFileHash(null)
+    setPreview(null)
+    setPreviewPage(1)
+    if (!file) return
+
+    let active = true
+    getSource(file)
+      .then((source) => {
+        if (active) setPageCount(source.pageCount)
+      })
+      .catch(() => {
+        if (active) setPageCount(0)
+      })
+    hashFile(file)
+      .then((hash) => {
+        if (active) setFileHash(hash)
+      })
+      .catch(() => {
+        if (active) setFileHash(null)
+      })
+    return () => {
+      active = false
+    }
+  }, [file, getSource])
+
+  // Look for an interrupted run of the same file and languages
+  useEffect(() => {
+    if (!fileHash) {
+      setSavedPages(new Set())
+      return
+    }
+    let active = true
+    getCheckpointPages(getCheckpointKey(fileHash, selectedLanguages, regions))
+      .then((pages) => {
+        if (active) setSavedPages(pages)
+      })
+      .catch(() => {
+        if (active) setSavedPages(new Set())
+      })
+    return () => {
+      active = false
+    }
+  }, [fileHash, selectedLanguages, regions, checkpointRevision])
+
+  // Invalid input is reported when the run starts
+  const selectedPages = useMemo(() => {
+    try {
+      return parsePageRange(pageRangeInput, pageCount)
+    } catch {
+      return []
+    }
+  }, [pageRangeInput, pageCount])
+  const savedSelectedPages = selectedPages.filter((page) =>
+    savedPages.has(page),
+  ).length
+  const firstUnfinishedPage = selectedPages.find(
+    (page) => !savedPages.has(page),
+  )
+
+  // Selected languages first, then those available offline, then the
+  // common ones, the rest alphabetically
+  const visibleLanguages = useMemo(() => {
+    const query = languageSearch.trim().toLowerCase()
+    const rank = (code: Language) => {
+      if (selectedLanguages.includes(code)) return 0
+      if (cachedLanguages.has(code)) return 1
+      if (commonLanguages.includes(code)) return 2
+      return 3
+    }
+    return languages
+      .filter(
+        (lang) =>
+          !query ||
+          lang.label.toLowerCase().includes(query) ||
+          lang.code.includes(query),
+      )
+      .sort(
+        (a, b) => rank(a.code) - rank(b.code) || a.label.localeCompare(b.label),
+      )
+  }, [languageSearch, selectedLanguages, cachedLanguages])
+
+  const addFiles = (files: Array<File>) => {
+    const supported = files
+      .filter((added) => getOcrFileKind(added) !== null)
+      .sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true }),
+      )
+    const skipped = files.length - supported.length
+    setError(null)
+    setNotice(
+      skipped > 0
+        ? `Skipped ${skipped} file${skipped !== 1 ? 's' : ''} that ${skipped !== 1 ? 'are' : 'is'} not a PDF, PNG, JPG or TIFF.`
+        : null,
+    )
+    if (supported.length === 0) return
+
+    const items = supported.map(
+      (added): QueueItem => ({
+        id: `${added.name}-${Date.now()}-${Math.random()}`,
+        file: added,
+        status: 'queued',
+        pages: [],
+        languages: [],
+      }),
+    )
+    setQueue((prev) => [...prev, ...items])
+    setActiveId((prev) => prev ?? items[0].id)
+  }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'application/pdf') {
-      setFile(selectedFile)
-      setExtractedText('')
-      setError(null)
-      setProgress(0)
-    } else {
-      setError('Please select a valid PDF file')
+    addFiles(Array.from(e.target.files ?? []))
+    // Allow picking the same files again
+    e.target.value = ''
+  }
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    if (!isProcessing) setIsDragging(true)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    if (isProcessing) return
+    getDroppedFiles(e.dataTransfer)
+      .then(addFiles)
+      .catch((err: unknown) => {
+        console.error('Drop Error:', err)
+        setError('Failed to read the dropped files')
+      })
+  }
+
+  const removeItem = (id: string) => {
+    const remaining = queue.filter((item) => item.id !== id)
+    setQueue(remaining)
+    if (activeId === id) {
+      setActiveId(remaining.length > 0 ? remaining[0].id : null)
     }
   }
 
+  const clearQueue = () => {
+    setQueue([])
+    setActiveId(null)
+    setNotice(null)
+  }
+
   const handleLanguageToggle = (langCode: Language) => {
     setSelectedLanguages((prev) => {
       if (prev.includes(langCode)) {
@@ -53,122 +467,347 @@ function RouteComponent() {
     })
   }
 
-  const processImage = async (
-    imageData: ImageData,
-    worker: Worker,
-  ): Promise<string> => {
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')!
-    canvas.width = imageData.width
-    canvas.height = imageData.height
-    ctx.putImageData(imageData, 0, 0)
-
-    const {
-      data: { text },
-    } = await worker.recognize(canvas)
-    return text
+  const togglePreprocessStep = (
+    key: Exclude<keyof PreprocessOptions, 'binarize'>,
+  ) => {
+    setPreprocessOptions((prev) => ({ ...prev, [key]: !prev[key] }))
   }
 
-  const extractTextFromPDF = useCallback(async () => {
+  const generatePreview = async () => {
     if (!file) return
 
+    setIsPreviewing(true)
+    setError(null)
+    const detector = preprocessOptions.autoRotate
+      ? await createOrientationDetector().catch(() => null)
+      : null
+    try {
+      const source = await getSource(file)
+      const pageNumber = Math.min(Math.max(previewPage, 1), source.pageCount)
+      const { canvas } = await source.renderPage(pageNumber)
+      const result = await preprocessPage(
+        canvas,
+        preprocessOptions,
+        detector?.detect,
+      )
+      setPreview({
+        pageNumber,
+        before: canvas.toDataURL('image/jpeg', 0.8),
+        after: result.canvas.toDataURL('image/png'),
+        details: describePreprocessing(result),
+      })
+    } catch (err) {
+      console.error('Preview Error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create preview')
+    } finally {
+      await detector?.terminate()
+      setIsPreviewing(false)
+    }
+  }
+
+  const runQueue = useCallback(async () => {
+    const items = queue.filter((item) => item.status !== 'done')
+    if (items.length === 0) return
+
     setIsProcessing(true)
     setError(null)
-    setProgress(0)
-    setExtractedText('')
-    setCurrentPage(0)
-    setTotalPages(0)
+    setNotice(null)
+    setPageProgress([])
 
-    try {
-      // Initialize Tesseract worker
-      const worker = await createWorker(selectedLanguages.join('+'), 1, {
-        logger: (m) => {
-          if (m.status === 'recognizing text') {
-            setProgress(m.progress * 100)
-          }
-        },
+    const controller = new AbortController()
+    abortRef.current = controller
+    const { signal } = controller
+    const whenAborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), {
+        once: true,
       })
-      workerRef.current = worker
-
-      // Load PDF
-      const arrayBuffer = await file.arrayBuffer()
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-      setTotalPages(pdf.numPages)
-
-      let fullText = ''
-
-      // Process each page
-      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-        setCurrentPage(pageNum)
-        const page = await pdf.getPage(pageNum)
-
-        // Get page viewport and render to canvas
-        const viewport = page.getViewport({ scale: 2.0 })
-        const canvas = document.createElement('canvas')
-        const context = canvas.getContext('2d')!
-        canvas.width = viewport.width
-        canvas.height = viewport.height
-
-        await page.render({
-          canvasContext: context,
-          viewport: viewport,
-          canvas: canvas,
-        }).promise
-
-        // Get image data
-        const imageData = context.getImageData(
-          0,
-          0,
-          canvas.width,
-          canvas.height,
-        )
+    })
+    whenAborted.catch(() => {})
 
-        // Extract text using Tesseract
-        const pageText = await processImage(imageData, worker)
-        fullText += `\n\n--- Page ${pageNum} ---\n\n${pageText}`
+    const updatePage = (
+      pageNum: number,
+      update: Partial<Omit<PageProgress, 'pageNumber'>>,
+    ) => {
+      setPageProgress((prev) =>
+        prev.map((page) =>
+          page.pageNumber === pageNum ? { ...page, ...update } : page,
+        ),
+      )
+    }
 
-        // Update progress
-        const overallProgress = (pageNum / pdf.numPages) * 100
-        setProgress(overallProgress)
+    let detector: Awaited<ReturnType<typeof createOrientationDetector>> | null =
+      null
+    let jobKey: string | null = null
+    let currentItem: QueueItem | null = null
+    try {
+      // Workers read traineddata from their cache, or download and cache it
+      const languages = await resolveLanguageSource(selectedLanguages, (code) =>
+        setLoadingLanguage(code),
+      )
+      setLoadingLanguage(null)
+
+      if (preprocessOptions.autoRotate) {
+        detector = await createOrientationDetector()
       }
 
-      setExtractedText(fullText.trim())
+      // One Tesseract worker per core, fed by a scheduler. Started with the
+      // first page that needs recognition, documents with text may never
+      // need it.
+      let poolPromise: Promise<OcrPool> | null = null
+      const getPool = (size: number) => {
+        poolPromise ??= createOcrPool(languages, {
+          size,
+          signal,
+          onPageProgress: (pageNum, progress) =>
+            updatePage(pageNum, {
+              status: progress < 1 ? 'recognizing' : 'done',
+              progress,
+            }),
+        }).then(async (pool) => {
+          setCachedLanguages(await getCachedLanguages())
+          return (poolRef.current = pool)
+        })
+        return poolPromise
+      }
 
-      // Cleanup worker
-      await worker.terminate()
-      workerRef.current = null
-    } catch (err) {
-      console.error('OCR Error:', err)
-      setError(
-        err instanceof Error ? err.message : 'Failed to extract text from PDF',
-      )
+      const recognizeFile = async (
+        item: QueueItem,
+        checkpointKey: string,
+        laterFiles: number,
+      ) => {
+        const source = await openOcrSource(item.file)
+        try {
+          const pageNumbers = parsePageRange(pageRangeInput, source.pageCount)
+
+          // Pick up pages finished by an earlier, interrupted run
+          const results = new Map<number, OcrPageResult>()
+          const saved = await loadCheckpoint(checkpointKey).catch(() => [])
+          for (const result of saved) {
+            if (forceOcr && result.textLayer) continue
+            results.set(result.pageNumber, result)
+          }
+          const pendingPages = pageNumbers.filter(
+            (pageNum) => !results.has(pageNum),
+          )
+
+          // Every later file has at least one page
+          const poolSize =
+            poolRef.current?.size ??
+            Math.max(
+              1,
+              Math.min(getDefaultPoolSize(), pendingPages.length + laterFiles),
+            )
+
+          setPageProgress(
+            pageNumbers.map((pageNumber) =>
+              pendingPages.includes(pageNumber)
+                ? { pageNumber, status: 'queued', progress: 0 }
+                : { pageNumber, status: 'done', progress: 1 },
+            ),
+          )
 
-      // Cleanup worker on error
-      if (workerRef.current) {
-        await workerRef.current.terminate()
-        workerRef.current = null
+          const finishPage = async (result: OcrPageResult) => {
+            results.set(result.pageNumber, result)
+            await savePageCheckpoint(checkpointKey, result).catch(
+              (err: unknown) => console.warn('OCR checkpoint failed:', err),
+            )
+          }
+
+          // Twice as many lanes as workers, so the next page is rendered and
+          // preprocessed while a worker is still recognizing. The first lane
+          // that fails stops the others after their current page.
+          const fileController = new AbortController()
+          const processPages = async () => {
+            while (
+              !signal.aborted &&
+              !fileController.signal.aborted &&
+              pendingPages.length > 0
+            ) {
+              const pageNum = pendingPages.shift()!
+
+              // Pages with text keep it unless OCR is forced, which is faster
+              // and cannot misread anything
+              if (!forceOcr) {
+                updatePage(pageNum, { status: 'checking', progress: 0 })
+                const content = await source.getPageContent(pageNum)
+                updatePage(pageNum, { content: content.kind })
+                if (content.text) {
+                  await finishPage(
+                    toTextLayerResult(content.text, pageNum, regions),
+                  )
+                  updatePage(pageNum, { status: 'done', progress: 1 })
+                  continue
+                }
+              }
+
+              const pool = await getPool(poolSize)
+              updatePage(pageNum, { status: 'rendering', progress: 0 })
+              const { canvas, pageSize } = await source.renderPage(pageNum)
+              const processed = await preprocessPage(
+                canvas,
+                preprocessOptions,
+                detector?.detect,
+              )
+
+              // Extract words and their positions using Tesseract
+              const result = await pool.recognize(
+                processed.canvas,
+                pageNum,
+                pageSize,
+                processed.rotation,
+                regions,
+              )
+              await finishPage(result)
+            }
+          }
+          const lanes = Array.from({ length: poolSize * 2 }, () =>
+            processPages().catch((err: unknown) => fileController.abort(err)),
+          )
+          // A cancelled page may be stuck in orientation detection, so do not
+          // wait for the lanes to wind down. A failed file waits for them, so
+          // none still renders from a closed source.
+          await Promise.race([Promise.allSettled(lanes), whenAborted])
+          fileController.signal.throwIfAborted()
+
+          await clearCheckpoint(checkpointKey).catch(() => {})
+          return pageNumbers.map((pageNum) => results.get(pageNum)!)
+        } finally {
+          await source.destroy()
+        }
+      }
+
+      // Files are recognized one after another, a failed file does not stop
+      // the rest of the queue
+      for (const [index, item] of items.entries()) {
+        signal.throwIfAborted()
+        currentItem = item
+        jobKey = null
+        setProcessingId(item.id)
+        setPageProgress([])
+        updateItem(item.id, { status: 'processing', error: undefined })
+        try {
+          jobKey = getCheckpointKey(
+            await hashFile(item.file),
+            selectedLanguages,
+            regions,
+          )
+          const pages = await recognizeFile(
+            item,
+            jobKey,
+            items.length - index - 1,
+          )
+          updateItem(item.id, {
+            status: 'done',
+            pages,
+            languages: selectedLanguages,
+          })
+          currentItem = null
+        } catch (err) {
+          if (signal.aborted) throw err
+          console.error(`OCR Error (${item.file.name}):`, err)
+          updateItem(item.id, {
+            status: 'error',
+            error:
+              err instanceof Error ? err.message : 'Failed to extract text',
+          })
+        }
+      }
+    } catch (err) {
+      if (signal.aborted) {
+        if (currentItem) updateItem(currentItem.id, { status: 'cancelled' })
+        const pages = jobKey
+          ? await getCheckpointPages(jobKey).catch(() => new Set<number>())
+          : new Set<number>()
+        setNotice(
+          currentItem && pages.size > 0
+            ? `OCR cancelled. ${pages.size} finished page${pages.size !== 1 ? 's' : ''} of ${currentItem.file.name} ${pages.size !== 1 ? 'are' : 'is'} saved and will be skipped next time.`
+            : 'OCR cancelled.',
+        )
+      } else {
+        console.error('OCR Error:', err)
+        setError(err instanceof Error ? err.message : 'Failed to extract text')
       }
     } finally {
+      // Cleanup workers
+      await poolRef.current?.terminate()
+      poolRef.current = null
+      await detector?.terminate()
+      abortRef.current = null
       setIsProcessing(false)
-      setProgress(0)
+      setProcessingId(null)
+      setLoadingLanguage(null)
+      setCheckpointRevision((prev) => prev + 1)
     }
-  }, [file, selectedLanguages])
+  }, [
+    queue,
+    selectedLanguages,
+    preprocessOptions,
+    pageRangeInput,
+    regions,
+    forceOcr,
+  ])
+
+  const cancelOcr = () => {
+    abortRef.current?.abort()
+  }
 
-  const downloadText = () => {
-    if (!extractedText) return
+  const discardSavedProgress = async () => {
+    if (!fileHash) return
+    await clearCheckpoint(
+      getCheckpointKey(fileHash, selectedLanguages, regions),
+    )
+    setCheckpointRevision((prev) => prev + 1)
+    setNotice(null)
+  }
 
-    const blob = new Blob([extractedText], { type: 'text/plain' })
+  const pendingCount = queue.filter((item) => item.status !== 'done').length
+  const doneItems = queue.filter((item) => item.status === 'done')
+  const processingIndex = queue.findIndex((item) => item.id === processingId)
+  const pagesDone = pageProgress.filter((page) => page.status === 'done').length
+  const overallProgress =
+    pageProgress.length > 0
+      ? (pageProgress.reduce((sum, page) => sum + page.progress, 0) /
+          pageProgress.length) *
+        100
+      : 0
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download =
-      `${file?.name.replace('.pdf', '')}_ocr.txt` || 'extracted_text.txt'
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  /** A single file downloads as is, several files as one ZIP */
+  const downloadResults = async (items: Array<QueueItem>) => {
+    if (items.length === 0) return
+
+    setIsExporting(true)
+    setError(null)
+    try {
+      if (items.length === 1) {
+        const { blob, filename } = await createOcrOutput(items[0], outputFormat)
+        downloadBlob(blob, filename)
+      } else {
+        downloadBlob(
+          await createOcrZip(items, outputFormat),
+          `ocr_results_${outputFormat}.zip`,
+        )
+      }
+    } catch (err) {
+      console.error('Export Error:', err)
+      setError(
+        err instanceof Error ? err.message : 'Failed to create the download',
+      )
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   return (
     <div className="container mx-auto max-w-6xl p-6">
       <div className="mb-8">
@@ -177,15 +816,28 @@ function RouteComponent() {
           OCR PDF Extractor
         </h1>
         <p className="text-muted-foreground">
-          Extract text from PDF files using Optical Character Recognition
+          Extract text from PDF files and scanned images using Optical Character
+          Recognition
         </p>
       </div>
 
       {/* Language Selection */}
       <div className="mb-6 p-6 bg-card rounded-lg shadow-sm border border-border">
-        <h2 className="text-lg font-semibold mb-3">Select Languages</h2>
-        <div className="flex flex-wrap gap-3">
-          {languages.map((lang) => (
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Select Languages</h2>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+            <input
+              type="search"
+              value={languageSearch}
+              onChange={(e) => setLanguageSearch(e.target.value)}
+              placeholder="Search languages"
+              className="w-full rounded-lg border border-border bg-background py-2 pl-9 pr-3 text-sm focus:border-primary focus:outline-none"
+            />
+          </div>
+        </div>
+        <div className="flex max-h-72 flex-wrap gap-3 overflow-y-auto">
+          {visibleLanguages.map((lang) => (
             <button
               key={lang.code}
               onClick={() => handleLanguageToggle(lang.code)}
@@ -201,48 +853,424 @@ function RouteComponent() {
             >
               <span className="text-xl">{lang.flag}</span>
               <span>{lang.label}</span>
+              {cachedLanguages.has(lang.code) && (
+                <span title="Downloaded, works offline">
+                  <HardDrive className="size-4 opacity-70" />
+                </span>
+              )}
             </button>
           ))}
+          {visibleLanguages.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No language matches "{languageSearch}"
+            </p>
+          )}
         </div>
         <p className="text-sm text-muted-foreground mt-2">
           {selectedLanguages.length} language
           {selectedLanguages.length !== 1 ? 's' : ''} selected
+          {cachedLanguages.size > 0 &&
+            ` · ${cachedLanguages.size} available offline`}
         </p>
       </div>
 
+      {/* Preprocessing */}
+      <div className="mb-6 p-6 bg-card rounded-lg shadow-sm border border-border">
+        <h2 className="text-lg font-semibold mb-1">Image Preprocessing</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Clean up scans and photos before recognition
+        </p>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {preprocessSteps.map((step) => (
+            <label
+              key={step.key}
+              className={cn(
+                'p-3 rounded-lg border-2 flex items-start gap-3 cursor-pointer transition-all duration-200',
+                preprocessOptions[step.key]
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary',
+                isProcessing && 'opacity-50 cursor-not-allowed',
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={preprocessOptions[step.key]}
+                onChange={() => togglePreprocessStep(step.key)}
+                disabled={isProcessing}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-medium">{step.label}</span>
+                <span className="block text-sm text-muted-foreground">
+                  {step.description}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4">
+          <p className="font-medium mb-2">Binarization</p>
+          <div className="flex flex-wrap gap-2">
+            {binarizeMethods.map((method) => (
+              <button
+                key={method.value}
+                onClick={() =>
+                  setPreprocessOptions((prev) => ({
+                    ...prev,
+                    binarize: method.value,
+                  }))
+                }
+                disabled={isProcessing}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg border-2 text-sm font-medium transition-all duration-200',
+                  preprocessOptions.binarize === method.value
+                    ? 'bg-primary border-primary text-primary-foreground'
+                    : 'bg-card border-border hover:border-primary',
+                  isProcessing && 'opacity-50 cursor-not-allowed',
+                )}
+              >
+                {method.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label
+          className={cn(
+            'mt-4 p-3 rounded-lg border-2 flex items-start gap-3 cursor-pointer transition-all duration-200',
+            forceOcr
+              ? 'border-primary bg-primary/5'
+              : 'border-border hover:border-primary',
+            isProcessing && 'opacity-50 cursor-not-allowed',
+          )}
+        >
+          <input
+            type="checkbox"
+            checked={forceOcr}
+            onChange={(e) => setForceOcr(e.target.checked)}
+            disabled={isProcessing}
+            className="mt-1"
+          />
+          <span>
+            <span className="block font-medium">Force OCR</span>
+            <span className="block text-sm text-muted-foreground">
+              Also recognize PDF pages that already contain text. By default
+              their own text is used, which is faster and exact.
+            </span>
+          </span>
+        </label>
+
+        {file && (
+          <div className="mt-6 border-t border-border pt-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm font-medium" htmlFor="preview-page">
+                Preview page
+              </label>
+              <input
+                id="preview-page"
+                type="number"
+                min={1}
+                max={pageCount || undefined}
+                value={previewPage}
+                onChange={(e) => setPreviewPage(Number(e.target.value) || 1)}
+                className="w-20 rounded-lg border border-border bg-background px-2 py-1 text-sm"
+              />
+              {pageCount > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  of {pageCount}
+                </span>
+              )}
+              <button
+                onClick={generatePreview}
+                disabled={isPreviewing || isProcessing}
+                className={cn(
+                  'px-4 py-1.5 rounded-lg text-sm font-semibold flex items-center gap-2',
+                  isPreviewing || isProcessing
+                    ? 'bg-muted text-muted-foreground cursor-not-allowed'
+                    : 'bg-primary hover:bg-primary/90 text-primary-foreground',
+                )}
+              >
+                {isPreviewing ? (
+                  <Spinner className="size-4" />
+                ) : (
+                  <Eye className="size-4" />
+                )}
+                Preview
+              </button>
+            </div>
+
+            {preview && (
+              <div className="mt-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <figure>
+                    <figcaption className="text-sm font-medium mb-1">
+                      Before
+                    </figcaption>
+                    <img
+                      src={preview.before}
+                      alt={`Page ${preview.pageNumber} before preprocessing`}
+                      className="w-full rounded border border-border bg-white"
+                    />
+                  </figure>
+                  <figure>
+                    <figcaption className="text-sm font-medium mb-1">
+                      After
+                    </figcaption>
+                    <img
+                      src={preview.after}
+                      alt={`Page ${preview.pageNumber} after preprocessing`}
+                      className="w-full rounded border border-border bg-white"
+                    />
+                  </figure>
+                </div>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Page {preview.pageNumber}: {preview.details}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Pages and Regions */}
+      {file && pageCount > 0 && (
+        <div className="mb-6 p-6 bg-card rounded-lg shadow-sm border border-border">
+          <h2 className="text-lg font-semibold mb-3">Pages and Regions</h2>
+          <div className="mb-4">
+            <label
+              htmlFor="page-range"
+              className="block text-sm font-medium mb-1"
+            >
+              Pages
+            </label>
+            <input
+              id="page-range"
+              value={pageRangeInput}
+              onChange={(e) => setPageRangeInput(e.target.value)}
+              disabled={isProcessing}
+              placeholder={`All pages, e.g. 3-7, 12`}
+              className="w-full sm:w-72 rounded-lg border border-border bg-background px-3 py-2 text-sm"
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              {selectedPages.length > 0
+                ? `${selectedPages.length} of ${pageCount} pages selected`
+                : 'Enter pages like 3-7, 12'}
+            </p>
+          </div>
+          <OcrRegionEditor
+            regions={regions}
+            onChange={setRegions}
+            pageCount={pageCount}
+            getPageImage={getPageImage}
+            disabled={isProcessing}
+          />
+        </div>
+      )}
+
+      {/* Output Format */}
+      <div className="mb-6 p-6 bg-card rounded-lg shadow-sm border border-border">
+        <h2 className="text-lg font-semibold mb-3">Output Format</h2>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {outputFormats.map((format) => (
+            <button
+              key={format.value}
+              onClick={() => setOutputFormat(format.value)}
+              disabled={isExporting}
+              className={cn(
+                'p-4 rounded-lg border-2 text-left transition-all duration-200',
+                outputFormat === format.value
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary',
+                isExporting && 'opacity-50 cursor-not-allowed',
+              )}
+            >
+              <p className="font-medium">{format.label}</p>
+              <p className="text-sm text-muted-foreground">
+                {format.description}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* File Upload */}
       <div className="mb-6">
         <input
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept="application/pdf"
+          accept={OCR_FILE_ACCEPT}
+          multiple
           className="hidden"
           disabled={isProcessing}
         />
-
-        <button
-          onClick={() => fileInputRef.current?.click()}
+        <input
+          type="file"
+          ref={(input) => {
+            folderInputRef.current = input
+            if (input) input.webkitdirectory = true
+          }}
+          onChange={handleFileChange}
+          className="hidden"
           disabled={isProcessing}
+        />
+
+        <div
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
           className={cn(
             'w-full p-8 border-2 border-dashed rounded-lg',
             'flex flex-col items-center justify-center gap-3',
             'transition-colors duration-200',
             isProcessing
-              ? 'border-border bg-muted cursor-not-allowed'
-              : 'border-border hover:border-primary hover:bg-primary/5 cursor-pointer',
+              ? 'border-border bg-muted'
+              : isDragging
+                ? 'border-primary bg-primary/5'
+                : 'border-border',
           )}
         >
           <Upload className="size-12 text-muted-foreground" />
           <div className="text-center">
             <p className="text-lg font-semibold text-foreground">
-              {file ? file.name : 'Click to upload PDF'}
+              Drop files or a folder here
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              PDF, PNG, JPG and TIFF, recognized one after another
             </p>
-            <p className="text-sm text-muted-foreground mt-1">PDF files only</p>
           </div>
-        </button>
+          <div className="flex flex-wrap justify-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing}
+              className="px-4 py-2 rounded-lg border-2 border-border font-medium flex items-center gap-2 hover:border-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileText className="size-4" />
+              Choose files
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isProcessing}
+              className="px-4 py-2 rounded-lg border-2 border-border font-medium flex items-center gap-2 hover:border-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FolderOpen className="size-4" />
+              Choose folder
+            </button>
+          </div>
+        </div>
       </div>
 
+      {/* Queue */}
+      {queue.length > 0 && (
+        <div className="mb-6 p-6 bg-card rounded-lg shadow-sm border border-border">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">Files</h2>
+              <p className="text-sm text-muted-foreground">
+                {doneItems.length} of {queue.length} recognized · select a file
+                to preview, proofread or download it
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => void downloadResults(doneItems)}
+                disabled={doneItems.length < 2 || isProcessing || isExporting}
+                className="px-3 py-1.5 rounded-lg border-2 border-border text-sm font-medium flex items-center gap-2 hover:border-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileArchive className="size-4" />
+                Download all (ZIP)
+              </button>
+              <button
+                onClick={clearQueue}
+                disabled={isProcessing}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-destructive disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <ul className="max-h-96 space-y-1 overflow-y-auto">
+            {queue.map((item) => (
+              <li
+                key={item.id}
+                className={cn(
+                  'flex items-center gap-3 rounded-lg border-2 px-3 py-2',
+                  item.id === activeId
+                    ? 'border-primary bg-primary/5'
+                    : 'border-transparent hover:bg-muted',
+                )}
+              >
+                <button
+                  onClick={() => setActiveId(item.id)}
+                  className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                >
+                  {getOcrFileKind(item.file) === 'pdf' ? (
+                    <FileText className="size-5 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <FileImage className="size-5 shrink-0 text-muted-foreground" />
+                  )}
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate font-medium">
+                      {item.file.name}
+                    </span>
+                    <span
+                      className={cn(
+                        'block truncate text-sm',
+                        item.status === 'error'
+                          ? 'text-destructive'
+                          : 'text-muted-foreground',
+                      )}
+                    >
+                      {item.status === 'processing'
+                        ? `Recognizing… ${Math.round(overallProgress)}%`
+                        : describeStatus(item)}
+                    </span>
+                  </span>
+                  {item.status === 'processing' && (
+                    <Spinner className="size-4 shrink-0" />
+                  )}
+                  {item.status === 'done' && (
+                    <CircleCheck className="size-4 shrink-0 text-primary" />
+                  )}
+                  {item.status === 'error' && (
+                    <AlertCircle className="size-4 shrink-0 text-destructive" />
+                  )}
+                </button>
+                {item.status === 'done' && (
+                  <>
+                    <button
+                      onClick={() => void downloadResults([item])}
+                      disabled={isExporting}
+                      className="p-1.5 text-muted-foreground hover:text-primary disabled:opacity-50"
+                      title={`Download as ${outputFormats.find((format) => format.value === outputFormat)?.label ?? outputFormat}`}
+                    >
+                      <Download className="size-4" />
+                    </button>
+                    <button
+                      onClick={() => updateItem(item.id, { status: 'queued' })}
+                      disabled={isProcessing}
+                      className="p-1.5 text-muted-foreground hover:text-primary disabled:opacity-50"
+                      title="Recognize again with the current settings"
+                    >
+                      <RotateCcw className="size-4" />
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => removeItem(item.id)}
+                  disabled={isProcessing}
+                  className="p-1.5 text-muted-foreground hover:text-destructive disabled:opacity-50"
+                  title="Remove from the list"
+                >
+                  <Trash2 className="size-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 p-4 bg-destructive/10 border border-destructive/30 rounded-lg flex items-start gap-3">
@@ -254,16 +1282,45 @@ function RouteComponent() {
         </div>
       )}
 
+      {/* Saved Progress */}
+      {!isProcessing && (notice || savedSelectedPages > 0) && (
+        <div className="mb-6 p-4 bg-primary/5 border border-primary/30 rounded-lg flex items-start gap-3">
+          <History className="size-5 text-primary shrink-0 mt-0.5" />
+          <div className="flex-1">
+            {notice && <p className="text-sm font-medium">{notice}</p>}
+            {savedSelectedPages > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {savedSelectedPages} of {selectedPages.length} selected page
+                {selectedPages.length !== 1 ? 's' : ''} already recognized with
+                these languages and regions.
+                {firstUnfinishedPage !== undefined &&
+                  ` Resume continues from page ${firstUnfinishedPage}.`}
+              </p>
+            )}
+          </div>
+          {savedSelectedPages > 0 && (
+            <button
+              onClick={discardSavedProgress}
+              className="text-sm font-medium text-primary hover:underline"
+            >
+              Start over
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="mb-6 flex gap-3">
         <button
-          onClick={extractTextFromPDF}
-          disabled={!file || isProcessing || selectedLanguages.length === 0}
+          onClick={runQueue}
+          disabled={
+            pendingCount === 0 || isProcessing || selectedLanguages.length === 0
+          }
           className={cn(
             'flex-1 px-6 py-3 rounded-lg font-semibold',
             'flex items-center justify-center gap-2',
             'transition-colors duration-200',
-            !file || isProcessing || selectedLanguages.length === 0
+            pendingCount === 0 || isProcessing || selectedLanguages.length === 0
               ? 'bg-muted text-muted-foreground cursor-not-allowed'
               : 'bg-primary hover:bg-primary/90 text-primary-foreground',
           )}
@@ -271,62 +1328,137 @@ function RouteComponent() {
           {isProcessing ? (
             <>
               <Spinner className="size-5" />
-              Processing...{' '}
-              {currentPage > 0 && `(Page ${currentPage}/${totalPages})`}
+              {loadingLanguage ? (
+                `Loading ${languages.find((lang) => lang.code === loadingLanguage)?.label ?? loadingLanguage} data...`
+              ) : (
+                <>
+                  Processing...{' '}
+                  {pageProgress.length > 0 &&
+                    `(${pagesDone}/${pageProgress.length} pages)`}
+                </>
+              )}
             </>
           ) : (
             <>
               <FileText className="size-5" />
-              Extract Text
+              {savedSelectedPages > 0
+                ? 'Resume'
+                : pendingCount > 1
+                  ? `Extract Text (${pendingCount} files)`
+                  : 'Extract Text'}
             </>
           )}
         </button>
 
+        {isProcessing && (
+          <button
+            onClick={cancelOcr}
+            className={cn(
+              'px-6 py-3 rounded-lg font-semibold',
+              'flex items-center justify-center gap-2',
+              'transition-colors duration-200',
+              'bg-destructive/10 text-destructive hover:bg-destructive/20',
+            )}
+          >
+            <X className="size-5" />
+            Cancel
+          </button>
+        )}
+
         <button
-          onClick={downloadText}
-          disabled={!extractedText || isProcessing}
+          onClick={() => {
+            if (activeItem) void downloadResults([activeItem])
+          }}
+          disabled={!extractedText || isProcessing || isExporting}
           className={cn(
             'px-6 py-3 rounded-lg font-semibold',
             'flex items-center justify-center gap-2',
             'transition-colors duration-200',
-            !extractedText || isProcessing
+            !extractedText || isProcessing || isExporting
               ? 'bg-muted text-muted-foreground cursor-not-allowed'
               : 'bg-accent hover:bg-accent/90 text-accent-foreground',
           )}
         >
-          <Download className="size-5" />
+          {isExporting ? (
+            <Spinner className="size-5" />
+          ) : (
+            <Download className="size-5" />
+          )}
           Download
         </button>
       </div>
 
-      {/* Progress Bar */}
-      {isProcessing && (
+      {/* Progress */}
+      {isProcessing && pageProgress.length > 0 && (
         <div className="mb-6">
+          {processingIndex >= 0 && (
+            <p className="text-sm font-medium mb-2">
+              {queue[processingIndex].file.name} (file {processingIndex + 1} of{' '}
+              {queue.length})
+            </p>
+          )}
           <div className="w-full bg-muted rounded-full h-3 overflow-hidden">
             <div
               className="bg-primary h-full transition-all duration-300 rounded-full"
-              style={{ width: `${progress}%` }}
+              style={{ width: `${overallProgress}%` }}
             />
           </div>
           <p className="text-sm text-muted-foreground text-center mt-2">
-            {Math.round(progress)}%
+            {Math.round(overallProgress)}%
           </p>
+          <div className="mt-4 grid grid-cols-[repeat(auto-fill,minmax(4.5rem,1fr))] gap-2">
+            {pageProgress.map((page) => (
+              <div
+                key={page.pageNumber}
+                title={`Page ${page.pageNumber}: ${page.status}${page.content ? ` (${page.content} page)` : ''}`}
+                className={cn(
+                  'rounded-md border p-1.5 text-xs',
+                  page.status === 'done'
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border',
+                )}
+              >
+                <div className="flex justify-between">
+                  <span className="font-medium">{page.pageNumber}</span>
+                  <span className="text-muted-foreground">
+                    {page.status === 'checking'
+                      ? 'check'
+                      : page.status === 'rendering'
+                        ? 'render'
+                        : page.status === 'queued'
+                          ? '–'
+                          : page.status === 'done' &&
+                              page.content &&
+                              page.content !== 'image' &&
+                              !forceOcr
+                            ? 'text'
+                            : `${Math.round(page.progress * 100)}%`}
+                  </span>
+                </div>
+                <div className="mt-1 h-1 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all duration-300"
+                    style={{ width: `${page.progress * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
-      {/* Extracted Text Display */}
-      {extractedText && (
-        <div className="p-6 bg-card rounded-lg shadow-sm border border-border">
-          <h2 className="text-lg font-semibold mb-3">Extracted Text</h2>
-          <div className="bg-muted rounded-lg p-4 max-h-[600px] overflow-y-auto">
-            <pre className="whitespace-pre-wrap text-sm font-mono text-foreground">
-              {extractedText}
-            </pre>
-          </div>
+      {/* Proofreading */}
+      {ocrPages && ocrPages.length > 0 && (
+        <>
+          <OcrProofreader
+            pages={ocrPages}
+            getPageImage={getPageImage}
+            onCorrect={handleCorrection}
+          />
           <p className="text-sm text-muted-foreground mt-2">
             {extractedText.length} characters extracted
           </p>
-        </div>
+        </>
       )}
     </div>
   )
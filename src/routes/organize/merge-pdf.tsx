@@ -1,25 +1,310 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState, useRef } from 'react'
-import type { DragEvent, ChangeEvent } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { PDFDocument } from 'pdf-lib'
-import { Upload, X, FileText, ArrowDown, Download, Loader2 } from 'lucide-react'
+import {
+  ArrowDown,
+  Download,
+  FileText,
+  GripVertical,
+  Image as ImageIcon,
+  Loader2,
+  Upload,
+  X,
+} from 'lucide-react'
+import type { ChangeEvent, DragEvent } from 'react'
+import type { ImageFit, ImagePageOptions } from '@/lib/image-page'
+import type { PageRenderer } from '@/lib/page-renderer'
+import type { MergeSource } from '@/lib/pdf-merge'
+import { cn, getErrorMessage } from '@/lib/utils'
+import {
+  IMAGE_TYPES,
+  createImagePdf,
+  createImageThumbnail,
+} from '@/lib/image-page'
+import { parsePageRange } from '@/lib/page-range'
+import { mergeDocuments } from '@/lib/pdf-merge'
+import { openPageRenderer, toDataUrl } from '@/lib/page-renderer'
+import { convertDocxToPdf } from '@/lib/word-to-pdf-helper'
 
 export const Route = createFileRoute('/organize/merge-pdf')({
   component: RouteComponent,
 })
 
+/** Thumbnails are rendered at about 22 DPI, enough to recognise a page */
+const THUMBNAIL_SCALE = 0.3
+/** About the width of a page thumbnail */
+const IMAGE_THUMBNAIL_WIDTH = 180
+
+const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+/** Margins around images, in points */
+const IMAGE_MARGINS = [
+  { label: 'None', value: 0 },
+  { label: 'Small', value: 28.35 },
+  { label: 'Large', value: 56.7 },
+]
+
+const IMAGE_FITS: Array<{ label: string; value: ImageFit }> = [
+  { label: 'Fit', value: 'fit' },
+  { label: 'Fill', value: 'fill' },
+]
+
+/** Images become one page each, Word documents are converted to PDF */
+type FileKind = 'pdf' | 'image' | 'docx'
+
+const LOAD_ERRORS: Record<FileKind, string> = {
+  pdf: 'This file could not be read as a PDF',
+  image: 'This image could not be read',
+  docx: 'This Word document could not be converted',
+}
+
 interface PDFFile {
   id: string
   file: File
   name: string
   size: number
+  kind: FileKind
+  /** The PDF a Word document was converted to */
+  converted?: Uint8Array
+  /** Known once the file has been opened */
+  pageCount?: number
+  /** Pages to take from the file, like `1-3, 7`, empty takes all */
+  pageRange: string
+  isLoading: boolean
+  loadError?: string
+}
+
+/** One page of the merged document, in merge order */
+interface MergePage {
+  id: string
+  fileId: string
+  pageNumber: number
+}
+
+function getFileKind(file: File): FileKind | null {
+  if (file.type === 'application/pdf') return 'pdf'
+  if (IMAGE_TYPES.includes(file.type)) return 'image'
+  if (
+    file.type === DOCX_MIME_TYPE ||
+    file.name.toLowerCase().endsWith('.docx')
+  ) {
+    return 'docx'
+  }
+  return null
+}
+
+/** The file as a PDF, images are laid out on a page of their own */
+function loadMergeSource(
+  pdfFile: PDFFile,
+  imageOptions: ImagePageOptions,
+): Promise<PDFDocument> {
+  switch (pdfFile.kind) {
+    case 'image':
+      return createImagePdf(pdfFile.file, imageOptions)
+    case 'docx':
+      if (!pdfFile.converted) {
+        throw new Error(`${pdfFile.name} has not been converted`)
+      }
+      return PDFDocument.load(pdfFile.converted)
+    case 'pdf':
+      return pdfFile.file.arrayBuffer().then((data) => PDFDocument.load(data))
+  }
+}
+
+function getPageId(fileId: string, pageNumber: number): string {
+  return `${fileId}:${pageNumber}`
+}
+
+function createPages(
+  fileId: string,
+  pageNumbers: Array<number>,
+): Array<MergePage> {
+  return pageNumbers.map((pageNumber) => ({
+    id: getPageId(fileId, pageNumber),
+    fileId,
+    pageNumber,
+  }))
+}
+
+function getRangeError(pdfFile: PDFFile): string | null {
+  if (pdfFile.pageCount === undefined) return null
+  try {
+    parsePageRange(pdfFile.pageRange, pdfFile.pageCount)
+    return null
+  } catch (error) {
+    return getErrorMessage(error)
+  }
+}
+
+/**
+ * Applies a new page selection of one file to the merge order. Pages that
+ * stay selected keep their place, newly selected ones follow the file's last
+ * remaining page, or take the place of the pages they replace.
+ */
+function selectFilePages(
+  sequence: Array<MergePage>,
+  fileId: string,
+  pageNumbers: Array<number>,
+): Array<MergePage> {
+  const selected = new Set(pageNumbers)
+  const kept = new Set<number>()
+  const result: Array<MergePage> = []
+  let afterLastKept = -1
+  let firstRemoved = -1
+
+  for (const page of sequence) {
+    if (page.fileId !== fileId) {
+      result.push(page)
+    } else if (selected.has(page.pageNumber)) {
+      result.push(page)
+      kept.add(page.pageNumber)
+      afterLastKept = result.length
+    } else if (firstRemoved === -1) {
+      firstRemoved = result.length
+    }
+  }
+
+  const insertAt =
+    afterLastKept !== -1
+      ? afterLastKept
+      : firstRemoved !== -1
+        ? firstRemoved
+        : result.length
+  const added = createPages(
+    fileId,
+    pageNumbers.filter((pageNumber) => !kept.has(pageNumber)),
+  )
+  result.splice(insertAt, 0, ...added)
+  return result
+}
+
+/**
+ * Moving a file moves its pages as one block next to the pages of the file
+ * it takes the place of: after them when moving down, before them when
+ * moving up. Every other page keeps its order, so interleaved pages stay
+ * interleaved.
+ */
+function moveFilePages(
+  sequence: Array<MergePage>,
+  fileId: string,
+  targetFileId: string,
+  placeAfter: boolean,
+): Array<MergePage> {
+  const moved = sequence.filter((page) => page.fileId === fileId)
+  const rest = sequence.filter((page) => page.fileId !== fileId)
+  const targetPositions = rest.flatMap((page, i) =>
+    page.fileId === targetFileId ? [i] : [],
+  )
+  if (moved.length === 0 || targetPositions.length === 0) return sequence
+
+  const insertAt = placeAfter
+    ? targetPositions[targetPositions.length - 1] + 1
+    : targetPositions[0]
+  return [...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)]
 }
 
 function RouteComponent() {
-  const [pdfFiles, setPdfFiles] = useState<PDFFile[]>([])
+  const [pdfFiles, setPdfFiles] = useState<Array<PDFFile>>([])
+  const [sequence, setSequence] = useState<Array<MergePage>>([])
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({})
+  const [imageOptions, setImageOptions] = useState<ImagePageOptions>({
+    fit: 'fit',
+    margin: IMAGE_MARGINS[1].value,
+  })
   const [isDragging, setIsDragging] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [draggedFileId, setDraggedFileId] = useState<string | null>(null)
+  const [dragOverFileId, setDragOverFileId] = useState<string | null>(null)
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null)
+  const [dragOverPageId, setDragOverPageId] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Files are opened one after another, each in a page renderer of its own
+  const loadQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const loadControllersRef = useRef(new Map<string, AbortController>())
+
+  // Stop rendering thumbnails when leaving the page
+  useEffect(() => {
+    const controllers = loadControllersRef.current
+    return () => {
+      controllers.forEach((controller) => controller.abort())
+      controllers.clear()
+    }
+  }, [])
+
+  const updateFile = (id: string, changes: Partial<PDFFile>) => {
+    setPdfFiles((prev) =>
+      prev.map((pdfFile) =>
+        pdfFile.id === id ? { ...pdfFile, ...changes } : pdfFile,
+      ),
+    )
+  }
+
+  /** Reads the page count, selects every page and renders the thumbnails */
+  const loadFile = async (pdfFile: PDFFile, signal: AbortSignal) => {
+    let renderer: PageRenderer | null = null
+    try {
+      if (pdfFile.kind === 'image') {
+        const url = await createImageThumbnail(
+          pdfFile.file,
+          IMAGE_THUMBNAIL_WIDTH,
+        )
+        signal.throwIfAborted()
+        updateFile(pdfFile.id, { pageCount: 1, isLoading: false })
+        setSequence((prev) => [...prev, ...createPages(pdfFile.id, [1])])
+        setThumbnails((prev) => ({ ...prev, [getPageId(pdfFile.id, 1)]: url }))
+        return
+      }
+
+      // Converted once, its pages are then picked like those of a PDF
+      let data: Blob | Uint8Array = pdfFile.file
+      if (pdfFile.kind === 'docx') {
+        const { pdfBytes, warnings } = await convertDocxToPdf(pdfFile.file)
+        signal.throwIfAborted()
+        warnings.forEach((warning) =>
+          console.warn(`${pdfFile.name}: ${warning}`),
+        )
+        updateFile(pdfFile.id, { converted: pdfBytes })
+        data = pdfBytes
+      }
+
+      renderer = await openPageRenderer(data)
+      if (signal.aborted) return
+      const pageNumbers = Array.from(
+        { length: renderer.pageCount },
+        (_, i) => i + 1,
+      )
+      updateFile(pdfFile.id, {
+        pageCount: renderer.pageCount,
+        isLoading: false,
+      })
+      setSequence((prev) => [...prev, ...createPages(pdfFile.id, pageNumbers)])
+
+      for await (const result of renderer.encodePages(
+        pageNumbers,
+        { scale: THUMBNAIL_SCALE, type: 'image/jpeg', quality: 0.7 },
+        signal,
+      )) {
+        // A page without a thumbnail is still merged
+        if (!result.image) continue
+        const url = await toDataUrl(result.image.bytes, 'image/jpeg')
+        setThumbnails((prev) => ({
+          ...prev,
+          [getPageId(pdfFile.id, result.pageNumber)]: url,
+        }))
+      }
+    } catch (error) {
+      if (signal.aborted) return
+      console.error(`Error reading ${pdfFile.name}:`, error)
+      updateFile(pdfFile.id, {
+        isLoading: false,
+        loadError: LOAD_ERRORS[pdfFile.kind],
+      })
+    } finally {
+      renderer?.destroy()
+      loadControllersRef.current.delete(pdfFile.id)
+    }
+  }
 
   const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault()
@@ -43,33 +328,59 @@ function RouteComponent() {
     e.stopPropagation()
     setIsDragging(false)
 
-    const files = Array.from(e.dataTransfer.files).filter(
-      (file) => file.type === 'application/pdf',
-    )
-    addFiles(files)
+    addFiles(Array.from(e.dataTransfer.files))
   }
 
   const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files).filter(
-        (file) => file.type === 'application/pdf',
-      )
-      addFiles(files)
+      addFiles(Array.from(e.target.files))
     }
   }
 
-  const addFiles = (files: File[]) => {
-    const newPdfFiles: PDFFile[] = files.map((file) => ({
-      id: `${file.name}-${Date.now()}-${Math.random()}`,
-      file,
-      name: file.name,
-      size: file.size,
-    }))
+  const addFiles = (files: Array<File>) => {
+    // Files of other types are left out
+    const newPdfFiles = files.flatMap((file): Array<PDFFile> => {
+      const kind = getFileKind(file)
+      if (!kind) return []
+      return [
+        {
+          id: `${file.name}-${Date.now()}-${Math.random()}`,
+          file,
+          name: file.name,
+          size: file.size,
+          kind,
+          pageRange: '',
+          isLoading: true,
+        },
+      ]
+    })
     setPdfFiles((prev) => [...prev, ...newPdfFiles])
+
+    for (const pdfFile of newPdfFiles) {
+      const controller = new AbortController()
+      loadControllersRef.current.set(pdfFile.id, controller)
+      loadQueueRef.current = loadQueueRef.current.then(() =>
+        loadFile(pdfFile, controller.signal),
+      )
+    }
   }
 
   const removeFile = (id: string) => {
+    loadControllersRef.current.get(id)?.abort()
     setPdfFiles((prev) => prev.filter((file) => file.id !== id))
+    setSequence((prev) => prev.filter((page) => page.fileId !== id))
+    setThumbnails((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([pageId]) => !pageId.startsWith(`${id}:`)),
+      ),
+    )
+  }
+
+  const clearFiles = () => {
+    loadControllersRef.current.forEach((controller) => controller.abort())
+    setPdfFiles([])
+    setSequence([])
+    setThumbnails({})
   }
 
   const formatFileSize = (bytes: number): string => {
@@ -78,35 +389,148 @@ function RouteComponent() {
     return (bytes / (1024 * 1024)).toFixed(2) + ' MB'
   }
 
-  const moveFile = (index: number, direction: 'up' | 'down') => {
-    const newFiles = [...pdfFiles]
-    const targetIndex = direction === 'up' ? index - 1 : index + 1
+  const moveFileTo = (index: number, targetIndex: number) => {
+    if (targetIndex < 0 || targetIndex >= pdfFiles.length) return
+    if (index === targetIndex) return
 
-    if (targetIndex < 0 || targetIndex >= newFiles.length) return
-    ;[newFiles[index], newFiles[targetIndex]] = [
-      newFiles[targetIndex],
-      newFiles[index],
-    ]
+    const newFiles = [...pdfFiles]
+    const [movedFile] = newFiles.splice(index, 1)
+    newFiles.splice(targetIndex, 0, movedFile)
     setPdfFiles(newFiles)
+    setSequence((prev) =>
+      moveFilePages(
+        prev,
+        movedFile.id,
+        pdfFiles[targetIndex].id,
+        targetIndex > index,
+      ),
+    )
+  }
+
+  const moveFile = (index: number, direction: 'up' | 'down') => {
+    moveFileTo(index, direction === 'up' ? index - 1 : index + 1)
+  }
+
+  const updatePageRange = (pdfFile: PDFFile, pageRange: string) => {
+    updateFile(pdfFile.id, { pageRange })
+    if (pdfFile.pageCount === undefined) return
+
+    let pageNumbers: Array<number>
+    try {
+      pageNumbers = parsePageRange(pageRange, pdfFile.pageCount)
+    } catch {
+      // Shown next to the input, the last valid selection stays in place
+      return
+    }
+    setSequence((prev) => selectFilePages(prev, pdfFile.id, pageNumbers))
+  }
+
+  const handleFileDragStart = (fileId: string) => {
+    setDraggedFileId(fileId)
+  }
+
+  const handleFileDragOver = (e: DragEvent<HTMLDivElement>, fileId: string) => {
+    // Pages are only dropped between pages
+    if (!draggedFileId) return
+    e.preventDefault()
+    setDragOverFileId(fileId)
+  }
+
+  const handleFileDrop = (
+    e: DragEvent<HTMLDivElement>,
+    targetFileId: string,
+  ) => {
+    e.preventDefault()
+    if (draggedFileId) {
+      moveFileTo(
+        pdfFiles.findIndex((file) => file.id === draggedFileId),
+        pdfFiles.findIndex((file) => file.id === targetFileId),
+      )
+    }
+    setDraggedFileId(null)
+    setDragOverFileId(null)
+  }
+
+  const handlePageDragStart = (pageId: string) => {
+    setDraggedPageId(pageId)
+  }
+
+  const handlePageDragOver = (e: DragEvent<HTMLDivElement>, pageId: string) => {
+    if (!draggedPageId) return
+    e.preventDefault()
+    setDragOverPageId(pageId)
+  }
+
+  const handlePageDrop = (
+    e: DragEvent<HTMLDivElement>,
+    targetPageId: string,
+  ) => {
+    e.preventDefault()
+
+    if (!draggedPageId || draggedPageId === targetPageId) {
+      setDraggedPageId(null)
+      setDragOverPageId(null)
+      return
+    }
+
+    setSequence((prev) => {
+      const pages = [...prev]
+      const draggedIndex = pages.findIndex((p) => p.id === draggedPageId)
+      const targetIndex = pages.findIndex((p) => p.id === targetPageId)
+
+      if (draggedIndex === -1 || targetIndex === -1) return prev
+
+      const [draggedPage] = pages.splice(draggedIndex, 1)
+      pages.splice(targetIndex, 0, draggedPage)
+      return pages
+    })
+
+    setDraggedPageId(null)
+    setDragOverPageId(null)
   }
 
+  const isLoadingFiles = pdfFiles.some((pdfFile) => pdfFile.isLoading)
+  const hasRangeErrors = pdfFiles.some(
+    (pdfFile) => getRangeError(pdfFile) !== null,
+  )
+  const fileNames = new Map(
+    pdfFiles.map((pdfFile) => [pdfFile.id, pdfFile.name]),
+  )
+
   const mergePDFs = async () => {
     if (pdfFiles.length < 2) {
-      alert('Please select at least 2 PDF files to merge')
+      alert('Please select at least 2 files to merge')
+      return
+    }
+    if (hasRangeErrors) {
+      alert('Please fix the page ranges marked in red')
+      return
+    }
+    if (sequence.length === 0) {
+      alert('None of the files has pages to merge')
       return
     }
 
     setIsProcessing(true)
 
     try {
-      const mergedPdf = await PDFDocument.create()
-
-      for (const pdfFile of pdfFiles) {
-        const arrayBuffer = await pdfFile.file.arrayBuffer()
-        const pdf = await PDFDocument.load(arrayBuffer)
-        const copiedPages = await mergedPdf.copyPages(pdf, pdf.getPageIndices())
-        copiedPages.forEach((page) => mergedPdf.addPage(page))
-      }
+      // Files without pages in the merge are not loaded
+      const mergedFiles = pdfFiles.filter((pdfFile) =>
+        sequence.some((page) => page.fileId === pdfFile.id),
+      )
+      const sources = mergedFiles.map(
+        (pdfFile): MergeSource => ({
+          name: pdfFile.name.replace(/\.[^.]+$/, ''),
+          load: () => loadMergeSource(pdfFile, imageOptions),
+        }),
+      )
+      const mergedPdf = await mergeDocuments(
+        sources,
+        sequence.map((page) => ({
+          source: mergedFiles.findIndex((file) => file.id === page.fileId),
+          pageNumber: page.pageNumber,
+        })),
+      )
 
       const mergedPdfBytes = await mergedPdf.save()
       const blob = new Blob([mergedPdfBytes.buffer as ArrayBuffer], {
@@ -123,7 +547,7 @@ function RouteComponent() {
       URL.revokeObjectURL(url)
 
       // Reset after successful merge
-      setPdfFiles([])
+      clearFiles()
     } catch (error) {
       console.error('Error merging PDFs:', error)
       alert('An error occurred while merging PDFs. Please try again.')
@@ -139,7 +563,7 @@ function RouteComponent() {
         <div className="max-w-4xl mx-auto text-center">
           <h1 className="text-4xl font-bold mb-2">Merge PDF Files</h1>
           <p className="text-red-50">
-            Combine multiple PDF files into one document
+            Combine PDFs, images and Word documents into one PDF
           </p>
         </div>
       </div>
@@ -162,7 +586,7 @@ function RouteComponent() {
             ref={fileInputRef}
             type="file"
             multiple
-            accept="application/pdf"
+            accept={`application/pdf,${IMAGE_TYPES.join(',')},${DOCX_MIME_TYPE},.docx`}
             onChange={handleFileInput}
             className="hidden"
           />
@@ -171,11 +595,11 @@ function RouteComponent() {
             size={64}
           />
           <h3 className="text-xl font-semibold text-gray-700 mb-2">
-            {isDragging ? 'Drop your PDF files here' : 'Drag & Drop PDF files'}
+            {isDragging ? 'Drop your files here' : 'Drag & Drop files'}
           </h3>
           <p className="text-gray-500 mb-4">or click to browse</p>
           <p className="text-sm text-gray-400">
-            Select multiple PDF files to merge them into one
+            PDF, JPG, PNG, WebP, GIF, BMP and DOCX files are merged into one PDF
           </p>
         </div>
 
@@ -187,7 +611,7 @@ function RouteComponent() {
                 Selected Files ({pdfFiles.length})
               </h2>
               <button
-                onClick={() => setPdfFiles([])}
+                onClick={clearFiles}
                 className="text-red-600 hover:text-red-700 text-sm font-medium"
               >
                 Clear All
@@ -195,53 +619,243 @@ function RouteComponent() {
             </div>
 
             <div className="space-y-3">
-              {pdfFiles.map((pdfFile, index) => (
-                <div
-                  key={pdfFile.id}
-                  className="bg-white rounded-xl p-4 shadow-md border border-gray-200 flex items-center gap-4 hover:shadow-lg transition-shadow"
-                >
-                  <FileText className="text-red-600 shrink-0" size={32} />
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-gray-800 truncate">
-                      {pdfFile.name}
-                    </p>
-                    <p className="text-sm text-gray-500">
-                      {formatFileSize(pdfFile.size)}
-                    </p>
+              {pdfFiles.map((pdfFile, index) => {
+                const rangeError = getRangeError(pdfFile)
+                return (
+                  <div
+                    key={pdfFile.id}
+                    draggable
+                    onDragStart={() => handleFileDragStart(pdfFile.id)}
+                    onDragOver={(e) => handleFileDragOver(e, pdfFile.id)}
+                    onDrop={(e) => handleFileDrop(e, pdfFile.id)}
+                    onDragEnd={() => {
+                      setDraggedFileId(null)
+                      setDragOverFileId(null)
+                    }}
+                    className={cn(
+                      'bg-white rounded-xl p-4 shadow-md border flex items-center gap-4 hover:shadow-lg transition-all cursor-move',
+                      dragOverFileId === pdfFile.id &&
+                        draggedFileId !== pdfFile.id
+                        ? 'border-red-500 bg-red-50'
+                        : 'border-gray-200',
+                      draggedFileId === pdfFile.id && 'opacity-50',
+                    )}
+                  >
+                    <GripVertical
+                      className="text-gray-400 shrink-0"
+                      size={20}
+                    />
+                    {pdfFile.kind === 'image' ? (
+                      <ImageIcon className="text-red-600 shrink-0" size={32} />
+                    ) : (
+                      <FileText className="text-red-600 shrink-0" size={32} />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-800 truncate">
+                        {pdfFile.name}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {formatFileSize(pdfFile.size)}
+                        {pdfFile.pageCount !== undefined &&
+                          ` · ${pdfFile.pageCount} page${pdfFile.pageCount === 1 ? '' : 's'}`}
+                      </p>
+                      {pdfFile.isLoading && (
+                        <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
+                          <Loader2 className="animate-spin" size={14} />
+                          {pdfFile.kind === 'docx'
+                            ? 'Converting...'
+                            : 'Reading pages...'}
+                        </p>
+                      )}
+                      {pdfFile.loadError && (
+                        <p className="text-sm text-red-600 mt-1">
+                          {pdfFile.loadError}
+                        </p>
+                      )}
+                      {pdfFile.pageCount !== undefined &&
+                        pdfFile.kind !== 'image' && (
+                          <div className="mt-2">
+                            <input
+                              aria-label={`Pages of ${pdfFile.name}`}
+                              value={pdfFile.pageRange}
+                              onChange={(e) =>
+                                updatePageRange(pdfFile, e.target.value)
+                              }
+                              disabled={isProcessing}
+                              placeholder="All pages, e.g. 1-3, 7"
+                              className={cn(
+                                'w-full sm:w-64 rounded-lg border bg-white px-3 py-1.5 text-sm',
+                                rangeError
+                                  ? 'border-red-500'
+                                  : 'border-gray-300',
+                              )}
+                            />
+                            {rangeError && (
+                              <p className="text-sm text-red-600 mt-1">
+                                {rangeError}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => moveFile(index, 'up')}
+                        disabled={index === 0}
+                        className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                        title="Move up"
+                      >
+                        <ArrowDown className="rotate-180" size={20} />
+                      </button>
+                      <button
+                        onClick={() => moveFile(index, 'down')}
+                        disabled={index === pdfFiles.length - 1}
+                        className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                        title="Move down"
+                      >
+                        <ArrowDown size={20} />
+                      </button>
+                      <button
+                        onClick={() => removeFile(pdfFile.id)}
+                        className="p-2 rounded-lg hover:bg-red-100 text-red-600 transition-colors"
+                        title="Remove file"
+                      >
+                        <X size={20} />
+                      </button>
+                    </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => moveFile(index, 'up')}
-                      disabled={index === 0}
-                      className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                      title="Move up"
-                    >
-                      <ArrowDown className="rotate-180" size={20} />
-                    </button>
-                    <button
-                      onClick={() => moveFile(index, 'down')}
-                      disabled={index === pdfFiles.length - 1}
-                      className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                      title="Move down"
-                    >
-                      <ArrowDown size={20} />
-                    </button>
-                    <button
-                      onClick={() => removeFile(pdfFile.id)}
-                      className="p-2 rounded-lg hover:bg-red-100 text-red-600 transition-colors"
-                      title="Remove file"
-                    >
-                      <X size={20} />
-                    </button>
+                )
+              })}
+            </div>
+
+            {/* Image Options */}
+            {pdfFiles.some((pdfFile) => pdfFile.kind === 'image') && (
+              <div className="mt-6 bg-white rounded-xl p-4 shadow-md border border-gray-200 flex flex-wrap gap-6">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    Image size
+                  </p>
+                  <div className="flex gap-2">
+                    {IMAGE_FITS.map(({ label, value }) => (
+                      <button
+                        key={value}
+                        onClick={() =>
+                          setImageOptions((prev) => ({ ...prev, fit: value }))
+                        }
+                        disabled={isProcessing}
+                        className={cn(
+                          'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+                          imageOptions.fit === value
+                            ? 'bg-red-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
                   </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {imageOptions.fit === 'fit'
+                      ? 'The whole image is shown on the page'
+                      : 'The image covers the page, edges may be cropped'}
+                  </p>
                 </div>
-              ))}
-            </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    Margin
+                  </p>
+                  <div className="flex gap-2">
+                    {IMAGE_MARGINS.map(({ label, value }) => (
+                      <button
+                        key={label}
+                        onClick={() =>
+                          setImageOptions((prev) => ({
+                            ...prev,
+                            margin: value,
+                          }))
+                        }
+                        disabled={isProcessing}
+                        className={cn(
+                          'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
+                          imageOptions.margin === value
+                            ? 'bg-red-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Page Order */}
+            {sequence.length > 0 && (
+              <div className="mt-8">
+                <h2 className="text-2xl font-bold text-gray-800 mb-1">
+                  Merge Order ({sequence.length} page
+                  {sequence.length === 1 ? '' : 's'})
+                </h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  Drag pages to change where they appear in the merged PDF
+                </p>
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                  {sequence.map((page, index) => (
+                    <div
+                      key={page.id}
+                      draggable
+                      onDragStart={() => handlePageDragStart(page.id)}
+                      onDragOver={(e) => handlePageDragOver(e, page.id)}
+                      onDrop={(e) => handlePageDrop(e, page.id)}
+                      onDragEnd={() => {
+                        setDraggedPageId(null)
+                        setDragOverPageId(null)
+                      }}
+                      className={cn(
+                        'bg-white rounded-lg border-2 p-2 transition-all duration-200 cursor-move',
+                        dragOverPageId === page.id
+                          ? 'border-red-500 bg-red-50 scale-105'
+                          : 'border-gray-200 hover:border-red-300 hover:shadow-md',
+                        draggedPageId === page.id && 'opacity-50',
+                      )}
+                    >
+                      <div className="bg-gray-100 rounded aspect-[1/1.4] flex items-center justify-center overflow-hidden mb-2">
+                        {page.id in thumbnails ? (
+                          <img
+                            src={thumbnails[page.id]}
+                            alt={`Page ${page.pageNumber} of ${fileNames.get(page.fileId)}`}
+                            className="w-full h-full object-contain"
+                            draggable={false}
+                          />
+                        ) : (
+                          <FileText size={32} className="text-gray-400" />
+                        )}
+                      </div>
+                      <p className="text-xs font-semibold text-gray-800">
+                        {index + 1}
+                      </p>
+                      <p
+                        className="text-xs text-gray-500 truncate"
+                        title={fileNames.get(page.fileId)}
+                      >
+                        {fileNames.get(page.fileId)} · p. {page.pageNumber}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
 
             {/* Merge Button */}
             <button
               onClick={mergePDFs}
-              disabled={pdfFiles.length < 2 || isProcessing}
+              disabled={
+                pdfFiles.length < 2 ||
+                isProcessing ||
+                isLoadingFiles ||
+                hasRangeErrors
+              }
               className="w-full mt-6 bg-red-600 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
             >
               {isProcessing ? (
@@ -252,7 +866,8 @@ function RouteComponent() {
               ) : (
                 <>
                   <Download size={24} />
-                  Merge {pdfFiles.length} PDF{pdfFiles.length > 1 ? 's' : ''}
+                  Merge {sequence.length} page{sequence.length === 1 ? '' : 's'}{' '}
+                  from {pdfFiles.length} file{pdfFiles.length > 1 ? 's' : ''}
                 </>
               )}
             </button>
@@ -271,8 +886,8 @@ function RouteComponent() {
                   1
                 </span>
                 <span>
-                  Drag and drop your PDF files into the upload area, or click to
-                  select files from your computer
+                  Drag and drop your PDFs, images and Word documents into the
+                  upload area, or click to select files from your computer
                 </span>
               </li>
               <li className="flex items-start gap-3">
@@ -280,8 +895,9 @@ function RouteComponent() {
                   2
                 </span>
                 <span>
-                  Arrange the files in the desired order using the up/down
-                  arrows
+                  Arrange the files by dragging them or using the up/down
+                  arrows, and enter the pages to take from each file, like 1-3,
+                  7
                 </span>
               </li>
               <li className="flex items-start gap-3">
@@ -289,8 +905,8 @@ function RouteComponent() {
                   3
                 </span>
                 <span>
-                  Click the "Merge PDFs" button to combine all files into one
-                  PDF document
+                  Drag page thumbnails to fine-tune the order, then click the
+                  "Merge" button to combine them into one PDF document
                 </span>
               </li>
               <li className="flex items-start gap-3">
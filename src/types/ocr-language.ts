@@ -1,16 +1,156 @@
-export type Language = 'eng' | 'chi_sim' | 'khm'
-
 export interface LanguageOption {
-  code: Language
+  code: string
   label: string
   flag: string
 }
 
-// ! tesseract js support over 100 languages, add more as needed
-// ! please read here for supported languages: https://tesseract-ocr.github.io/tessdoc/Data-Files#data-files-for-version-400-november-29-2016
+// ! the Tesseract 4 language set, see https://tesseract-ocr.github.io/tessdoc/Data-Files-in-different-versions.html
+// ! `osd` (orientation and script detection) is not a language and is loaded separately
 
-export const languages: LanguageOption[] = [
-  { code: 'eng', label: 'English', flag: '🇬🇧' },
+export const languages = [
+  { code: 'afr', label: 'Afrikaans', flag: '🇿🇦' },
+  { code: 'amh', label: 'Amharic', flag: '🇪🇹' },
+  { code: 'ara', label: 'Arabic', flag: '🇸🇦' },
+  { code: 'asm', label: 'Assamese', flag: '🇮🇳' },
+  { code: 'aze', label: 'Azerbaijani', flag: '🇦🇿' },
+  { code: 'aze_cyrl', label: 'Azerbaijani - Cyrillic', flag: '🇦🇿' },
+  { code: 'bel', label: 'Belarusian', flag: '🇧🇾' },
+  { code: 'ben', label: 'Bengali', flag: '🇧🇩' },
+  { code: 'bod', label: 'Tibetan', flag: '🏔️' },
+  { code: 'bos', label: 'Bosnian', flag: '🇧🇦' },
+  { code: 'bre', label: 'Breton', flag: '🇫🇷' },
+  { code: 'bul', label: 'Bulgarian', flag: '🇧🇬' },
+  { code: 'cat', label: 'Catalan', flag: '🇪🇸' },
+  { code: 'ceb', label: 'Cebuano', flag: '🇵🇭' },
+  { code: 'ces', label: 'Czech', flag: '🇨🇿' },
   { code: 'chi_sim', label: 'Chinese - Simplified', flag: '🇨🇳' },
+  {
+    code: 'chi_sim_vert',
+    label: 'Chinese - Simplified (vertical)',
+    flag: '🇨🇳',
+  },
+  { code: 'chi_tra', label: 'Chinese - Traditional', flag: '🇹🇼' },
+  {
+    code: 'chi_tra_vert',
+    label: 'Chinese - Traditional (vertical)',
+    flag: '🇹🇼',
+  },
+  { code: 'chr', label: 'Cherokee', flag: '🇺🇸' },
+  { code: 'cos', label: 'Corsican', flag: '🇫🇷' },
+  { code: 'cym', label: 'Welsh', flag: '🏴󠁧󠁢󠁷󠁬󠁳󠁿' },
+  { code: 'dan', label: 'Danish', flag: '🇩🇰' },
+  { code: 'deu', label: 'German', flag: '🇩🇪' },
+  { code: 'div', label: 'Dhivehi', flag: '🇲🇻' },
+  { code: 'dzo', label: 'Dzongkha', flag: '🇧🇹' },
+  { code: 'ell', label: 'Greek', flag: '🇬🇷' },
+  { code: 'eng', label: 'English', flag: '🇬🇧' },
+  { code: 'enm', label: 'English - Middle', flag: '🇬🇧' },
+  { code: 'epo', label: 'Esperanto', flag: '🌍' },
+  { code: 'est', label: 'Estonian', flag: '🇪🇪' },
+  { code: 'eus', label: 'Basque', flag: '🇪🇸' },
+  { code: 'fao', label: 'Faroese', flag: '🇫🇴' },
+  { code: 'fas', label: 'Persian', flag: '🇮🇷' },
+  { code: 'fil', label: 'Filipino', flag: '🇵🇭' },
+  { code: 'fin', label: 'Finnish', flag: '🇫🇮' },
+  { code: 'fra', label: 'French', flag: '🇫🇷' },
+  { code: 'frk', label: 'German - Fraktur', flag: '🇩🇪' },
+  { code: 'frm', label: 'French - Middle', flag: '🇫🇷' },
+  { code: 'fry', label: 'Western Frisian', flag: '🇳🇱' },
+  { code: 'gla', label: 'Scottish Gaelic', flag: '🏴󠁧󠁢󠁳󠁣󠁴󠁿' },
+  { code: 'gle', label: 'Irish', flag: '🇮🇪' },
+  { code: 'glg', label: 'Galician', flag: '🇪🇸' },
+  { code: 'grc', label: 'Greek - Ancient', flag: '🇬🇷' },
+  { code: 'guj', label: 'Gujarati', flag: '🇮🇳' },
+  { code: 'hat', label: 'Haitian Creole', flag: '🇭🇹' },
+  { code: 'heb', label: 'Hebrew', flag: '🇮🇱' },
+  { code: 'hin', label: 'Hindi', flag: '🇮🇳' },
+  { code: 'hrv', label: 'Croatian', flag: '🇭🇷' },
+  { code: 'hun', label: 'Hungarian', flag: '🇭🇺' },
+  { code: 'hye', label: 'Armenian', flag: '🇦🇲' },
+  { code: 'iku', label: 'Inuktitut', flag: '🇨🇦' },
+  { code: 'ind', label: 'Indonesian', flag: '🇮🇩' },
+  { code: 'isl', label: 'Icelandic', flag: '🇮🇸' },
+  { code: 'ita', label: 'Italian', flag: '🇮🇹' },
+  { code: 'ita_old', label: 'Italian - Old', flag: '🇮🇹' },
+  { code: 'jav', label: 'Javanese', flag: '🇮🇩' },
+  { code: 'jpn', label: 'Japanese', flag: '🇯🇵' },
+  { code: 'jpn_vert', label: 'Japanese (vertical)', flag: '🇯🇵' },
+  { code: 'kan', label: 'Kannada', flag: '🇮🇳' },
+  { code: 'kat', label: 'Georgian', flag: '🇬🇪' },
+  { code: 'kat_old', label: 'Georgian - Old', flag: '🇬🇪' },
+  { code: 'kaz', label: 'Kazakh', flag: '🇰🇿' },
   { code: 'khm', label: 'Central Khmer', flag: '🇰🇭' },
+  { code: 'kir', label: 'Kyrgyz', flag: '🇰🇬' },
+  { code: 'kmr', label: 'Kurmanji (Kurdish)', flag: '🇹🇷' },
+  { code: 'kor', label: 'Korean', flag: '🇰🇷' },
+  { code: 'kor_vert', label: 'Korean (vertical)', flag: '🇰🇷' },
+  { code: 'lao', label: 'Lao', flag: '🇱🇦' },
+  { code: 'lat', label: 'Latin', flag: '🇻🇦' },
+  { code: 'lav', label: 'Latvian', flag: '🇱🇻' },
+  { code: 'lit', label: 'Lithuanian', flag: '🇱🇹' },
+  { code: 'ltz', label: 'Luxembourgish', flag: '🇱🇺' },
+  { code: 'mal', label: 'Malayalam', flag: '🇮🇳' },
+  { code: 'mar', label: 'Marathi', flag: '🇮🇳' },
+  { code: 'mkd', label: 'Macedonian', flag: '🇲🇰' },
+  { code: 'mlt', label: 'Maltese', flag: '🇲🇹' },
+  { code: 'mon', label: 'Mongolian', flag: '🇲🇳' },
+  { code: 'mri', label: 'Maori', flag: '🇳🇿' },
+  { code: 'msa', label: 'Malay', flag: '🇲🇾' },
+  { code: 'mya', label: 'Burmese', flag: '🇲🇲' },
+  { code: 'nep', label: 'Nepali', flag: '🇳🇵' },
+  { code: 'nld', label: 'Dutch', flag: '🇳🇱' },
+  { code: 'nor', label: 'Norwegian', flag: '🇳🇴' },
+  { code: 'oci', label: 'Occitan', flag: '🇫🇷' },
+  { code: 'ori', label: 'Oriya', flag: '🇮🇳' },
+  { code: 'pan', label: 'Punjabi', flag: '🇮🇳' },
+  { code: 'pol', label: 'Polish', flag: '🇵🇱' },
+  { code: 'por', label: 'Portuguese', flag: '🇵🇹' },
+  { code: 'pus', label: 'Pashto', flag: '🇦🇫' },
+  { code: 'que', label: 'Quechua', flag: '🇵🇪' },
+  { code: 'ron', label: 'Romanian', flag: '🇷🇴' },
+  { code: 'rus', label: 'Russian', flag: '🇷🇺' },
+  { code: 'san', label: 'Sanskrit', flag: '🇮🇳' },
+  { code: 'sin', label: 'Sinhala', flag: '🇱🇰' },
+  { code: 'slk', label: 'Slovak', flag: '🇸🇰' },
+  { code: 'slv', label: 'Slovenian', flag: '🇸🇮' },
+  { code: 'snd', label: 'Sindhi', flag: '🇵🇰' },
+  { code: 'spa', label: 'Spanish', flag: '🇪🇸' },
+  { code: 'spa_old', label: 'Spanish - Old', flag: '🇪🇸' },
+  { code: 'sqi', label: 'Albanian', flag: '🇦🇱' },
+  { code: 'srp', label: 'Serbian', flag: '🇷🇸' },
+  { code: 'srp_latn', label: 'Serbian - Latin', flag: '🇷🇸' },
+  { code: 'sun', label: 'Sundanese', flag: '🇮🇩' },
+  { code: 'swa', label: 'Swahili', flag: '🇰🇪' },
+  { code: 'swe', label: 'Swedish', flag: '🇸🇪' },
+  { code: 'syr', label: 'Syriac', flag: '🇸🇾' },
+  { code: 'tam', label: 'Tamil', flag: '🇮🇳' },
+  { code: 'tat', label: 'Tatar', flag: '🇷🇺' },
+  { code: 'tel', label: 'Telugu', flag: '🇮🇳' },
+  { code: 'tgk', label: 'Tajik', flag: '🇹🇯' },
+  { code: 'tha', label: 'Thai', flag: '🇹🇭' },
+  { code: 'tir', label: 'Tigrinya', flag: '🇪🇷' },
+  { code: 'ton', label: 'Tongan', flag: '🇹🇴' },
+  { code: 'tur', label: 'Turkish', flag: '🇹🇷' },
+  { code: 'uig', label: 'Uyghur', flag: '🇨🇳' },
+  { code: 'ukr', label: 'Ukrainian', flag: '🇺🇦' },
+  { code: 'urd', label: 'Urdu', flag: '🇵🇰' },
+  { code: 'uzb', label: 'Uzbek', flag: '🇺🇿' },
+  { code: 'uzb_cyrl', label: 'Uzbek - Cyrillic', flag: '🇺🇿' },
+  { code: 'vie', label: 'Vietnamese', flag: '🇻🇳' },
+  { code: 'yid', label: 'Yiddish', flag: '🇮🇱' },
+  { code: 'yor', label: 'Yoruba', flag: '🇳🇬' },
+] as const satisfies ReadonlyArray<LanguageOption>
+
+export type Language = (typeof languages)[number]['code']
+
+/** Shown first in the language picker */
+export const commonLanguages: Array<Language> = [
+  'eng',
+  'khm',
+  'tha',
+  'lao',
+  'vie',
+  'fra',
+  'chi_sim',
+  'chi_tra',
 ]
@@ -15,6 +15,11 @@ export default defineConfig({
     viteReact(),
     tailwindcss(),
   ],
+  // The page renderer worker imports pdf.js, which loads its own worker
+  // script with a dynamic import
+  worker: {
+    format: 'es',
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),